@@ -0,0 +1,53 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { useActionState } from 'react';
+import { verifyAuditChainAction } from '@/app/(login)/actions';
+
+type ActionState = {
+  error?: string;
+  success?: string;
+};
+
+export function AuditIntegrity({ canExport }: { canExport: boolean }) {
+  const [state, formAction, isPending] = useActionState<ActionState, FormData>(
+    verifyAuditChainAction,
+    { error: '', success: '' }
+  );
+
+  return (
+    <form action={formAction} className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        Every entry is chained to the one before it, so edits and deletions
+        can be detected.
+      </p>
+      <div className="flex gap-2">
+        <Button type="submit" variant="outline" size="sm" disabled={isPending}>
+          {isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Verifying...
+            </>
+          ) : (
+            <>
+              <ShieldCheck className="mr-2 h-4 w-4" />
+              Verify integrity
+            </>
+          )}
+        </Button>
+        {canExport && (
+          <Button asChild variant="outline" size="sm">
+            <a href="/api/team/audit/export" download>
+              Download signed export
+            </a>
+          </Button>
+        )}
+      </div>
+      {state?.error && <p className="text-red-500 text-sm">{state.error}</p>}
+      {state?.success && (
+        <p className="text-green-500 text-sm">{state.success}</p>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,180 @@
+import { ActivityType } from '@/lib/db/schema';
+import type { ActivityActorType, ActivityLog } from '@/lib/db/queries';
+
+// Who did it, as the viewer should read it: "You" for their own entries,
+// otherwise the member's name.
+export type ActivityActor = {
+  name: string;
+  self: boolean;
+};
+
+const ACTOR_NAMES: Record<Exclude<ActivityActorType, 'user'>, string> = {
+  api_token: 'An API token',
+  scim: 'The identity provider',
+  system: 'The system',
+};
+
+export function describeActor(
+  actor: { id: number; name: string | null; email: string } | null,
+  actorType: ActivityActorType,
+  viewerId: number
+): ActivityActor {
+  if (actor) {
+    return { name: actor.name || actor.email, self: actor.id === viewerId };
+  }
+  if (actorType !== 'user') return { name: ACTOR_NAMES[actorType], self: false };
+  return { name: 'A former member', self: false };
+}
+
+// Who or what the event was about, named as it was when it happened.
+export function describeTarget(
+  target: ActivityLog['target'],
+  viewerId: number
+): ActivityActor | null {
+  if (!target) return null;
+  if (target.type === 'user') {
+    return {
+      name: target.label ?? 'a former member',
+      self: Number(target.id) === viewerId,
+    };
+  }
+  return target.label ? { name: target.label, self: false } : null;
+}
+
+// Entries written before targets were recorded have none, so every phrase
+// that names one falls back to the older wording.
+export function formatAction(
+  action: ActivityType,
+  actor: ActivityActor,
+  target: ActivityActor | null = null,
+  metadata: Record<string, any> | null = null
+): string {
+  const who = actor.self ? 'You' : actor.name;
+  const whom = actor.self ? 'you' : actor.name;
+  const their = actor.self ? 'your' : 'their';
+  const possessive = actor.self ? 'your' : `${actor.name}'s`;
+  const whose = actor.self ? 'Your' : possessive;
+  const them = target && (target.self ? 'you' : target.name);
+  const theirs = target && (target.self ? 'your' : `${target.name}'s`);
+  const toRole = metadata?.to ? ` to ${metadata.to}` : '';
+
+  switch (action) {
+    case ActivityType.SIGN_UP:
+      return `${who} signed up`;
+    case ActivityType.SIGN_IN:
+      return `${who} signed in`;
+    case ActivityType.SIGN_OUT:
+      return `${who} signed out`;
+    case ActivityType.UPDATE_PASSWORD:
+      return `${who} changed ${their} password`;
+    case ActivityType.DISABLE_TWO_FACTOR:
+      return `${who} turned off two-factor authentication`;
+    case ActivityType.REGENERATE_RECOVERY_CODES:
+      return `${who} generated new recovery codes`;
+    case ActivityType.DELETE_ACCOUNT:
+      return `${who} deleted ${their} account`;
+    case ActivityType.UPDATE_ACCOUNT:
+      return `${who} updated ${their} account`;
+    case ActivityType.CREATE_TEAM:
+      return `${who} created a new team`;
+    case ActivityType.REMOVE_TEAM_MEMBER:
+      return `${who} removed ${them ?? 'a team member'}`;
+    case ActivityType.INVITE_TEAM_MEMBER:
+      return `${who} invited ${them ?? 'a team member'}`;
+    case ActivityType.ACCEPT_INVITATION:
+      return `${who} accepted an invitation`;
+    case ActivityType.REVOKE_INVITATION:
+      return them
+        ? `${who} revoked the invitation for ${them}`
+        : `${who} revoked an invitation`;
+    case ActivityType.IMPORT_TEAM_MEMBERS:
+      return metadata?.invited
+        ? `${who} imported ${metadata.invited} team members from a file`
+        : `${who} imported team members from a file`;
+    case ActivityType.SCIM_PROVISION_USER:
+      return them
+        ? `${who} added ${them} to the team`
+        : `The identity provider added ${whom} to the team`;
+    case ActivityType.SCIM_DEACTIVATE_USER:
+      return theirs
+        ? `${who} deactivated ${theirs} membership`
+        : `The identity provider deactivated ${possessive} membership`;
+    case ActivityType.SCIM_UPDATE_ROLE:
+      return theirs
+        ? `${who} changed ${theirs} role${toRole}`
+        : `The identity provider changed ${possessive} role`;
+    case ActivityType.UPDATE_MEMBER_ROLE:
+      return `${who} changed ${theirs ?? "a member's"} role${toRole}`;
+    case ActivityType.CREATE_ROLE:
+      return them ? `${who} created the ${them} role` : `${who} created a role`;
+    case ActivityType.DELETE_ROLE:
+      return them ? `${who} deleted the ${them} role` : `${who} deleted a role`;
+    case ActivityType.ACCOUNT_LOCKED:
+      return `${
+        target ? (target.self ? 'Your' : theirs) : whose
+      } account was locked after too many failed sign-ins`;
+    case ActivityType.ACCOUNT_UNLOCKED:
+      return `${who} unlocked ${their} account`;
+    case ActivityType.REVOKE_SESSION:
+      return `${who} signed out ${their} session on ${them ?? 'another device'}`;
+    case ActivityType.REVOKE_OTHER_SESSIONS:
+      return `${who} signed out of all other devices`;
+    case ActivityType.IMPERSONATION_STARTED:
+      return `${who} started impersonating ${them ?? 'a user'}`;
+    case ActivityType.IMPERSONATION_ENDED:
+      return `${who} stopped impersonating ${them ?? 'a user'}`;
+    case ActivityType.TRANSFER_OWNERSHIP:
+      return `${who} accepted ownership of the team`;
+    case ActivityType.DELETE_TEAM:
+      return `${who} deleted the team`;
+    case ActivityType.VERIFY_DOMAIN:
+      return `${who} verified ${them ?? 'an email domain'}`;
+    case ActivityType.JOIN_VIA_DOMAIN:
+      return `${who} joined the team through ${their} email domain`;
+    case ActivityType.REQUEST_TO_JOIN:
+      return `${who} asked to join the team`;
+    case ActivityType.APPROVE_JOIN_REQUEST:
+      return theirs
+        ? `${who} approved ${theirs} request to join`
+        : `${who} approved a join request`;
+    case ActivityType.REJECT_JOIN_REQUEST:
+      return theirs
+        ? `${who} declined ${theirs} request to join`
+        : `${who} rejected a join request`;
+    case ActivityType.UPDATE_SUBSCRIPTION:
+      return `The subscription ${
+        metadata?.plan ? `to ${metadata.plan} ` : ''
+      }is now ${metadata?.status ?? 'updated'}`;
+    case ActivityType.CANCEL_SUBSCRIPTION:
+      return 'The subscription ended';
+    case ActivityType.UPDATE_SEATS:
+      return metadata?.seats
+        ? `Billing changed to ${metadata.seats} seats`
+        : 'The number of billed seats changed';
+    case ActivityType.UPDATE_RETENTION_POLICY:
+      return `${who} changed how long activity is kept`;
+    case ActivityType.APPLY_RETENTION: {
+      const changes = [
+        metadata?.purged && `deleted ${metadata.purged} old entries`,
+        metadata?.anonymized &&
+          `shortened ${metadata.anonymized} IP addresses`,
+      ].filter(Boolean);
+      const summary =
+        changes.length > 0
+          ? `${who} ${changes.join(' and ')} under the retention policy`
+          : `${who} applied the retention policy`;
+      const kept = metadata?.keptAddresses
+        ? ` (${metadata.keptAddresses} IP addresses logged before sealing kept until their entries are deleted)`
+        : '';
+      return summary + kept;
+    }
+    default:
+      return 'Unknown action occurred';
+  }
+}
+
+// "REMOVE_TEAM_MEMBER" -> "Remove team member", for the type filter.
+export function activityTypeLabel(action: ActivityType) {
+  const words = action.toLowerCase().replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
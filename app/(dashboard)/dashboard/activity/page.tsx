@@ -1,30 +1,108 @@
+import Link from 'next/link';
+import { redirect } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import {
   Settings,
   LogOut,
   UserPlus,
+  UserCheck,
+  UserX,
   Lock,
   UserCog,
   AlertCircle,
   UserMinus,
   Mail,
+  MailX,
   CheckCircle,
+  ShieldAlert,
+  Unlock,
+  Eye,
+  Crown,
+  Trash2,
+  Globe,
+  Upload,
+  KeyRound,
+  MonitorX,
+  CreditCard,
+  Users,
+  Download,
+  Archive,
+  History,
+  ShieldOff,
   type LucideIcon,
 } from 'lucide-react';
 import { ActivityType } from '@/lib/db/schema';
-import { getActivityLogs } from '@/lib/db/queries';
+import {
+  getActivityLogs,
+  getTeamActivityLogs,
+  getTeamWithMembers,
+  getUser,
+  getUserWithTeam,
+  type ActivityLog
+} from '@/lib/db/queries';
+import { hasPermission } from '@/lib/auth/permissions';
+import { describeDevice } from '@/lib/auth/session';
+import { isAuditSigningConfigured } from '@/lib/audit/export';
+import { getRetentionPolicy } from '@/lib/audit/retention';
+import {
+  ACTIVITY_TYPES,
+  auditSearchParams,
+  auditSearchSchema,
+  toActivityLogFilters,
+  type AuditSearch
+} from '@/lib/audit/filters';
+import type { AuditExportFormat } from '@/lib/audit/events';
+import { AuditIntegrity } from './audit-integrity';
+import { RetentionPolicy } from './retention-policy';
+import {
+  activityTypeLabel,
+  describeActor,
+  describeTarget,
+  formatAction
+} from './format';
 
 const iconMap: Record<ActivityType, LucideIcon> = {
   [ActivityType.SIGN_UP]: UserPlus,
   [ActivityType.SIGN_IN]: UserCog,
   [ActivityType.SIGN_OUT]: LogOut,
   [ActivityType.UPDATE_PASSWORD]: Lock,
+  [ActivityType.DISABLE_TWO_FACTOR]: ShieldOff,
+  [ActivityType.REGENERATE_RECOVERY_CODES]: KeyRound,
   [ActivityType.DELETE_ACCOUNT]: UserMinus,
   [ActivityType.UPDATE_ACCOUNT]: Settings,
   [ActivityType.CREATE_TEAM]: UserPlus,
   [ActivityType.REMOVE_TEAM_MEMBER]: UserMinus,
   [ActivityType.INVITE_TEAM_MEMBER]: Mail,
   [ActivityType.ACCEPT_INVITATION]: CheckCircle,
+  [ActivityType.REVOKE_INVITATION]: MailX,
+  [ActivityType.IMPORT_TEAM_MEMBERS]: Upload,
+  [ActivityType.SCIM_PROVISION_USER]: UserCheck,
+  [ActivityType.SCIM_DEACTIVATE_USER]: UserX,
+  [ActivityType.SCIM_UPDATE_ROLE]: KeyRound,
+  [ActivityType.ACCOUNT_LOCKED]: ShieldAlert,
+  [ActivityType.ACCOUNT_UNLOCKED]: Unlock,
+  [ActivityType.IMPERSONATION_STARTED]: Eye,
+  [ActivityType.IMPERSONATION_ENDED]: Eye,
+  [ActivityType.TRANSFER_OWNERSHIP]: Crown,
+  [ActivityType.DELETE_TEAM]: Trash2,
+  [ActivityType.VERIFY_DOMAIN]: Globe,
+  [ActivityType.JOIN_VIA_DOMAIN]: UserPlus,
+  [ActivityType.REQUEST_TO_JOIN]: UserPlus,
+  [ActivityType.APPROVE_JOIN_REQUEST]: UserCheck,
+  [ActivityType.REJECT_JOIN_REQUEST]: UserX,
+  [ActivityType.UPDATE_MEMBER_ROLE]: KeyRound,
+  [ActivityType.CREATE_ROLE]: KeyRound,
+  [ActivityType.DELETE_ROLE]: KeyRound,
+  [ActivityType.REVOKE_SESSION]: MonitorX,
+  [ActivityType.REVOKE_OTHER_SESSIONS]: MonitorX,
+  [ActivityType.UPDATE_SUBSCRIPTION]: CreditCard,
+  [ActivityType.CANCEL_SUBSCRIPTION]: CreditCard,
+  [ActivityType.UPDATE_SEATS]: Users,
+  [ActivityType.UPDATE_RETENTION_POLICY]: History,
+  [ActivityType.APPLY_RETENTION]: Archive,
 };
 
 function getRelativeTime(date: Date) {
@@ -41,86 +119,282 @@ function getRelativeTime(date: Date) {
   return date.toLocaleDateString();
 }
 
-function formatAction(action: ActivityType): string {
-  switch (action) {
-    case ActivityType.SIGN_UP:
-      return 'You signed up';
-    case ActivityType.SIGN_IN:
-      return 'You signed in';
-    case ActivityType.SIGN_OUT:
-      return 'You signed out';
-    case ActivityType.UPDATE_PASSWORD:
-      return 'You changed your password';
-    case ActivityType.DELETE_ACCOUNT:
-      return 'You deleted your account';
-    case ActivityType.UPDATE_ACCOUNT:
-      return 'You updated your account';
-    case ActivityType.CREATE_TEAM:
-      return 'You created a new team';
-    case ActivityType.REMOVE_TEAM_MEMBER:
-      return 'You removed a team member';
-    case ActivityType.INVITE_TEAM_MEMBER:
-      return 'You invited a team member';
-    case ActivityType.ACCEPT_INVITATION:
-      return 'You accepted an invitation';
-    default:
-      return 'Unknown action occurred';
+function ActivityList({
+  logs,
+  viewerId,
+  emptyText
+}: {
+  logs: ActivityLog[];
+  viewerId: number;
+  emptyText: string;
+}) {
+  if (logs.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center text-center py-12">
+        <AlertCircle className="h-12 w-12 text-orange-500 mb-4" />
+        <h3 className="text-lg font-semibold text-gray-900 mb-2">
+          No activity yet
+        </h3>
+        <p className="text-sm text-gray-500 max-w-sm">{emptyText}</p>
+      </div>
+    );
   }
+
+  return (
+    <ul className="space-y-4">
+      {logs.map((entry) => {
+        const Icon = iconMap[entry.action as ActivityType] || Settings;
+        const formattedAction = formatAction(
+          entry.action as ActivityType,
+          describeActor(entry.actor, entry.actorType, viewerId),
+          describeTarget(entry.target, viewerId),
+          entry.metadata
+        );
+
+        return (
+          <li key={entry.id} className="flex items-center space-x-4">
+            <div className="bg-orange-100 rounded-full p-2">
+              <Icon className="w-5 h-5 text-orange-600" />
+            </div>
+            <div className="flex-1">
+              <p className="text-sm font-medium text-gray-900">
+                {formattedAction}
+                {entry.ipAddress && ` from IP ${entry.ipAddress}`}
+              </p>
+              <p className="text-xs text-gray-500">
+                {getRelativeTime(new Date(entry.timestamp))}
+                {entry.userAgent && ` · ${describeDevice(entry.userAgent)}`}
+              </p>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function auditHref(search: AuditSearch, cursor?: number) {
+  const query = auditSearchParams({ ...search, cursor }).toString();
+  return `/dashboard/activity${query ? `?${query}` : ''}`;
+}
+
+// Exports always start from the newest entry, whichever page is showing.
+function exportHref(search: AuditSearch, format: AuditExportFormat) {
+  const params = auditSearchParams({ ...search, cursor: undefined });
+  params.set('format', format);
+  return `/api/team/audit/events?${params}`;
+}
+
+async function TeamAuditLog({
+  teamId,
+  viewerId,
+  search
+}: {
+  teamId: number;
+  viewerId: number;
+  search: AuditSearch;
+}) {
+  const [team, page] = await Promise.all([
+    getTeamWithMembers(teamId),
+    getTeamActivityLogs(teamId, toActivityLogFilters(search), search.cursor)
+  ]);
+  const filtered = !!(
+    search.actor ||
+    search.action ||
+    search.from ||
+    search.to ||
+    search.ip
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Team Audit Log</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <AuditIntegrity canExport={isAuditSigningConfigured()} />
+
+        <form
+          method="get"
+          className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3 items-end"
+        >
+          <div>
+            <Label htmlFor="actor" className="mb-2">
+              Member
+            </Label>
+            <select
+              id="actor"
+              name="actor"
+              defaultValue={search.actor ?? ''}
+              className="w-full border border-input rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">Everyone</option>
+              {team?.members.map((member) => (
+                <option key={member.id} value={member.id}>
+                  {member.name || member.email}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="action" className="mb-2">
+              Event
+            </Label>
+            <select
+              id="action"
+              name="action"
+              defaultValue={search.action ?? ''}
+              className="w-full border border-input rounded-md px-3 py-2 text-sm"
+            >
+              <option value="">All events</option>
+              {ACTIVITY_TYPES.map((action) => (
+                <option key={action} value={action}>
+                  {activityTypeLabel(action)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <Label htmlFor="ip" className="mb-2">
+              IP address
+            </Label>
+            <Input
+              id="ip"
+              name="ip"
+              placeholder="e.g. 203.0.113."
+              defaultValue={search.ip ?? ''}
+              maxLength={45}
+            />
+          </div>
+          <div>
+            <Label htmlFor="from" className="mb-2">
+              From
+            </Label>
+            <Input
+              id="from"
+              name="from"
+              type="date"
+              defaultValue={search.from ?? ''}
+            />
+          </div>
+          <div>
+            <Label htmlFor="to" className="mb-2">
+              To
+            </Label>
+            <Input id="to" name="to" type="date" defaultValue={search.to ?? ''} />
+          </div>
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              className="bg-orange-500 hover:bg-orange-600 text-white"
+            >
+              Filter
+            </Button>
+            {filtered && (
+              <Button asChild variant="outline">
+                <Link href="/dashboard/activity">Clear</Link>
+              </Button>
+            )}
+          </div>
+        </form>
+
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Download className="h-4 w-4" />
+          <span>Export {filtered ? 'matching' : 'all'} entries as</span>
+          <a href={exportHref(search, 'csv')} className="underline" download>
+            CSV
+          </a>
+          <span>or</span>
+          <a href={exportHref(search, 'ndjson')} className="underline" download>
+            NDJSON
+          </a>
+        </div>
+
+        <ActivityList
+          logs={page.logs}
+          viewerId={viewerId}
+          emptyText={
+            filtered
+              ? 'Nothing matches these filters.'
+              : "When members sign in, invite people or change settings, it'll appear here."
+          }
+        />
+
+        {(search.cursor || page.nextCursor) && (
+          <div className="flex justify-between">
+            {search.cursor ? (
+              <Button asChild variant="outline" size="sm">
+                <Link href={auditHref({ ...search, cursor: undefined })}>
+                  Newest
+                </Link>
+              </Button>
+            ) : (
+              <span />
+            )}
+            {page.nextCursor && (
+              <Button asChild variant="outline" size="sm">
+                <Link href={auditHref(search, page.nextCursor)}>Older</Link>
+              </Button>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
 }
 
-export default async function ActivityPage() {
-  const logs = await getActivityLogs();
+// Members who may read the audit log see the whole team's activity; everyone
+// else sees their own.
+export default async function ActivityPage({
+  searchParams
+}: {
+  searchParams: Promise<Record<string, string | undefined>>;
+}) {
+  const user = await getUser();
+  if (!user) redirect('/sign-in');
+
+  const uwt = await getUserWithTeam(user.id);
+  const teamId = uwt?.teamId;
+  const canAudit =
+    !!teamId && (await hasPermission(user.id, teamId, 'audit.read'));
+  const canManageRetention =
+    !!teamId && (await hasPermission(user.id, teamId, 'audit.manage'));
 
   return (
     <section className="flex-1 p-4 lg:p-8">
       <h1 className="text-lg lg:text-2xl font-medium text-gray-900 mb-6">
         Activity Log
       </h1>
-      <Card>
-        <CardHeader>
-          <CardTitle>Recent Activity</CardTitle>
-        </CardHeader>
-        <CardContent>
-          {logs.length > 0 ? (
-            <ul className="space-y-4">
-              {logs.map((log) => {
-                const Icon = iconMap[log.action as ActivityType] || Settings;
-                const formattedAction = formatAction(
-                  log.action as ActivityType
-                );
-
-                return (
-                  <li key={log.id} className="flex items-center space-x-4">
-                    <div className="bg-orange-100 rounded-full p-2">
-                      <Icon className="w-5 h-5 text-orange-600" />
-                    </div>
-                    <div className="flex-1">
-                      <p className="text-sm font-medium text-gray-900">
-                        {formattedAction}
-                        {log.ipAddress && ` from IP ${log.ipAddress}`}
-                      </p>
-                      <p className="text-xs text-gray-500">
-                        {getRelativeTime(new Date(log.timestamp))}
-                      </p>
-                    </div>
-                  </li>
-                );
-              })}
-            </ul>
-          ) : (
-            <div className="flex flex-col items-center justify-center text-center py-12">
-              <AlertCircle className="h-12 w-12 text-orange-500 mb-4" />
-              <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                No activity yet
-              </h3>
-              <p className="text-sm text-gray-500 max-w-sm">
-                When you perform actions like signing in or updating your
-                account, they'll appear here.
-              </p>
-            </div>
-          )}
-        </CardContent>
-      </Card>
+      {canAudit ? (
+        <TeamAuditLog
+          teamId={teamId}
+          viewerId={user.id}
+          search={auditSearchSchema.parse(await searchParams)}
+        />
+      ) : (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Activity</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ActivityList
+              logs={await getActivityLogs()}
+              viewerId={user.id}
+              emptyText="When you perform actions like signing in or updating your account, they'll appear here."
+            />
+          </CardContent>
+        </Card>
+      )}
+      {canManageRetention && (
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle>Retention</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RetentionPolicy policy={await getRetentionPolicy(teamId)} />
+          </CardContent>
+        </Card>
+      )}
     </section>
   );
 }
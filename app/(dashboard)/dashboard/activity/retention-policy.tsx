@@ -0,0 +1,78 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Loader2 } from 'lucide-react';
+import { useActionState } from 'react';
+import { updateRetentionPolicyAction } from '@/app/(login)/actions';
+import type { RetentionPolicy as Policy } from '@/lib/audit/retention';
+
+type ActionState = {
+  error?: string;
+  success?: string;
+};
+
+export function RetentionPolicy({ policy }: { policy: Policy }) {
+  const [state, formAction, isPending] = useActionState<ActionState, FormData>(
+    updateRetentionPolicyAction,
+    { error: '', success: '' }
+  );
+
+  return (
+    <form action={formAction} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Older entries are deleted, and IP addresses shortened to their network,
+        once a day. Leave a field blank to keep everything. Addresses logged
+        before the log was sealed with digests stay as they are until their
+        entries are deleted, so the log still verifies.
+      </p>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div>
+          <Label htmlFor="retentionDays" className="mb-2">
+            Keep entries for (days)
+          </Label>
+          <Input
+            id="retentionDays"
+            name="retentionDays"
+            type="number"
+            min={1}
+            placeholder="Forever"
+            defaultValue={policy.retentionDays ?? ''}
+          />
+        </div>
+        <div>
+          <Label htmlFor="ipRetentionDays" className="mb-2">
+            Keep full IP addresses for (days)
+          </Label>
+          <Input
+            id="ipRetentionDays"
+            name="ipRetentionDays"
+            type="number"
+            min={1}
+            placeholder="Forever"
+            defaultValue={policy.ipRetentionDays ?? ''}
+          />
+        </div>
+      </div>
+      {state?.error && <p className="text-red-500 text-sm">{state.error}</p>}
+      {state?.success && (
+        <p className="text-green-500 text-sm">{state.success}</p>
+      )}
+      <Button
+        type="submit"
+        className="bg-orange-500 hover:bg-orange-600 text-white"
+        disabled={isPending}
+      >
+        {isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          'Save retention settings'
+        )}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,70 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Loader2, UserCheck } from 'lucide-react';
+import { useActionState } from 'react';
+import { impersonateUser } from '@/app/(login)/actions';
+
+type ActionState = {
+  error?: string;
+  email?: string;
+};
+
+export function Impersonate() {
+  const [state, formAction, isPending] = useActionState<
+    ActionState,
+    FormData
+  >(impersonateUser, { error: '' });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Impersonate a User</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <p className="text-sm text-gray-500 mb-4">
+          See the app as a customer does, for up to 30 minutes. Password,
+          two-factor and account changes are disabled, and the start and end
+          are recorded in the customer's team activity log.
+        </p>
+        <form className="space-y-4" action={formAction}>
+          <div>
+            <Label htmlFor="impersonate-email" className="mb-2">
+              Customer Email
+            </Label>
+            <Input
+              id="impersonate-email"
+              name="email"
+              type="email"
+              defaultValue={state.email}
+              required
+            />
+          </div>
+          {state?.error && (
+            <p className="text-red-500 text-sm">{state.error}</p>
+          )}
+          <Button
+            type="submit"
+            className="bg-orange-500 hover:bg-orange-600 text-white"
+            disabled={isPending}
+          >
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Starting...
+              </>
+            ) : (
+              <>
+                <UserCheck className="mr-2 h-4 w-4" />
+                Impersonate
+              </>
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,18 @@
+import { redirect } from 'next/navigation';
+import { Impersonate } from './impersonate';
+import { getUser } from '@/lib/db/queries';
+
+export default async function AdminPage() {
+  const user = await getUser();
+  if (!user) redirect('/sign-in');
+  if (!user.is_superadmin) redirect('/dashboard');
+
+  return (
+    <section className="flex-1 p-4 lg:p-8">
+      <h1 className="text-lg lg:text-2xl font-medium text-gray-900 mb-6">
+        Support
+      </h1>
+      <Impersonate />
+    </section>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { KeyRound, Loader2, PlusCircle } from 'lucide-react';
+import { useActionState } from 'react';
+import {
+  createApiTokenAction,
+  revokeApiTokenAction
+} from '@/app/(login)/actions';
+import type { ApiScope, ApiToken } from '@/lib/auth/api-tokens';
+
+type ActionState = {
+  error?: string;
+  success?: string;
+  token?: string;
+  name?: string;
+};
+
+function describeToken(token: ApiToken) {
+  const parts = [
+    token.teamId ? 'Team token' : 'Personal token',
+    `created ${new Date(token.createdAt).toLocaleDateString()}`,
+    token.expiresAt
+      ? `expires ${new Date(token.expiresAt).toLocaleDateString()}`
+      : 'never expires',
+    token.lastUsedAt
+      ? `last used ${new Date(token.lastUsedAt).toLocaleDateString()}`
+      : 'never used'
+  ];
+  return parts.join(' · ');
+}
+
+export function ApiTokens({
+  tokens,
+  scopes,
+  mintable,
+  canManageTeamTokens
+}: {
+  tokens: ApiToken[];
+  scopes: Record<ApiScope, string>;
+  // A token can only carry scopes its creator could use themselves.
+  mintable: ApiScope[];
+  canManageTeamTokens: boolean;
+}) {
+  const [createState, createAction, isCreatePending] = useActionState<
+    ActionState,
+    FormData
+  >(createApiTokenAction, { error: '', success: '' });
+  const [revokeState, revokeAction, isRevokePending] = useActionState<
+    ActionState,
+    FormData
+  >(revokeApiTokenAction, { error: '', success: '' });
+
+  return (
+    <section className="flex-1 p-4 lg:p-8">
+      <h1 className="text-lg lg:text-2xl font-medium text-gray-900 mb-6">
+        API Tokens
+      </h1>
+
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Active Tokens</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {tokens.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No tokens yet. Create one below to call the API from scripts.
+            </p>
+          ) : (
+            <ul className="space-y-4">
+              {tokens.map((token) => (
+                <li
+                  key={token.id}
+                  className="flex items-center justify-between"
+                >
+                  <div className="flex items-center space-x-4">
+                    <div className="bg-orange-100 rounded-full p-2">
+                      <KeyRound className="w-5 h-5 text-orange-600" />
+                    </div>
+                    <div>
+                      <p className="font-medium">
+                        {token.name}{' '}
+                        <span className="font-mono text-sm text-muted-foreground">
+                          {token.tokenPrefix}…
+                        </span>
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {describeToken(token)}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {token.scopes.join(', ')}
+                      </p>
+                    </div>
+                  </div>
+                  {(!token.teamId || canManageTeamTokens) && (
+                    <form action={revokeAction}>
+                      <input type="hidden" name="tokenId" value={token.id} />
+                      <Button
+                        type="submit"
+                        variant="outline"
+                        size="sm"
+                        disabled={isRevokePending}
+                      >
+                        {isRevokePending ? 'Revoking...' : 'Revoke'}
+                      </Button>
+                    </form>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+          {revokeState?.error && (
+            <p className="text-red-500 text-sm">{revokeState.error}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Create a Token</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {createState?.token && (
+            <div className="mb-6 rounded-md border border-green-200 bg-green-50 p-4">
+              <p className="text-sm text-green-700 mb-2">
+                {createState.success}
+              </p>
+              <code className="block break-all font-mono text-sm">
+                {createState.token}
+              </code>
+            </div>
+          )}
+          <form className="space-y-4" action={createAction}>
+            <div>
+              <Label htmlFor="token-name" className="mb-2">
+                Name
+              </Label>
+              <Input
+                id="token-name"
+                name="name"
+                placeholder="e.g. Nightly sync"
+                defaultValue={createState.token ? '' : createState.name}
+                maxLength={100}
+                required
+              />
+            </div>
+            {canManageTeamTokens && (
+              <div>
+                <Label>Owner</Label>
+                <RadioGroup
+                  defaultValue="user"
+                  name="owner"
+                  className="flex space-x-4"
+                >
+                  <div className="flex items-center space-x-2 mt-2">
+                    <RadioGroupItem value="user" id="owner-user" />
+                    <Label htmlFor="owner-user">Me</Label>
+                  </div>
+                  <div className="flex items-center space-x-2 mt-2">
+                    <RadioGroupItem value="team" id="owner-team" />
+                    <Label htmlFor="owner-team">The team</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            )}
+            {!canManageTeamTokens && (
+              <input type="hidden" name="owner" value="user" />
+            )}
+            <div>
+              <Label className="mb-2">Scopes</Label>
+              <div className="space-y-2">
+                {(Object.keys(scopes) as ApiScope[]).map((scope) => (
+                  <label
+                    key={scope}
+                    className="flex items-center space-x-2 text-sm"
+                  >
+                    <input
+                      type="checkbox"
+                      name="scopes"
+                      value={scope}
+                      disabled={!mintable.includes(scope)}
+                    />
+                    <span className="font-mono">{scope}</span>
+                    <span className="text-muted-foreground">
+                      {scopes[scope]}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="token-expiry" className="mb-2">
+                Expires
+              </Label>
+              <select
+                id="token-expiry"
+                name="expiresIn"
+                defaultValue="90"
+                className="border border-input rounded-md px-3 py-2 text-sm"
+              >
+                <option value="30">In 30 days</option>
+                <option value="90">In 90 days</option>
+                <option value="365">In a year</option>
+                <option value="never">Never</option>
+              </select>
+            </div>
+            {createState?.error && (
+              <p className="text-red-500 text-sm">{createState.error}</p>
+            )}
+            <Button
+              type="submit"
+              className="bg-orange-500 hover:bg-orange-600 text-white"
+              disabled={isCreatePending}
+            >
+              {isCreatePending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Creating...
+                </>
+              ) : (
+                <>
+                  <PlusCircle className="mr-2 h-4 w-4" />
+                  Create Token
+                </>
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </section>
+  );
+}
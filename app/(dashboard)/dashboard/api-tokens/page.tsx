@@ -0,0 +1,34 @@
+import { redirect } from 'next/navigation';
+import { ApiTokens } from './api-tokens';
+import {
+  API_SCOPES,
+  API_SCOPE_NAMES,
+  canMintScope,
+  getApiTokens
+} from '@/lib/auth/api-tokens';
+import { getGrantor, hasPermission } from '@/lib/auth/permissions';
+import { getUser, getUserWithTeam } from '@/lib/db/queries';
+
+export default async function ApiTokensPage() {
+  const user = await getUser();
+  if (!user) redirect('/sign-in');
+
+  const uwt = await getUserWithTeam(user.id);
+  const teamId = uwt?.teamId ?? null;
+  const [tokens, canManageTeamTokens, grantor] = await Promise.all([
+    getApiTokens(user.id, teamId),
+    teamId ? hasPermission(user.id, teamId, 'api_tokens.manage') : false,
+    teamId ? getGrantor(user.id, teamId) : { role: null, permissions: [] }
+  ]);
+
+  return (
+    <ApiTokens
+      tokens={tokens}
+      scopes={API_SCOPES}
+      mintable={API_SCOPE_NAMES.filter((scope) =>
+        canMintScope(grantor, scope)
+      )}
+      canManageTeamTokens={canManageTeamTokens}
+    />
+  );
+}
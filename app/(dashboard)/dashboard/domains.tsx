@@ -0,0 +1,216 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Globe, Loader2, PlusCircle } from 'lucide-react';
+import { useActionState } from 'react';
+import {
+  claimDomainAction,
+  removeDomainAction,
+  updateDomainPolicyAction,
+  verifyDomainAction
+} from '@/app/(login)/actions';
+import type { TeamDomain } from '@/lib/auth/domains';
+import type { Permission, TeamRole } from '@/lib/auth/permissions';
+
+type ActionState = {
+  error?: string;
+  success?: string;
+};
+
+export function TeamDomains({
+  domains,
+  roles,
+  grantable
+}: {
+  domains: TeamDomain[];
+  roles: TeamRole[];
+  grantable: Permission[];
+}) {
+  const [claimState, claimAction, isClaimPending] = useActionState<
+    ActionState,
+    FormData
+  >(claimDomainAction, { error: '', success: '' });
+  const [verifyState, verifyAction, isVerifyPending] = useActionState<
+    ActionState,
+    FormData
+  >(verifyDomainAction, { error: '', success: '' });
+  const [policyState, policyAction, isPolicyPending] = useActionState<
+    ActionState,
+    FormData
+  >(updateDomainPolicyAction, { error: '', success: '' });
+  const [removeState, removeAction, isRemovePending] = useActionState<
+    ActionState,
+    FormData
+  >(removeDomainAction, { error: '', success: '' });
+  const joinableRoles = roles.filter(
+    (role) =>
+      role.name !== 'owner' &&
+      role.permissions.every((permission) => grantable.includes(permission))
+  );
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Email Domains</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <p className="text-sm text-muted-foreground">
+          People who sign up with a confirmed address on a verified domain
+          join this team automatically, or ask to, with the role you choose.
+        </p>
+
+        {domains.length > 0 && (
+          <ul className="space-y-6">
+            {domains.map((domain) => (
+              <li key={domain.id} className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-4">
+                    <div className="bg-orange-100 rounded-full p-2">
+                      <Globe className="w-5 h-5 text-orange-600" />
+                    </div>
+                    <div>
+                      <p className="font-medium">{domain.domain}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {domain.verifiedAt
+                          ? `Verified ${new Date(domain.verifiedAt).toLocaleDateString()}`
+                          : 'Not verified yet'}
+                      </p>
+                    </div>
+                  </div>
+                  <form action={removeAction}>
+                    <input type="hidden" name="domainId" value={domain.id} />
+                    <Button
+                      type="submit"
+                      variant="outline"
+                      size="sm"
+                      disabled={isRemovePending}
+                    >
+                      Remove
+                    </Button>
+                  </form>
+                </div>
+
+                {domain.verifiedAt ? (
+                  <form
+                    action={policyAction}
+                    className="flex flex-wrap items-end gap-4"
+                  >
+                    <input type="hidden" name="domainId" value={domain.id} />
+                    <div>
+                      <Label htmlFor={`policy-${domain.id}`} className="mb-2">
+                        New sign-ups
+                      </Label>
+                      <select
+                        id={`policy-${domain.id}`}
+                        name="joinPolicy"
+                        defaultValue={domain.joinPolicy}
+                        className="border border-input rounded-md px-3 py-2 text-sm"
+                      >
+                        <option value="auto">Join automatically</option>
+                        <option value="request">Ask to join</option>
+                      </select>
+                    </div>
+                    <div>
+                      <Label htmlFor={`role-${domain.id}`} className="mb-2">
+                        Role
+                      </Label>
+                      <select
+                        id={`role-${domain.id}`}
+                        name="defaultRole"
+                        defaultValue={domain.defaultRole}
+                        className="border border-input rounded-md px-3 py-2 text-sm capitalize"
+                      >
+                        {joinableRoles.map((role) => (
+                          <option key={role.name} value={role.name}>
+                            {role.name}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <Button
+                      type="submit"
+                      variant="outline"
+                      disabled={isPolicyPending}
+                    >
+                      Save
+                    </Button>
+                  </form>
+                ) : (
+                  <form action={verifyAction} className="space-y-3">
+                    <input type="hidden" name="domainId" value={domain.id} />
+                    <p className="text-sm text-muted-foreground">
+                      Add this TXT record to the DNS for {domain.domain}:
+                    </p>
+                    <code className="block break-all rounded-md bg-gray-100 p-2 font-mono text-sm">
+                      {domain.verificationRecord}
+                    </code>
+                    <Button
+                      type="submit"
+                      variant="outline"
+                      size="sm"
+                      disabled={isVerifyPending}
+                    >
+                      {isVerifyPending ? 'Checking...' : 'Verify'}
+                    </Button>
+                  </form>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+        {[verifyState, policyState, removeState].map((state, i) =>
+          state?.error ? (
+            <p key={i} className="text-red-500 text-sm">
+              {state.error}
+            </p>
+          ) : state?.success ? (
+            <p key={i} className="text-green-500 text-sm">
+              {state.success}
+            </p>
+          ) : null
+        )}
+
+        <form action={claimAction} className="space-y-4">
+          <div>
+            <Label htmlFor="claim-domain" className="mb-2">
+              Claim a domain
+            </Label>
+            <Input
+              id="claim-domain"
+              name="domain"
+              placeholder="example.com"
+              maxLength={255}
+              required
+            />
+          </div>
+          {claimState?.error && (
+            <p className="text-red-500 text-sm">{claimState.error}</p>
+          )}
+          {claimState?.success && (
+            <p className="text-green-500 text-sm">{claimState.success}</p>
+          )}
+          <Button
+            type="submit"
+            className="bg-orange-500 hover:bg-orange-600 text-white"
+            disabled={isClaimPending}
+          >
+            {isClaimPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Claiming...
+              </>
+            ) : (
+              <>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                Claim Domain
+              </>
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
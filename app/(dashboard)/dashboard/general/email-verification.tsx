@@ -0,0 +1,97 @@
+'use client';
+
+import { useActionState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Loader2, MailWarning } from 'lucide-react';
+import { resendVerificationEmail } from '@/app/(login)/actions';
+
+type ActionState = {
+  error?: string;
+  success?: string;
+};
+
+const verificationMessages: Record<string, { text: string; ok: boolean }> = {
+  verified: { text: 'Your email address is verified.', ok: true },
+  'join-requested': {
+    text: "Your email address is verified. We've asked your company's team to let you in.",
+    ok: true
+  },
+  domain: {
+    text: "Your company's team will add you as soon as you confirm your email address.",
+    ok: true
+  },
+  'email-changed': { text: 'Your email address has been updated.', ok: true },
+  'email-taken': {
+    text: 'That email address is already used by another account.',
+    ok: false
+  },
+  invalid: {
+    text: 'That verification link is invalid or has expired.',
+    ok: false
+  },
+  required: {
+    text: 'Verify your email address to continue to checkout.',
+    ok: false
+  }
+};
+
+export function EmailVerification({
+  email,
+  verified
+}: {
+  email: string;
+  verified: boolean;
+}) {
+  const searchParams = useSearchParams();
+  const message = verificationMessages[searchParams.get('verification') ?? ''];
+  const [state, resendAction, isPending] = useActionState<
+    ActionState,
+    FormData
+  >(resendVerificationEmail, { error: '', success: '' });
+
+  return (
+    <>
+      {message && (
+        <p
+          className={`text-sm mb-4 ${message.ok ? 'text-green-600' : 'text-red-500'}`}
+        >
+          {message.text}
+        </p>
+      )}
+      {!verified && (
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 rounded-md border border-orange-200 bg-orange-50 p-4 mb-6">
+          <div className="flex items-start space-x-3">
+            <MailWarning className="h-5 w-5 text-orange-600 mt-0.5" />
+            <div>
+              <p className="text-sm font-medium">
+                Please verify {email}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Until then you can't start a subscription or invite members.
+              </p>
+              {state.error && (
+                <p className="text-red-500 text-sm mt-1">{state.error}</p>
+              )}
+              {state.success && (
+                <p className="text-green-600 text-sm mt-1">{state.success}</p>
+              )}
+            </div>
+          </div>
+          <form action={resendAction}>
+            <Button type="submit" variant="outline" disabled={isPending}>
+              {isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                'Resend email'
+              )}
+            </Button>
+          </form>
+        </div>
+      )}
+    </>
+  );
+}
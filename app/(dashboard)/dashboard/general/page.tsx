@@ -1,6 +1,6 @@
 'use client';
 
-import { startTransition, use, useActionState } from 'react';
+import { startTransition, use, useActionState, Suspense } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -8,6 +8,7 @@ import { Label } from '@/components/ui/label';
 import { Loader2 } from 'lucide-react';
 import { useUser } from '@/lib/auth';
 import { updateAccount } from '@/app/(login)/actions';
+import { EmailVerification } from './email-verification';
 
 type ActionState = {
   error?: string;
@@ -42,6 +43,15 @@ export default function GeneralPage() {
         General Settings
       </h1>
 
+      {user && (
+        <Suspense>
+          <EmailVerification
+            email={user.email}
+            verified={!!user.email_verified_at}
+          />
+        </Suspense>
+      )}
+
       <Card>
         <CardHeader>
           <CardTitle>Account Information</CardTitle>
@@ -0,0 +1,135 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Loader2, Upload } from 'lucide-react';
+import { useActionState } from 'react';
+import {
+  importTeamMembers,
+  previewMemberImportAction
+} from '@/app/(login)/actions';
+import type { ImportRow, ImportRowStatus } from '@/lib/auth/member-import';
+
+type ActionState = {
+  error?: string;
+  success?: string;
+  csv?: string;
+  rows?: ImportRow[];
+};
+
+const statusStyles: Record<ImportRowStatus, string> = {
+  ready: 'text-green-600',
+  invalid: 'text-red-500',
+  duplicate: 'text-muted-foreground'
+};
+
+// Previewing and importing share one state, so a finished import clears the
+// preview and a new file replaces it.
+function importAction(prev: ActionState, formData: FormData) {
+  return formData.get('intent') === 'import'
+    ? importTeamMembers(prev, formData)
+    : previewMemberImportAction(prev, formData);
+}
+
+export function ImportMembers() {
+  const [state, formAction, isPending] = useActionState<ActionState, FormData>(
+    importAction,
+    { error: '', success: '' }
+  );
+  const ready = state.rows?.filter((row) => row.status === 'ready').length ?? 0;
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Import Members</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form action={formAction} className="space-y-4">
+          <input type="hidden" name="intent" value="preview" />
+          <div>
+            <Label htmlFor="import-file" className="mb-2">
+              CSV file
+            </Label>
+            <Input
+              id="import-file"
+              name="file"
+              type="file"
+              accept=".csv,text/csv"
+              required
+            />
+            <p className="text-sm text-muted-foreground mt-2">
+              One person per row: email, role and an optional name. Rows
+              without a role are invited as members.
+            </p>
+          </div>
+          <Button type="submit" variant="outline" disabled={isPending}>
+            {isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Checking...
+              </>
+            ) : (
+              'Preview'
+            )}
+          </Button>
+        </form>
+
+        {state.rows && (
+          <form action={formAction} className="space-y-4">
+            <input type="hidden" name="intent" value="import" />
+            <input type="hidden" name="csv" value={state.csv} />
+            <div className="max-h-80 overflow-y-auto rounded-md border">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left">
+                  <tr>
+                    <th className="px-3 py-2 font-medium">Line</th>
+                    <th className="px-3 py-2 font-medium">Email</th>
+                    <th className="px-3 py-2 font-medium">Name</th>
+                    <th className="px-3 py-2 font-medium">Role</th>
+                    <th className="px-3 py-2 font-medium">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {state.rows.map((row) => (
+                    <tr key={row.line} className="border-t">
+                      <td className="px-3 py-2">{row.line}</td>
+                      <td className="px-3 py-2 break-all">{row.email}</td>
+                      <td className="px-3 py-2">{row.name}</td>
+                      <td className="px-3 py-2 capitalize">{row.role}</td>
+                      <td className={`px-3 py-2 ${statusStyles[row.status]}`}>
+                        {row.problem ?? 'Ready'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <Button
+              type="submit"
+              className="bg-orange-500 hover:bg-orange-600 text-white"
+              disabled={isPending || ready === 0}
+            >
+              {isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Inviting...
+                </>
+              ) : (
+                <>
+                  <Upload className="mr-2 h-4 w-4" />
+                  Invite {ready} {ready === 1 ? 'person' : 'people'}
+                </>
+              )}
+            </Button>
+          </form>
+        )}
+        {state.error && <p className="text-red-500 text-sm">{state.error}</p>}
+        {state.success && (
+          <p className="text-green-500 text-sm">{state.success}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
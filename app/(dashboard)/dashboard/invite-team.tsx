@@ -12,19 +12,30 @@ import {
 import { Loader2, PlusCircle } from 'lucide-react';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
-import { use, useActionState } from 'react';
+import { useActionState } from 'react';
 import { inviteTeamMember } from '@/app/(login)/actions';
-import { useUser } from '@/lib/auth';
+import type { Permission, TeamRole } from '@/lib/auth/permissions';
 
 type ActionState = {
   error?: string;
   success?: string;
 };
 
-export function InviteTeamMember() {
-  const { userPromise } = useUser();
-  const user = use(userPromise);
-  const isOwner = user?.role === 'owner';
+export function InviteTeamMember({
+  permissions,
+  roles
+}: {
+  permissions: Permission[];
+  roles: TeamRole[];
+}) {
+  const canInvite = permissions.includes('members.invite');
+  // Inviting with any other role grants permissions, which needs roles.manage,
+  // and never more than the inviter holds.
+  const invitableRoles = permissions.includes('roles.manage')
+    ? roles.filter((role) =>
+        role.permissions.every((permission) => permissions.includes(permission))
+      )
+    : roles.filter((role) => role.name === 'member');
   const [inviteState, inviteAction, isInvitePending] = useActionState<
     ActionState,
     FormData
@@ -47,7 +58,7 @@ export function InviteTeamMember() {
               type="email"
               placeholder="Enter email"
               required
-              disabled={!isOwner}
+              disabled={!canInvite}
             />
           </div>
           <div>
@@ -56,16 +67,19 @@ export function InviteTeamMember() {
               defaultValue="member"
               name="role"
               className="flex space-x-4"
-              disabled={!isOwner}
+              disabled={!canInvite}
             >
-              <div className="flex items-center space-x-2 mt-2">
-                <RadioGroupItem value="member" id="member" />
-                <Label htmlFor="member">Member</Label>
-              </div>
-              <div className="flex items-center space-x-2 mt-2">
-                <RadioGroupItem value="owner" id="owner" />
-                <Label htmlFor="owner">Owner</Label>
-              </div>
+              {invitableRoles.map((role) => (
+                <div
+                  key={role.name}
+                  className="flex items-center space-x-2 mt-2"
+                >
+                  <RadioGroupItem value={role.name} id={`role-${role.name}`} />
+                  <Label htmlFor={`role-${role.name}`} className="capitalize">
+                    {role.name}
+                  </Label>
+                </div>
+              ))}
             </RadioGroup>
           </div>
           {inviteState?.error && (
@@ -77,7 +91,7 @@ export function InviteTeamMember() {
           <Button
             type="submit"
             className="bg-orange-500 hover:bg-orange-600 text-white"
-            disabled={isInvitePending || !isOwner}
+            disabled={isInvitePending || !canInvite}
           >
             {isInvitePending ? (
               <>
@@ -93,10 +107,10 @@ export function InviteTeamMember() {
           </Button>
         </form>
       </CardContent>
-      {!isOwner && (
+      {!canInvite && (
         <CardFooter>
           <p className="text-sm text-muted-foreground">
-            You must be a team owner to invite new members.
+            Your role doesn't allow inviting new members.
           </p>
         </CardFooter>
       )}
@@ -0,0 +1,151 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { UserPlus } from 'lucide-react';
+import { useActionState } from 'react';
+import {
+  decideJoinRequestAction,
+  updateJoinLink
+} from '@/app/(login)/actions';
+import type { JoinRequest } from '@/lib/auth/join-requests';
+
+type ActionState = {
+  error?: string;
+  success?: string;
+};
+
+const sourceLabels: Record<JoinRequest['source'], string> = {
+  link: 'Join link',
+  domain: 'Email domain'
+};
+
+export function JoinRequests({
+  requests,
+  joinLink
+}: {
+  requests: JoinRequest[];
+  joinLink: string | null;
+}) {
+  const [linkState, linkAction, isLinkPending] = useActionState<
+    ActionState,
+    FormData
+  >(updateJoinLink, { error: '', success: '' });
+  const [decideState, decideAction, isDecidePending] = useActionState<
+    ActionState,
+    FormData
+  >(decideJoinRequestAction, { error: '', success: '' });
+
+  return (
+    <Card className="mt-8">
+      <CardHeader>
+        <CardTitle>Join Requests</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form action={linkAction} className="space-y-3">
+          <Label className="mb-2">Join link</Label>
+          {joinLink ? (
+            <code className="block break-all rounded-md bg-gray-100 p-2 font-mono text-sm">
+              {joinLink}
+            </code>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Create a link you can share. Anyone who opens it can ask to join,
+              and someone on the team has to approve them.
+            </p>
+          )}
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              name="enabled"
+              value="true"
+              variant="outline"
+              size="sm"
+              disabled={isLinkPending}
+            >
+              {joinLink ? 'Create new link' : 'Create link'}
+            </Button>
+            {joinLink && (
+              <Button
+                type="submit"
+                name="enabled"
+                value="false"
+                variant="outline"
+                size="sm"
+                disabled={isLinkPending}
+              >
+                Turn off
+              </Button>
+            )}
+          </div>
+          {linkState?.error && (
+            <p className="text-red-500 text-sm">{linkState.error}</p>
+          )}
+          {linkState?.success && (
+            <p className="text-green-500 text-sm">{linkState.success}</p>
+          )}
+        </form>
+
+        {requests.length > 0 ? (
+          <ul className="space-y-4">
+            {requests.map((request) => (
+              <li
+                key={request.id}
+                className="flex items-center justify-between"
+              >
+                <div className="flex items-center space-x-4">
+                  <div className="bg-orange-100 rounded-full p-2">
+                    <UserPlus className="w-5 h-5 text-orange-600" />
+                  </div>
+                  <div>
+                    <p className="font-medium">
+                      {request.user.name || request.user.email}
+                    </p>
+                    <p className="text-sm text-muted-foreground capitalize">
+                      {sourceLabels[request.source]} · {request.role} · expires{' '}
+                      {new Date(request.expiresAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+                <form action={decideAction} className="flex gap-2">
+                  <input type="hidden" name="requestId" value={request.id} />
+                  <Button
+                    type="submit"
+                    name="approve"
+                    value="true"
+                    size="sm"
+                    className="bg-orange-500 hover:bg-orange-600 text-white"
+                    disabled={isDecidePending}
+                  >
+                    Approve
+                  </Button>
+                  <Button
+                    type="submit"
+                    name="approve"
+                    value="false"
+                    variant="outline"
+                    size="sm"
+                    disabled={isDecidePending}
+                  >
+                    Reject
+                  </Button>
+                </form>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No one is waiting to join.
+          </p>
+        )}
+        {decideState?.error && (
+          <p className="text-red-500 text-sm">{decideState.error}</p>
+        )}
+        {decideState?.success && (
+          <p className="text-green-500 text-sm">{decideState.success}</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
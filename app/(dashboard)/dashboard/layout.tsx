@@ -1,10 +1,19 @@
 'use client';
 
-import { useState } from 'react';
+import { use, useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { Button } from '@/components/ui/button';
-import { Users, Settings, Shield, Activity, Menu } from 'lucide-react';
+import {
+  Users,
+  Settings,
+  Shield,
+  Activity,
+  KeyRound,
+  LifeBuoy,
+  Menu
+} from 'lucide-react';
+import { useUser } from '@/lib/auth';
 
 export default function DashboardLayout({
   children
@@ -13,12 +22,18 @@ export default function DashboardLayout({
 }) {
   const pathname = usePathname();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
+  const { userPromise } = useUser();
+  const user = use(userPromise);
 
   const navItems = [
     { href: '/dashboard', icon: Users, label: 'Team' },
     { href: '/dashboard/general', icon: Settings, label: 'General' },
     { href: '/dashboard/activity', icon: Activity, label: 'Activity' },
-    { href: '/dashboard/security', icon: Shield, label: 'Security' }
+    { href: '/dashboard/security', icon: Shield, label: 'Security' },
+    { href: '/dashboard/api-tokens', icon: KeyRound, label: 'API Tokens' },
+    ...(user?.is_superadmin
+      ? [{ href: '/dashboard/admin', icon: LifeBuoy, label: 'Support' }]
+      : [])
   ];
 
   return (
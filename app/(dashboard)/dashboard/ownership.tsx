@@ -0,0 +1,250 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Crown, Loader2, Trash2 } from 'lucide-react';
+import { useActionState } from 'react';
+import {
+  cancelOwnershipTransferAction,
+  deleteTeamAction,
+  respondToOwnershipTransfer,
+  transferOwnership
+} from '@/app/(login)/actions';
+import type { OwnershipTransfer } from '@/lib/auth/ownership';
+import type { TeamWithMembers } from '@/lib/db/queries';
+
+type ActionState = {
+  error?: string;
+  success?: string;
+};
+
+function displayName(user: { name: string | null; email: string }) {
+  return user.name || user.email;
+}
+
+export function TeamOwnership({
+  team,
+  currentUserId,
+  transfer
+}: {
+  team: TeamWithMembers;
+  currentUserId: number;
+  transfer: OwnershipTransfer | null;
+}) {
+  const [transferState, transferAction, isTransferPending] = useActionState<
+    ActionState,
+    FormData
+  >(transferOwnership, { error: '', success: '' });
+  const [cancelState, cancelAction, isCancelPending] = useActionState<
+    ActionState,
+    FormData
+  >(cancelOwnershipTransferAction, { error: '', success: '' });
+  const [respondState, respondAction, isRespondPending] = useActionState<
+    ActionState,
+    FormData
+  >(respondToOwnershipTransfer, { error: '', success: '' });
+  const [deleteState, deleteAction, isDeletePending] = useActionState<
+    ActionState,
+    FormData
+  >(deleteTeamAction, { error: '', success: '' });
+
+  const isOwner = team.members.some(
+    (member) => member.id === currentUserId && member.role === 'owner'
+  );
+  const candidates = team.members.filter(
+    (member) => member.id !== currentUserId
+  );
+  const offeredToMe = transfer?.to.id === currentUserId;
+
+  return (
+    <>
+      {offeredToMe && (
+        <Card className="mt-8 border-orange-200">
+          <CardHeader>
+            <CardTitle>Ownership Offered</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-muted-foreground mb-4">
+              {displayName(transfer.from)} wants to make you an owner of{' '}
+              {team.name}. They become a regular member once you accept.
+            </p>
+            <form action={respondAction} className="flex space-x-2">
+              <input type="hidden" name="transferId" value={transfer.id} />
+              <Button
+                type="submit"
+                name="accept"
+                value="true"
+                className="bg-orange-500 hover:bg-orange-600 text-white"
+                disabled={isRespondPending}
+              >
+                <Crown className="mr-2 h-4 w-4" />
+                Accept Ownership
+              </Button>
+              <Button
+                type="submit"
+                name="accept"
+                value="false"
+                variant="outline"
+                disabled={isRespondPending}
+              >
+                Decline
+              </Button>
+            </form>
+            {respondState?.error && (
+              <p className="text-red-500 text-sm mt-4">{respondState.error}</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+      {respondState?.success && (
+        <p className="text-green-500 text-sm mt-8">{respondState.success}</p>
+      )}
+
+      {isOwner && (
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle>Transfer Ownership</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {transfer ? (
+              <form action={cancelAction} className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Ownership was offered to {displayName(transfer.to)} on{' '}
+                  {new Date(transfer.createdAt).toLocaleDateString()}. The
+                  offer expires{' '}
+                  {new Date(transfer.expiresAt).toLocaleDateString()}.
+                </p>
+                {cancelState?.error && (
+                  <p className="text-red-500 text-sm">{cancelState.error}</p>
+                )}
+                <Button type="submit" variant="outline" disabled={isCancelPending}>
+                  {isCancelPending ? 'Cancelling...' : 'Cancel Offer'}
+                </Button>
+              </form>
+            ) : candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Invite someone to the team before handing it over.
+              </p>
+            ) : (
+              <form action={transferAction} className="space-y-4">
+                <div>
+                  <Label htmlFor="transfer-to" className="mb-2">
+                    New owner
+                  </Label>
+                  <select
+                    id="transfer-to"
+                    name="userId"
+                    className="border border-input rounded-md px-3 py-2 text-sm"
+                  >
+                    {candidates.map((member) => (
+                      <option key={member.id} value={member.id}>
+                        {displayName(member)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <Label htmlFor="transfer-password" className="mb-2">
+                    Confirm Password
+                  </Label>
+                  <Input
+                    id="transfer-password"
+                    name="password"
+                    type="password"
+                    required
+                    minLength={8}
+                    maxLength={100}
+                  />
+                </div>
+                {transferState?.error && (
+                  <p className="text-red-500 text-sm">{transferState.error}</p>
+                )}
+                {transferState?.success && (
+                  <p className="text-green-500 text-sm">
+                    {transferState.success}
+                  </p>
+                )}
+                <Button
+                  type="submit"
+                  className="bg-orange-500 hover:bg-orange-600 text-white"
+                  disabled={isTransferPending}
+                >
+                  {isTransferPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Offering...
+                    </>
+                  ) : (
+                    <>
+                      <Crown className="mr-2 h-4 w-4" />
+                      Offer Ownership
+                    </>
+                  )}
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {isOwner && (
+        <Card className="mt-8">
+          <CardHeader>
+            <CardTitle>Delete Team</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <p className="text-sm text-gray-500 mb-4">
+              Cancels the subscription and removes every member. This can't be
+              undone.
+            </p>
+            <form action={deleteAction} className="space-y-4">
+              <input type="hidden" name="teamId" value={team.id} />
+              <div>
+                <Label htmlFor="delete-team-name" className="mb-2">
+                  Type {team.name} to confirm
+                </Label>
+                <Input id="delete-team-name" name="confirmName" required />
+              </div>
+              <div>
+                <Label htmlFor="delete-team-password" className="mb-2">
+                  Confirm Password
+                </Label>
+                <Input
+                  id="delete-team-password"
+                  name="password"
+                  type="password"
+                  required
+                  minLength={8}
+                  maxLength={100}
+                />
+              </div>
+              {deleteState?.error && (
+                <p className="text-red-500 text-sm">{deleteState.error}</p>
+              )}
+              <Button
+                type="submit"
+                variant="destructive"
+                className="bg-red-600 hover:bg-red-700"
+                disabled={isDeletePending}
+              >
+                {isDeletePending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Deleting...
+                  </>
+                ) : (
+                  <>
+                    <Trash2 className="mr-2 h-4 w-4" />
+                    Delete Team
+                  </>
+                )}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+    </>
+  );
+}
@@ -2,13 +2,50 @@
 import { redirect } from 'next/navigation';
 import { Settings } from './settings';
 import { getTeamForUser, getUser } from '@/lib/db/queries';
+import {
+    PERMISSIONS,
+    getPermissions,
+    getTeamRoles,
+} from '@/lib/auth/permissions';
+import { getPendingInvitations } from '@/lib/auth/invitations';
+import { getPendingTransfer } from '@/lib/auth/ownership';
+import { getTeamDomains } from '@/lib/auth/domains';
+import { getJoinCode, getPendingJoinRequests } from '@/lib/auth/join-requests';
 
 export default async function SettingsPage() {
     const user = await getUser();
     if (!user) redirect('/sign-in');
 
     const teamData = await getTeamForUser(user.id);
-    if (!teamData) redirect('/create-team');
+    if (!teamData) redirect('/dashboard/general');
 
-    return <Settings teamData={teamData} />;
+    const [permissions, roles, transfer] = await Promise.all([
+        getPermissions(user.id, teamData.id),
+        getTeamRoles(teamData.id),
+        getPendingTransfer(teamData.id),
+    ]);
+    const canInvite = permissions.includes('members.invite');
+    const [invitations, domains, joinRequests, joinCode] = await Promise.all([
+        canInvite ? getPendingInvitations(teamData.id) : [],
+        permissions.includes('domains.manage')
+            ? getTeamDomains(teamData.id)
+            : [],
+        canInvite ? getPendingJoinRequests(teamData.id) : [],
+        canInvite ? getJoinCode(teamData.id) : null,
+    ]);
+
+    return (
+        <Settings
+            teamData={teamData}
+            permissions={permissions}
+            roles={roles}
+            catalog={PERMISSIONS}
+            invitations={invitations}
+            currentUserId={user.id}
+            transfer={transfer}
+            domains={domains}
+            joinRequests={joinRequests}
+            joinLink={joinCode && `${process.env.BASE_URL}/join/${joinCode}`}
+        />
+    );
 }
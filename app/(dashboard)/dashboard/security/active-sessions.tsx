@@ -0,0 +1,112 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Laptop, Loader2, LogOut } from 'lucide-react';
+import { useActionState } from 'react';
+import {
+  revokeDeviceSession,
+  revokeOtherSessions
+} from '@/app/(login)/actions';
+import type { ActiveSession } from '@/lib/db/queries';
+
+type ActionState = {
+  error?: string;
+  success?: string;
+};
+
+export function ActiveSessions({
+  sessions,
+  currentSessionId
+}: {
+  sessions: ActiveSession[];
+  currentSessionId: string | null;
+}) {
+  const [revokeState, revokeAction, isRevokePending] = useActionState<
+    ActionState,
+    FormData
+  >(revokeDeviceSession, { error: '', success: '' });
+
+  const [othersState, othersAction, isOthersPending] = useActionState<
+    ActionState,
+    FormData
+  >(revokeOtherSessions, { error: '', success: '' });
+
+  const hasOtherSessions = sessions.some((s) => s.id !== currentSessionId);
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Active Devices</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ul className="space-y-4">
+          {sessions.map((session) => (
+            <li key={session.id} className="flex items-center justify-between">
+              <div className="flex items-center space-x-4">
+                <div className="bg-orange-100 rounded-full p-2">
+                  <Laptop className="w-5 h-5 text-orange-600" />
+                </div>
+                <div>
+                  <p className="font-medium">
+                    {session.device || 'Unknown device'}
+                    {session.id === currentSessionId && (
+                      <span className="ml-2 text-xs text-green-600">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {session.ipAddress ? `${session.ipAddress} · ` : ''}
+                    Last active{' '}
+                    {new Date(session.lastSeenAt).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+              {session.id !== currentSessionId ? (
+                <form action={revokeAction}>
+                  <input type="hidden" name="sessionId" value={session.id} />
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    size="sm"
+                    disabled={isRevokePending}
+                  >
+                    {isRevokePending ? 'Signing out...' : 'Sign out'}
+                  </Button>
+                </form>
+              ) : null}
+            </li>
+          ))}
+        </ul>
+        {revokeState?.error && (
+          <p className="text-red-500 text-sm mt-4">{revokeState.error}</p>
+        )}
+        {othersState?.success && (
+          <p className="text-green-500 text-sm mt-4">{othersState.success}</p>
+        )}
+        {hasOtherSessions && (
+          <form action={othersAction} className="mt-6">
+            <Button
+              type="submit"
+              variant="outline"
+              disabled={isOthersPending}
+            >
+              {isOthersPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Signing out...
+                </>
+              ) : (
+                <>
+                  <LogOut className="mr-2 h-4 w-4" />
+                  Sign out everywhere else
+                </>
+              )}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Link2 } from 'lucide-react';
+import { useActionState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { unlinkLinkedIdentity } from '@/app/(login)/actions';
+import type { LinkedIdentity } from '@/lib/auth/oidc';
+
+type ActionState = {
+  error?: string;
+  success?: string;
+};
+
+export type IdentityProviderSummary = {
+  id: string;
+  name: string;
+};
+
+export function LinkedIdentities({
+  identities,
+  providers
+}: {
+  identities: LinkedIdentity[];
+  providers: IdentityProviderSummary[];
+}) {
+  const searchParams = useSearchParams();
+  const outcome = searchParams.get('identity');
+  const [state, unlinkAction, isPending] = useActionState<
+    ActionState,
+    FormData
+  >(unlinkLinkedIdentity, { error: '', success: '' });
+
+  const providerName = (id: string) =>
+    providers.find((provider) => provider.id === id)?.name ?? id;
+
+  if (providers.length === 0 && identities.length === 0) return null;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Linked Accounts</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500">
+          Sign in with an account from another provider instead of your
+          password.
+        </p>
+        {outcome === 'linked' && (
+          <p className="text-green-500 text-sm">Account linked.</p>
+        )}
+        {outcome === 'in-use' && (
+          <p className="text-red-500 text-sm">
+            That account is already linked to another user.
+          </p>
+        )}
+        {identities.length > 0 && (
+          <ul className="space-y-4">
+            {identities.map((identity) => (
+              <li
+                key={identity.id}
+                className="flex items-center justify-between"
+              >
+                <div className="flex items-center space-x-4">
+                  <div className="bg-orange-100 rounded-full p-2">
+                    <Link2 className="w-5 h-5 text-orange-600" />
+                  </div>
+                  <div>
+                    <p className="font-medium">
+                      {providerName(identity.provider)}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {identity.email ? `${identity.email} · ` : ''}
+                      Linked {new Date(identity.createdAt).toLocaleDateString()}
+                      {identity.lastUsedAt &&
+                        ` · Last used ${new Date(identity.lastUsedAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+                </div>
+                <form action={unlinkAction}>
+                  <input type="hidden" name="identityId" value={identity.id} />
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    size="sm"
+                    disabled={isPending}
+                  >
+                    {isPending ? 'Unlinking...' : 'Unlink'}
+                  </Button>
+                </form>
+              </li>
+            ))}
+          </ul>
+        )}
+        {state?.error && <p className="text-red-500 text-sm">{state.error}</p>}
+        {providers.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {providers.map((provider) => (
+              <Button key={provider.id} variant="outline" asChild>
+                <a href={`/api/auth/oidc/${provider.id}?mode=link`}>
+                  Link {provider.name}
+                </a>
+              </Button>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,97 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useActionState } from 'react';
+import { deleteTeamAction, switchTeam } from '@/app/(login)/actions';
+import type { SoleOwnedTeam } from '@/lib/db/queries';
+
+type ActionState = {
+  error?: string;
+  success?: string;
+};
+
+// Teams that deleting the account would leave without an owner. Each has to
+// be handed over (from its team settings) or deleted first. Deleting takes
+// the password, or the passkey step-up of the page's other forms.
+export function SoleOwnedTeams({
+  teams,
+  steppedUp
+}: {
+  teams: SoleOwnedTeam[];
+  steppedUp: boolean;
+}) {
+  const [deleteState, deleteAction, isDeletePending] = useActionState<
+    ActionState,
+    FormData
+  >(deleteTeamAction, { error: '', success: '' });
+
+  return (
+    <div className="mb-6 rounded-md border border-orange-200 bg-orange-50 p-4">
+      <p className="text-sm text-gray-700 mb-4">
+        You're the only owner of the teams below. Transfer ownership or delete
+        each of them before deleting your account.
+      </p>
+      <ul className="space-y-4">
+        {teams.map((team) => (
+          <li key={team.id} className="space-y-2">
+            <p className="font-medium">
+              {team.name}{' '}
+              <span className="text-sm font-normal text-muted-foreground">
+                {team.memberCount === 1
+                  ? 'Only you'
+                  : `${team.memberCount} members`}
+              </span>
+            </p>
+            <div className="flex flex-wrap items-center gap-2">
+              {team.memberCount > 1 && (
+                <form
+                  action={async (formData) => {
+                    await switchTeam({}, formData);
+                  }}
+                >
+                  <input type="hidden" name="teamId" value={team.id} />
+                  <Button type="submit" variant="outline" size="sm">
+                    Transfer ownership
+                  </Button>
+                </form>
+              )}
+              <form action={deleteAction} className="flex items-center gap-2">
+                <input type="hidden" name="teamId" value={team.id} />
+                <Input
+                  name="confirmName"
+                  placeholder={`Type ${team.name}`}
+                  aria-label={`Type ${team.name} to confirm`}
+                  className="h-8 w-48"
+                  required
+                />
+                <Input
+                  name="password"
+                  type="password"
+                  placeholder="Password"
+                  aria-label="Confirm password"
+                  className="h-8 w-40"
+                  required={!steppedUp}
+                  minLength={8}
+                  maxLength={100}
+                />
+                <Button
+                  type="submit"
+                  variant="destructive"
+                  size="sm"
+                  className="bg-red-600 hover:bg-red-700"
+                  disabled={isDeletePending}
+                >
+                  Delete team
+                </Button>
+              </form>
+            </div>
+          </li>
+        ))}
+      </ul>
+      {deleteState?.error && (
+        <p className="text-red-500 text-sm mt-4">{deleteState.error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Fingerprint, KeyRound, Loader2 } from 'lucide-react';
+import { useActionState, useState, useTransition } from 'react';
+import {
+  finishPasskeyRegistration,
+  finishPasskeyStepUp,
+  removePasskey,
+  startPasskeyRegistration,
+  startPasskeyStepUp
+} from '@/app/(login)/actions';
+import {
+  authenticateWithPasskey,
+  registerPasskey
+} from '@/lib/auth/passkey-client';
+
+type ActionState = {
+  error?: string;
+  success?: string;
+};
+
+export type PasskeySummary = {
+  id: number;
+  name: string | null;
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+export function Passkeys({ passkeys }: { passkeys: PasskeySummary[] }) {
+  const [name, setName] = useState('');
+  const [addState, setAddState] = useState<ActionState>({});
+  const [isAddPending, startAddTransition] = useTransition();
+
+  const [removeState, removeAction, isRemovePending] = useActionState<
+    ActionState,
+    FormData
+  >(removePasskey, { error: '', success: '' });
+
+  function handleAdd() {
+    setAddState({});
+    startAddTransition(async () => {
+      const result = await registerPasskey(
+        startPasskeyRegistration,
+        finishPasskeyRegistration,
+        { name }
+      );
+      setAddState(result);
+      if (result.success) setName('');
+    });
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Passkeys</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-gray-500">
+          Sign in without a password using your device's screen lock or a
+          security key. Once you add a passkey, signing in with a password
+          will also ask you to confirm with it.
+        </p>
+        {passkeys.length > 0 && (
+          <ul className="space-y-4">
+            {passkeys.map((passkey) => (
+              <li
+                key={passkey.id}
+                className="flex items-center justify-between"
+              >
+                <div className="flex items-center space-x-4">
+                  <div className="bg-orange-100 rounded-full p-2">
+                    <KeyRound className="w-5 h-5 text-orange-600" />
+                  </div>
+                  <div>
+                    <p className="font-medium">
+                      {passkey.name || 'Unnamed passkey'}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      Added {new Date(passkey.createdAt).toLocaleDateString()}
+                      {passkey.lastUsedAt &&
+                        ` · Last used ${new Date(passkey.lastUsedAt).toLocaleDateString()}`}
+                      {passkey.backedUp && ' · Synced'}
+                    </p>
+                  </div>
+                </div>
+                <form action={removeAction}>
+                  <input type="hidden" name="passkeyId" value={passkey.id} />
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    size="sm"
+                    disabled={isRemovePending}
+                  >
+                    {isRemovePending ? 'Removing...' : 'Remove'}
+                  </Button>
+                </form>
+              </li>
+            ))}
+          </ul>
+        )}
+        {removeState?.error && (
+          <p className="text-red-500 text-sm">{removeState.error}</p>
+        )}
+        <div>
+          <Label htmlFor="passkey-name" className="mb-2">
+            Passkey Name
+          </Label>
+          <Input
+            id="passkey-name"
+            placeholder="e.g. Work laptop"
+            maxLength={100}
+            value={name}
+            onChange={(event) => setName(event.target.value)}
+          />
+        </div>
+        {addState.error && (
+          <p className="text-red-500 text-sm">{addState.error}</p>
+        )}
+        {addState.success && (
+          <p className="text-green-500 text-sm">{addState.success}</p>
+        )}
+        <Button
+          type="button"
+          className="bg-orange-500 hover:bg-orange-600 text-white"
+          onClick={handleAdd}
+          disabled={isAddPending}
+        >
+          {isAddPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Waiting for passkey...
+            </>
+          ) : (
+            <>
+              <Fingerprint className="mr-2 h-4 w-4" />
+              Add a passkey
+            </>
+          )}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Lets the password and delete forms be confirmed with a passkey instead of
+// re-typing the password.
+export function PasskeyStepUp({ onConfirmed }: { onConfirmed: () => void }) {
+  const [state, setState] = useState<ActionState>({});
+  const [pending, startTransition] = useTransition();
+
+  function handleClick() {
+    setState({});
+    startTransition(async () => {
+      const result = await authenticateWithPasskey(
+        startPasskeyStepUp,
+        finishPasskeyStepUp
+      );
+      setState(result);
+      if (result.success) onConfirmed();
+    });
+  }
+
+  return (
+    <div>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={handleClick}
+        disabled={pending || !!state.success}
+      >
+        {pending ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <Fingerprint className="mr-2 h-4 w-4" />
+        )}
+        {state.success ? 'Confirmed with passkey' : 'Confirm with a passkey'}
+      </Button>
+      {state.error && <p className="text-red-500 text-sm mt-2">{state.error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Lock, Trash2, Loader2 } from 'lucide-react';
+import { startTransition, useActionState, useState } from 'react';
+import { updatePassword, deleteAccount } from '@/app/(login)/actions';
+import type { ActiveSession, SoleOwnedTeam } from '@/lib/db/queries';
+import { ActiveSessions } from './active-sessions';
+import { TwoFactorSettings } from './two-factor';
+import { PasskeyStepUp, Passkeys, type PasskeySummary } from './passkeys';
+import {
+  LinkedIdentities,
+  type IdentityProviderSummary
+} from './linked-identities';
+import type { LinkedIdentity } from '@/lib/auth/oidc';
+import { SoleOwnedTeams } from './owned-teams';
+
+type ActionState = {
+  error?: string;
+  success?: string;
+};
+
+export function Security({
+  sessions,
+  currentSessionId,
+  twoFactorEnabled,
+  remainingRecoveryCodes,
+  passkeys,
+  identities,
+  identityProviders,
+  soleOwnedTeams
+}: {
+  sessions: ActiveSession[];
+  currentSessionId: string | null;
+  twoFactorEnabled: boolean;
+  remainingRecoveryCodes: number;
+  passkeys: PasskeySummary[];
+  identities: LinkedIdentity[];
+  identityProviders: IdentityProviderSummary[];
+  soleOwnedTeams: SoleOwnedTeam[];
+}) {
+  const [steppedUp, setSteppedUp] = useState(false);
+  const canStepUp = passkeys.length > 0;
+
+  const [passwordState, passwordAction, isPasswordPending] = useActionState<
+    ActionState,
+    FormData
+  >(updatePassword, { error: '', success: '' });
+
+  const [deleteState, deleteAction, isDeletePending] = useActionState<
+    ActionState,
+    FormData
+  >(deleteAccount, { error: '', success: '' });
+
+  const handlePasswordSubmit = async (
+    event: React.FormEvent<HTMLFormElement>
+  ) => {
+    event.preventDefault();
+    // If you call the Server Action directly, it will automatically
+    // reset the form. We don't want that here, because we want to keep the
+    // client-side values in the inputs. So instead, we use an event handler
+    // which calls the action. You must wrap direct calls with startTransition.
+    // When you use the `action` prop it automatically handles that for you.
+    // Another option here is to persist the values to local storage. I might
+    // explore alternative options.
+    startTransition(() => {
+      passwordAction(new FormData(event.currentTarget));
+    });
+  };
+
+  const handleDeleteSubmit = async (
+    event: React.FormEvent<HTMLFormElement>
+  ) => {
+    event.preventDefault();
+    startTransition(() => {
+      deleteAction(new FormData(event.currentTarget));
+    });
+  };
+
+  return (
+    <section className="flex-1 p-4 lg:p-8">
+      <h1 className="text-lg lg:text-2xl font-medium bold text-gray-900 mb-6">
+        Security Settings
+      </h1>
+      <Card className="mb-8">
+        <CardHeader>
+          <CardTitle>Password</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form className="space-y-4" onSubmit={handlePasswordSubmit}>
+            <div>
+              <Label htmlFor="current-password" className="mb-2">
+                Current Password
+              </Label>
+              <Input
+                id="current-password"
+                name="currentPassword"
+                type="password"
+                autoComplete="current-password"
+                required={!steppedUp}
+                minLength={8}
+                maxLength={100}
+              />
+            </div>
+            {canStepUp && (
+              <PasskeyStepUp onConfirmed={() => setSteppedUp(true)} />
+            )}
+            <div>
+              <Label htmlFor="new-password" className="mb-2">
+                New Password
+              </Label>
+              <Input
+                id="new-password"
+                name="newPassword"
+                type="password"
+                autoComplete="new-password"
+                required
+                minLength={8}
+                maxLength={100}
+              />
+            </div>
+            <div>
+              <Label htmlFor="confirm-password" className="mb-2">
+                Confirm New Password
+              </Label>
+              <Input
+                id="confirm-password"
+                name="confirmPassword"
+                type="password"
+                required
+                minLength={8}
+                maxLength={100}
+              />
+            </div>
+            {passwordState.error && (
+              <p className="text-red-500 text-sm">{passwordState.error}</p>
+            )}
+            {passwordState.success && (
+              <p className="text-green-500 text-sm">{passwordState.success}</p>
+            )}
+            <Button
+              type="submit"
+              className="bg-orange-500 hover:bg-orange-600 text-white"
+              disabled={isPasswordPending}
+            >
+              {isPasswordPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Updating...
+                </>
+              ) : (
+                <>
+                  <Lock className="mr-2 h-4 w-4" />
+                  Update Password
+                </>
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Passkeys passkeys={passkeys} />
+
+      <LinkedIdentities
+        identities={identities}
+        providers={identityProviders}
+      />
+
+      <TwoFactorSettings
+        enabled={twoFactorEnabled}
+        remainingRecoveryCodes={remainingRecoveryCodes}
+        canStepUp={canStepUp}
+        steppedUp={steppedUp}
+        onSteppedUp={() => setSteppedUp(true)}
+      />
+
+      <ActiveSessions sessions={sessions} currentSessionId={currentSessionId} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Delete Account</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-500 mb-4">
+            Account deletion is non-reversable. Please proceed with caution.
+          </p>
+          {soleOwnedTeams.length > 0 && (
+            <SoleOwnedTeams teams={soleOwnedTeams} steppedUp={steppedUp} />
+          )}
+          <form onSubmit={handleDeleteSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="delete-password" className="mb-2">
+                Confirm Password
+              </Label>
+              <Input
+                id="delete-password"
+                name="password"
+                type="password"
+                required={!steppedUp}
+                minLength={8}
+                maxLength={100}
+              />
+            </div>
+            {canStepUp && (
+              <PasskeyStepUp onConfirmed={() => setSteppedUp(true)} />
+            )}
+            {deleteState.error && (
+              <p className="text-red-500 text-sm">{deleteState.error}</p>
+            )}
+            <Button
+              type="submit"
+              variant="destructive"
+              className="bg-red-600 hover:bg-red-700"
+              disabled={isDeletePending}
+            >
+              {isDeletePending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Deleting...
+                </>
+              ) : (
+                <>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete Account
+                </>
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </section>
+  );
+}
@@ -0,0 +1,232 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { KeyRound, Loader2, ShieldCheck } from 'lucide-react';
+import { useActionState } from 'react';
+import {
+  confirmTwoFactorSetup,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  startTwoFactorSetup
+} from '@/app/(login)/actions';
+import { PasskeyStepUp } from './passkeys';
+
+type ActionState = {
+  error?: string;
+  success?: string;
+  secret?: string;
+  otpauthUri?: string;
+  recoveryCodes?: string[];
+};
+
+function RecoveryCodes({ codes }: { codes: string[] }) {
+  return (
+    <div className="rounded-md border border-orange-200 bg-orange-50 p-4">
+      <p className="text-sm font-medium mb-2">
+        Save these recovery codes somewhere safe. Each one can be used once if
+        you lose access to your authenticator app. They won't be shown again.
+      </p>
+      <ul className="grid grid-cols-2 gap-1 font-mono text-sm">
+        {codes.map((code) => (
+          <li key={code}>{code}</li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export function TwoFactorSettings({
+  enabled,
+  remainingRecoveryCodes,
+  canStepUp,
+  steppedUp,
+  onSteppedUp
+}: {
+  enabled: boolean;
+  remainingRecoveryCodes: number;
+  canStepUp: boolean;
+  steppedUp: boolean;
+  onSteppedUp: () => void;
+}) {
+  const [startState, startAction, isStartPending] = useActionState<
+    ActionState,
+    FormData
+  >(startTwoFactorSetup, {});
+
+  const [confirmState, confirmAction, isConfirmPending] = useActionState<
+    ActionState,
+    FormData
+  >(confirmTwoFactorSetup, {});
+
+  const [regenerateState, regenerateAction, isRegeneratePending] =
+    useActionState<ActionState, FormData>(regenerateRecoveryCodes, {});
+
+  const [disableState, disableAction, isDisablePending] = useActionState<
+    ActionState,
+    FormData
+  >(disableTwoFactor, {});
+
+  const enrollment = confirmState.otpauthUri ? confirmState : startState;
+  const recoveryCodes =
+    confirmState.recoveryCodes ?? regenerateState.recoveryCodes;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Two-Factor Authentication</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes && <RecoveryCodes codes={recoveryCodes} />}
+
+        {(enabled || confirmState.success) && !disableState.success ? (
+          <>
+            <p className="text-sm text-gray-500">
+              <ShieldCheck className="inline mr-1 h-4 w-4 text-green-600" />
+              Two-factor authentication is on. You have{' '}
+              {recoveryCodes?.length ?? remainingRecoveryCodes} unused recovery
+              codes.
+            </p>
+            <form action={regenerateAction} className="space-y-4">
+              <div>
+                <Label htmlFor="regenerate-password" className="mb-2">
+                  Confirm Password
+                </Label>
+                <Input
+                  id="regenerate-password"
+                  name="password"
+                  type="password"
+                  required
+                  minLength={8}
+                  maxLength={100}
+                />
+              </div>
+              <div>
+                <Label htmlFor="regenerate-code" className="mb-2">
+                  Authentication Code
+                </Label>
+                <Input
+                  id="regenerate-code"
+                  name="code"
+                  autoComplete="one-time-code"
+                  placeholder="123456 or a recovery code"
+                  required={!steppedUp}
+                  maxLength={20}
+                />
+              </div>
+              {canStepUp && <PasskeyStepUp onConfirmed={onSteppedUp} />}
+              {regenerateState.error && (
+                <p className="text-red-500 text-sm">{regenerateState.error}</p>
+              )}
+              <div className="flex gap-2">
+                <Button
+                  type="submit"
+                  variant="outline"
+                  disabled={isRegeneratePending}
+                >
+                  {isRegeneratePending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Generating...
+                    </>
+                  ) : (
+                    'New recovery codes'
+                  )}
+                </Button>
+                <Button
+                  type="submit"
+                  variant="destructive"
+                  className="bg-red-600 hover:bg-red-700"
+                  formAction={disableAction}
+                  disabled={isDisablePending}
+                >
+                  {isDisablePending ? 'Disabling...' : 'Disable'}
+                </Button>
+              </div>
+              {disableState.error && (
+                <p className="text-red-500 text-sm">{disableState.error}</p>
+              )}
+            </form>
+          </>
+        ) : enrollment.otpauthUri ? (
+          <form action={confirmAction} className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Scan this link with your authenticator app, or enter the secret
+              manually, then enter the 6-digit code it shows.
+            </p>
+            <a
+              href={enrollment.otpauthUri}
+              className="block break-all text-sm text-orange-600 underline"
+            >
+              {enrollment.otpauthUri}
+            </a>
+            <p className="font-mono text-sm">{enrollment.secret}</p>
+            <div>
+              <Label htmlFor="totp-code" className="mb-2">
+                Verification Code
+              </Label>
+              <Input
+                id="totp-code"
+                name="code"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                required
+                minLength={6}
+                maxLength={6}
+              />
+            </div>
+            {confirmState.error && (
+              <p className="text-red-500 text-sm">{confirmState.error}</p>
+            )}
+            <Button
+              type="submit"
+              className="bg-orange-500 hover:bg-orange-600 text-white"
+              disabled={isConfirmPending}
+            >
+              {isConfirmPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Verifying...
+                </>
+              ) : (
+                'Enable'
+              )}
+            </Button>
+          </form>
+        ) : (
+          <form action={startAction} className="space-y-4">
+            {disableState.success && (
+              <p className="text-green-500 text-sm">{disableState.success}</p>
+            )}
+            <p className="text-sm text-gray-500">
+              Require a code from an authenticator app in addition to your
+              password when signing in.
+            </p>
+            {startState.error && (
+              <p className="text-red-500 text-sm">{startState.error}</p>
+            )}
+            <Button
+              type="submit"
+              className="bg-orange-500 hover:bg-orange-600 text-white"
+              disabled={isStartPending}
+            >
+              {isStartPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Starting...
+                </>
+              ) : (
+                <>
+                  <KeyRound className="mr-2 h-4 w-4" />
+                  Set up authenticator app
+                </>
+              )}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,19 +6,71 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { customerPortalAction } from '@/lib/payments/actions';
 import { useActionState } from 'react';
 import { TeamDataWithMembers, User } from '@/lib/db/schema';
-import { removeTeamMember } from '@/app/(login)/actions';
+import {
+  removeTeamMember,
+  resendInvitationAction,
+  revokeInvitationAction,
+  updateMemberRole
+} from '@/app/(login)/actions';
+import type { Invitation } from '@/lib/auth/invitations';
+import type { OwnershipTransfer } from '@/lib/auth/ownership';
+import type { TeamDomain } from '@/lib/auth/domains';
+import type { JoinRequest } from '@/lib/auth/join-requests';
+import type { Permission, TeamRole } from '@/lib/auth/permissions';
 import { InviteTeamMember } from './invite-team';
+import { ImportMembers } from './import-members';
+import { TeamRoles } from './team-roles';
+import { TeamOwnership } from './ownership';
+import { TeamDomains } from './domains';
+import { JoinRequests } from './join-requests';
 
 type ActionState = {
   error?: string;
   success?: string;
 };
 
-export function Settings({ teamData }: { teamData: TeamDataWithMembers }) {
+export function Settings({
+  teamData,
+  permissions,
+  roles,
+  catalog,
+  invitations,
+  currentUserId,
+  transfer,
+  domains,
+  joinRequests,
+  joinLink
+}: {
+  teamData: TeamDataWithMembers;
+  permissions: Permission[];
+  roles: TeamRole[];
+  catalog: Record<Permission, string>;
+  invitations: Invitation[];
+  currentUserId: number;
+  transfer: OwnershipTransfer | null;
+  domains: TeamDomain[];
+  joinRequests: JoinRequest[];
+  joinLink: string | null;
+}) {
   const [removeState, removeAction, isRemovePending] = useActionState<
     ActionState,
     FormData
   >(removeTeamMember, { error: '', success: '' });
+  const [roleState, roleAction, isRolePending] = useActionState<
+    ActionState,
+    FormData
+  >(updateMemberRole, { error: '', success: '' });
+  const [resendState, resendAction, isResendPending] = useActionState<
+    ActionState,
+    FormData
+  >(resendInvitationAction, { error: '', success: '' });
+  const [revokeState, revokeAction, isRevokePending] = useActionState<
+    ActionState,
+    FormData
+  >(revokeInvitationAction, { error: '', success: '' });
+  const can = (permission: Permission) => permissions.includes(permission);
+  // Every member is a billed seat.
+  const seats = teamData.teamMembers.length;
 
   const getUserDisplayName = (user: Pick<User, 'id' | 'name' | 'email'>) => {
     return user.name || user.email || 'Unknown User';
@@ -40,17 +92,19 @@ export function Settings({ teamData }: { teamData: TeamDataWithMembers }) {
                 </p>
                 <p className="text-sm text-muted-foreground">
                   {teamData.subscriptionStatus === 'active'
-                    ? 'Billed monthly'
+                    ? `Billed monthly for ${seats} ${seats === 1 ? 'seat' : 'seats'}`
                     : teamData.subscriptionStatus === 'trialing'
-                      ? 'Trial period'
+                      ? `Trial period, ${seats} ${seats === 1 ? 'seat' : 'seats'}`
                       : 'No active subscription'}
                 </p>
               </div>
-              <form action={customerPortalAction}>
-                <Button type="submit" variant="outline">
-                  Manage Subscription
-                </Button>
-              </form>
+              {can('billing.manage') && (
+                <form action={customerPortalAction}>
+                  <Button type="submit" variant="outline">
+                    Manage Subscription
+                  </Button>
+                </form>
+              )}
             </div>
           </div>
         </CardContent>
@@ -80,12 +134,35 @@ export function Settings({ teamData }: { teamData: TeamDataWithMembers }) {
                     <p className="font-medium">
                       {getUserDisplayName(member.user)}
                     </p>
-                    <p className="text-sm text-muted-foreground capitalize">
-                      {member.role}
-                    </p>
+                    {can('roles.manage') ? (
+                      <form action={roleAction} className="flex items-center">
+                        <input
+                          type="hidden"
+                          name="userId"
+                          value={member.user.id}
+                        />
+                        <select
+                          name="role"
+                          defaultValue={member.role}
+                          disabled={isRolePending}
+                          onChange={(e) => e.currentTarget.form?.requestSubmit()}
+                          className="text-sm text-muted-foreground capitalize bg-transparent"
+                        >
+                          {roles.map((role) => (
+                            <option key={role.name} value={role.name}>
+                              {role.name}
+                            </option>
+                          ))}
+                        </select>
+                      </form>
+                    ) : (
+                      <p className="text-sm text-muted-foreground capitalize">
+                        {member.role}
+                      </p>
+                    )}
                   </div>
                 </div>
-                {index > 1 ? (
+                {index > 1 && can('members.remove') ? (
                   <form action={removeAction}>
                     <input type="hidden" name="memberId" value={member.id} />
                     <Button
@@ -104,9 +181,101 @@ export function Settings({ teamData }: { teamData: TeamDataWithMembers }) {
           {removeState?.error && (
             <p className="text-red-500 mt-4">{removeState.error}</p>
           )}
+          {roleState?.error && (
+            <p className="text-red-500 mt-4">{roleState.error}</p>
+          )}
         </CardContent>
       </Card>
-      <InviteTeamMember />
+      {invitations.length > 0 && (
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle>Pending Invitations</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ul className="space-y-4">
+              {invitations.map((invitation) => {
+                const expired = Date.parse(invitation.expiresAt) <= Date.now();
+                return (
+                  <li
+                    key={invitation.id}
+                    className="flex items-center justify-between"
+                  >
+                    <div>
+                      <p className="font-medium">{invitation.email}</p>
+                      <p className="text-sm text-muted-foreground">
+                        <span className="capitalize">{invitation.role}</span>
+                        {' · '}
+                        {expired
+                          ? 'Link expired'
+                          : `Expires ${new Date(invitation.expiresAt).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                    <div className="flex space-x-2">
+                      <form action={resendAction}>
+                        <input
+                          type="hidden"
+                          name="invitationId"
+                          value={invitation.id}
+                        />
+                        <Button
+                          type="submit"
+                          variant="outline"
+                          size="sm"
+                          disabled={isResendPending}
+                        >
+                          {isResendPending ? 'Sending...' : 'Resend'}
+                        </Button>
+                      </form>
+                      <form action={revokeAction}>
+                        <input
+                          type="hidden"
+                          name="invitationId"
+                          value={invitation.id}
+                        />
+                        <Button
+                          type="submit"
+                          variant="outline"
+                          size="sm"
+                          disabled={isRevokePending}
+                        >
+                          {isRevokePending ? 'Revoking...' : 'Revoke'}
+                        </Button>
+                      </form>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+            {[resendState, revokeState].map((state, i) =>
+              state?.error ? (
+                <p key={i} className="text-red-500 mt-4">
+                  {state.error}
+                </p>
+              ) : state?.success ? (
+                <p key={i} className="text-green-500 mt-4">
+                  {state.success}
+                </p>
+              ) : null
+            )}
+          </CardContent>
+        </Card>
+      )}
+      {can('roles.manage') && (
+        <TeamRoles roles={roles} catalog={catalog} grantable={permissions} />
+      )}
+      {can('domains.manage') && (
+        <TeamDomains domains={domains} roles={roles} grantable={permissions} />
+      )}
+      <InviteTeamMember permissions={permissions} roles={roles} />
+      {can('members.invite') && <ImportMembers />}
+      {can('members.invite') && (
+        <JoinRequests requests={joinRequests} joinLink={joinLink} />
+      )}
+      <TeamOwnership
+        team={teamData}
+        currentUserId={currentUserId}
+        transfer={transfer}
+      />
     </section>
   );
 }
@@ -0,0 +1,147 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Loader2, PlusCircle, ShieldCheck } from 'lucide-react';
+import { useActionState } from 'react';
+import { createRole, deleteRole } from '@/app/(login)/actions';
+import type { Permission, TeamRole } from '@/lib/auth/permissions';
+
+type ActionState = {
+  error?: string;
+  success?: string;
+};
+
+export function TeamRoles({
+  roles,
+  catalog,
+  grantable
+}: {
+  roles: TeamRole[];
+  catalog: Record<Permission, string>;
+  // A role can only grant what its creator holds.
+  grantable: Permission[];
+}) {
+  const [createState, createAction, isCreatePending] = useActionState<
+    ActionState,
+    FormData
+  >(createRole, { error: '', success: '' });
+  const [deleteState, deleteAction, isDeletePending] = useActionState<
+    ActionState,
+    FormData
+  >(deleteRole, { error: '', success: '' });
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Roles</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ul className="space-y-4">
+          {roles.map((role) => (
+            <li key={role.name} className="flex items-center justify-between">
+              <div className="flex items-center space-x-4">
+                <div className="bg-orange-100 rounded-full p-2">
+                  <ShieldCheck className="w-5 h-5 text-orange-600" />
+                </div>
+                <div>
+                  <p className="font-medium capitalize">
+                    {role.name}
+                    {role.builtIn && (
+                      <span className="ml-2 text-xs font-normal text-muted-foreground normal-case">
+                        built-in
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    {role.permissions.length > 0
+                      ? role.permissions.join(', ')
+                      : 'No permissions'}
+                  </p>
+                </div>
+              </div>
+              {role.id !== null && (
+                <form action={deleteAction}>
+                  <input type="hidden" name="roleId" value={role.id} />
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    size="sm"
+                    disabled={isDeletePending}
+                  >
+                    {isDeletePending ? 'Deleting...' : 'Delete'}
+                  </Button>
+                </form>
+              )}
+            </li>
+          ))}
+        </ul>
+        {deleteState?.error && (
+          <p className="text-red-500 text-sm">{deleteState.error}</p>
+        )}
+
+        <form action={createAction} className="space-y-4">
+          <div>
+            <Label htmlFor="role-name" className="mb-2">
+              New role
+            </Label>
+            <Input
+              id="role-name"
+              name="name"
+              placeholder="e.g. billing"
+              maxLength={50}
+              required
+            />
+          </div>
+          <div>
+            <Label className="mb-2">Permissions</Label>
+            <div className="space-y-2">
+              {(Object.keys(catalog) as Permission[]).map((permission) => (
+                <label
+                  key={permission}
+                  className="flex items-center space-x-2 text-sm"
+                >
+                  <input
+                    type="checkbox"
+                    name="permissions"
+                    value={permission}
+                    disabled={!grantable.includes(permission)}
+                  />
+                  <span className="font-mono">{permission}</span>
+                  <span className="text-muted-foreground">
+                    {catalog[permission]}
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+          {createState?.error && (
+            <p className="text-red-500 text-sm">{createState.error}</p>
+          )}
+          {createState?.success && (
+            <p className="text-green-500 text-sm">{createState.success}</p>
+          )}
+          <Button
+            type="submit"
+            className="bg-orange-500 hover:bg-orange-600 text-white"
+            disabled={isCreatePending}
+          >
+            {isCreatePending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Creating...
+              </>
+            ) : (
+              <>
+                <PlusCircle className="mr-2 h-4 w-4" />
+                Create Role
+              </>
+            )}
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,9 +1,9 @@
 'use client';
 
 import Link from 'next/link';
-import { use, useState, Suspense } from 'react';
+import { use, useState, useTransition, Suspense } from 'react';
 import { Button } from '@/components/ui/button';
-import { CircleIcon, Home, LogOut } from 'lucide-react';
+import { Check, ChevronsUpDown, CircleIcon, Home, LogOut } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -12,9 +12,51 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { useUser } from '@/lib/auth';
-import { signOut } from '@/app/(login)/actions';
+import { signOut, switchTeam } from '@/app/(login)/actions';
 import { useRouter } from 'next/navigation';
 
+function TeamSwitcher() {
+  const { teamsPromise } = useUser();
+  const teams = use(teamsPromise);
+  const [pending, startTransition] = useTransition();
+
+  if (teams.length < 2) return null;
+  const activeTeam = teams.find((team) => team.active) ?? teams[0];
+
+  function handleSelect(teamId: number) {
+    const formData = new FormData();
+    formData.set('teamId', String(teamId));
+    startTransition(async () => {
+      await switchTeam({}, formData);
+    });
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" className="rounded-full" disabled={pending}>
+          {activeTeam.name}
+          <ChevronsUpDown className="ml-2 h-4 w-4 text-gray-500" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="flex flex-col gap-1">
+        {teams.map((team) => (
+          <DropdownMenuItem
+            key={team.id}
+            className="cursor-pointer"
+            onSelect={() => !team.active && handleSelect(team.id)}
+          >
+            <Check
+              className={`mr-2 h-4 w-4 ${team.active ? '' : 'invisible'}`}
+            />
+            <span>{team.name}</span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
 function UserMenu() {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const { userPromise } = useUser();
@@ -86,6 +128,7 @@ function Header() {
         </Link>
         <div className="flex items-center space-x-4">
           <Suspense fallback={<div className="h-9" />}>
+            <TeamSwitcher />
             <UserMenu />
           </Suspense>
         </div>
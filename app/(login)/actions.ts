@@ -4,39 +4,175 @@
 import { z } from 'zod';
 import { supabase } from '@/lib/supabaseClient';
 import {
+    clearPendingMfa,
+    clearSession,
     comparePasswords,
+    getPendingMfa,
+    getSession,
     hashPassword,
+    hasRecentStepUp,
+    markSessionSteppedUp,
+    revokeSession,
+    revokeUserSessions,
+    setActiveTeam,
+    setPendingMfa,
     setSession,
+    type SecondFactor,
 } from '@/lib/auth/session';
+import {
+    buildOtpauthUri,
+    consumeRecoveryCode,
+    disableTotp,
+    enableTotp,
+    generateRecoveryCodes,
+    generateTotpSecret,
+    getTotpState,
+    markTotpStepUsed,
+    replaceRecoveryCodes,
+    savePendingTotpSecret,
+    verifyTotpCode,
+} from '@/lib/auth/totp';
+import {
+    createAuthenticationOptions,
+    createRegistrationOptions,
+    deletePasskey,
+    getPasskeysForUser,
+    verifyAuthentication,
+    verifyRegistration,
+} from '@/lib/auth/passkeys';
+import { unlinkIdentity } from '@/lib/auth/oidc';
+import {
+    PERMISSION_NAMES,
+    canAssignRole,
+    canGrant,
+    canManageMember,
+    createTeamRole,
+    deleteTeamRole,
+    getGrantor,
+    getTeamRoles,
+    hasPermission,
+    isBuiltInRole,
+    type Grantor,
+} from '@/lib/auth/permissions';
+import {
+    acceptOwnershipTransfer,
+    cancelOwnershipTransfer,
+    declineOwnershipTransfer,
+    deleteTeam,
+    requestOwnershipTransfer,
+} from '@/lib/auth/ownership';
+import {
+    canImpersonate,
+    endImpersonation,
+    startImpersonation,
+} from '@/lib/auth/impersonation';
+import {
+    API_SCOPE_NAMES,
+    canMintScope,
+    createApiToken,
+    revokeApiToken,
+} from '@/lib/auth/api-tokens';
+import {
+    acceptInvitation,
+    createInvitation,
+    createInvitations,
+    findInvitation,
+    hasPendingInvitation,
+    resendInvitation,
+    revokeInvitation,
+    sendInvitationEmail,
+} from '@/lib/auth/invitations';
+import {
+    requestEmailChange,
+    sendSignUpAttemptNotice,
+    sendVerificationEmail,
+} from '@/lib/auth/email-verification';
+import {
+    createJoinRequest,
+    decideJoinRequest,
+    findTeamByJoinCode,
+    resetJoinCode,
+} from '@/lib/auth/join-requests';
+import {
+    MAX_IMPORT_BYTES,
+    previewMemberImport,
+    type ImportRow,
+} from '@/lib/auth/member-import';
+import {
+    claimDomain,
+    findVerifiedDomain,
+    getTeamDomains,
+    isPublicEmailDomain,
+    normalizeDomain,
+    removeDomain,
+    updateDomainPolicy,
+    verifyDomain,
+} from '@/lib/auth/domains';
+import {
+    checkAttempts,
+    checkMailAttempts,
+    clearFailedAttempts,
+    describeRefusedAttempt,
+    recordFailedAttempt,
+    recordMailSent,
+} from '@/lib/auth/attempts';
 import { redirect } from 'next/navigation';
+import { revalidatePath } from 'next/cache';
 import { cookies } from 'next/headers';
-import { createCheckoutSession } from '@/lib/payments/stripe';
-import { getUser, getUserWithTeam } from '@/lib/db/queries';
+import {
+    createCheckoutSession,
+    syncSubscriptionSeats,
+} from '@/lib/payments/stripe';
+import { completeSignIn, getSecondFactors } from '@/lib/auth/sign-in';
+import {
+    activityDiff,
+    getSoleOwnedTeams,
+    getTeamForUser,
+    getTeamMembership,
+    getTeamRole,
+    getTeamsForUser,
+    getTeamWithMembers,
+    getUser,
+    getUserByEmail,
+    getUserWithTeam,
+    isLastOwner,
+    logActivity,
+    markEmailVerified,
+    removeTeamMembership,
+    softDeleteUser,
+    updateTeamMemberRole,
+    updateUserPassword,
+} from '@/lib/db/queries';
+import {
+    consumeOneTimeToken,
+    createOneTimeToken,
+    revokeOneTimeTokens,
+} from '@/lib/auth/tokens';
+import { verifyActivityChain } from '@/lib/audit/seal';
+import {
+    getRetentionPolicy,
+    MAX_RETENTION_DAYS,
+    updateRetentionPolicy,
+} from '@/lib/audit/retention';
+import type { ChainBreak } from '@/lib/audit/chain';
+import { sendMail } from '@/lib/mail';
+import {
+    joinRequestDecisionEmail,
+    magicLinkEmail,
+    passwordResetEmail,
+} from '@/lib/mail/templates';
 import {
     validatedAction,
     validatedActionWithUser,
 } from '@/lib/auth/middleware';
 import {
     ActivityType,
-    type NewActivityLog,
     type NewUser,
     type NewTeam,
     type NewTeamMember,
+    type User,
 } from '@/lib/db/schema';
 
-async function logActivity(
-    teamId: number | null | undefined,
-    userId: number,
-    type: ActivityType,
-    ipAddress?: string
-) {
-    if (!teamId) return;
-    const { error } = await supabase
-        .from<NewActivityLog>('activityLogs')
-        .insert([{ teamId, userId, action: type, ipAddress: ipAddress ?? '' }]);
-    if (error) console.error('logActivity error:', error);
-}
-
 //
 // Sign-In
 //
@@ -50,27 +186,26 @@ export const signIn = validatedAction(
     async (data, formData) => {
         const { email, password } = data;
 
-        // Fetch user + their team in one call
+        const attempt = await checkAttempts(email);
+        if (!attempt.allowed) {
+            return { error: describeRefusedAttempt(attempt), email };
+        }
+
+        // Fetch the user; their team is resolved once they're signed in
         const { data: userData, error: userErr } = await supabase
             .from('users')
             .select(`
         id,
         name,
         email,
-        passwordHash,
-        teamMembers (
-          team (
-            id,
-            name,
-            stripeCustomerId
-          )
-        )
+        passwordHash
       `)
             .eq('email', email)
             .single();
 
         if (userErr || !userData) {
-            return { error: 'Invalid email or password.', email, password };
+            await recordFailedAttempt(email);
+            return { error: 'Invalid email or password.', email };
         }
 
         const isValid = await comparePasswords(
@@ -79,11 +214,27 @@ export const signIn = validatedAction(
             userData.passwordHash
         );
         if (!isValid) {
-            return { error: 'Invalid email or password.', email, password };
+            await recordFailedAttempt(email);
+            return { error: 'Invalid email or password.', email };
+        }
+        await clearFailedAttempts(email);
+
+        // Password is fine, but the second factor still has to be checked
+        // before a real session is issued.
+        const methods = await getSecondFactors(userData.id);
+        if (methods.length > 0) {
+            await setPendingMfa(userData.id, methods, {
+                redirect: (formData.get('redirect') as string) || undefined,
+                priceId: (formData.get('priceId') as string) || undefined,
+                invite: (formData.get('invite') as string) || undefined,
+                join: (formData.get('join') as string) || undefined,
+            });
+            redirect('/sign-in/verify');
         }
 
-        // Pull out the first (and usually only) team
-        const foundTeam = userData.teamMembers?.[0]?.team ?? null;
+        // A new session has no active team yet, so this resolves to the
+        // user's first team.
+        const foundTeam = await getTeamForUser(userData.id);
 
         await Promise.all([
             setSession(userData),
@@ -94,24 +245,226 @@ export const signIn = validatedAction(
             const priceId = formData.get('priceId') as string;
             return createCheckoutSession({ team: foundTeam, priceId });
         }
+        const invite = formData.get('invite') as string;
+        if (formData.get('redirect') === 'invitation' && invite) {
+            redirect(`/invitation?token=${encodeURIComponent(invite)}`);
+        }
+        const join = formData.get('join') as string;
+        if (formData.get('redirect') === 'join' && join) {
+            redirect(`/join/${encodeURIComponent(join)}`);
+        }
 
         redirect('/dashboard');
     }
 );
 
+//
+// Magic-Link Sign-In
+//
+const MAGIC_LINK_TTL_MS = 15 * 60 * 1000;
+
+const requestMagicLinkSchema = z.object({
+    email: z.string().email().min(3).max(255),
+    redirect: z.string().optional(),
+    priceId: z.string().optional(),
+});
+
+export const requestMagicLink = validatedAction(
+    requestMagicLinkSchema,
+    async (data) => {
+        // Same answer for unknown addresses, so this can't enumerate accounts.
+        const success = `If an account exists for ${data.email}, a sign-in link is on its way.`;
+
+        const attempt = await checkMailAttempts(data.email);
+        if (!attempt.allowed) {
+            return { error: describeRefusedAttempt(attempt), email: data.email };
+        }
+        await recordMailSent(data.email);
+
+        const user = await getUserByEmail(data.email);
+        if (!user) return { success, email: data.email };
+
+        await revokeOneTimeTokens(user.id, 'magic_link');
+        const token = await createOneTimeToken(
+            user.id,
+            'magic_link',
+            MAGIC_LINK_TTL_MS,
+            { redirect: data.redirect || null, priceId: data.priceId || null }
+        );
+        const link = `${process.env.BASE_URL}/magic-link/confirm?token=${token}`;
+        await sendMail({ to: user.email, ...magicLinkEmail(link) });
+
+        return { success, email: data.email };
+    }
+);
+
+const signInWithMagicLinkSchema = z.object({
+    token: z.string().min(1),
+});
+
+// Runs from the confirm page's button rather than on GET, so mail scanners
+// that prefetch links can't use up the token.
+export const signInWithMagicLink = validatedAction(
+    signInWithMagicLinkSchema,
+    async (data) => {
+        const token = await consumeOneTimeToken(data.token, 'magic_link');
+        if (!token) {
+            return { error: 'This sign-in link is invalid or has expired.' };
+        }
+
+        // Following the link proves the user owns the address.
+        await markEmailVerified(token.userId);
+
+        const handoff = {
+            redirect: token.data?.redirect ?? undefined,
+            priceId: token.data?.priceId ?? undefined,
+        };
+        const methods = await getSecondFactors(token.userId);
+        if (methods.length > 0) {
+            await setPendingMfa(token.userId, methods, handoff);
+            redirect('/sign-in/verify');
+        }
+
+        return completeSignIn(token.userId, handoff);
+    }
+);
+
+//
+// Two-Factor Challenge
+//
+const verifyTwoFactorSchema = z.object({
+    code: z.string().trim().min(6).max(20),
+});
+
+export const verifyTwoFactor = validatedAction(
+    verifyTwoFactorSchema,
+    async (data) => {
+        const pending = await getPendingMfa();
+        if (!pending) redirect('/sign-in');
+
+        const userId = pending.user.id;
+        const uwt = await getUserWithTeam(userId);
+        if (!uwt) redirect('/sign-in');
+
+        // Codes are guessable too, so they count against the same account.
+        const attempt = await checkAttempts(uwt.user.email);
+        if (!attempt.allowed) {
+            return { error: describeRefusedAttempt(attempt) };
+        }
+
+        const totp = await getTotpState(userId);
+        if (!totp.enabledAt || !totp.secret) {
+            return { error: 'Use your passkey to finish signing in.' };
+        }
+
+        // Accept either a current TOTP code or an unused recovery code.
+        const step = verifyTotpCode(totp.secret, data.code, totp.lastUsedStep);
+        const accepted =
+            step !== null
+                ? await markTotpStepUsed(userId, step)
+                : await consumeRecoveryCode(userId, data.code);
+        if (!accepted) {
+            await recordFailedAttempt(uwt.user.email);
+            return { error: 'Invalid authentication code.' };
+        }
+
+        await clearFailedAttempts(uwt.user.email);
+        await clearPendingMfa();
+        return completeSignIn(userId, pending);
+    }
+);
+
+//
+// Passkey Sign-In
+//
+const passkeyResponseSchema = z.object({
+    response: z.string().min(1),
+});
+
+function parsePasskeyResponse(response: string) {
+    try {
+        return JSON.parse(response);
+    } catch {
+        return null;
+    }
+}
+
+export const startPasskeySignIn = validatedAction(z.object({}), async () => {
+    return { options: await createAuthenticationOptions('sign-in') };
+});
+
+const passkeySignInSchema = passkeyResponseSchema.extend({
+    redirect: z.string().optional(),
+    priceId: z.string().optional(),
+});
+
+// A passkey with user verification is already two factors, so no further
+// challenge follows it.
+export const finishPasskeySignIn = validatedAction(
+    passkeySignInSchema,
+    async (data) => {
+        const response = parsePasskeyResponse(data.response);
+        const passkey =
+            response && (await verifyAuthentication('sign-in', response));
+        if (!passkey) return { error: 'Passkey sign-in failed.' };
+
+        return completeSignIn(passkey.userId, data);
+    }
+);
+
+export const startPasskeySecondFactor = validatedAction(
+    z.object({}),
+    async () => {
+        const pending = await getPendingMfa();
+        if (!pending?.methods.includes('passkey')) redirect('/sign-in');
+
+        return {
+            options: await createAuthenticationOptions(
+                'second-factor',
+                pending.user.id
+            ),
+        };
+    }
+);
+
+export const finishPasskeySecondFactor = validatedAction(
+    passkeyResponseSchema,
+    async (data) => {
+        const pending = await getPendingMfa();
+        if (!pending?.methods.includes('passkey')) redirect('/sign-in');
+
+        const response = parsePasskeyResponse(data.response);
+        const passkey =
+            response && (await verifyAuthentication('second-factor', response));
+        if (!passkey || passkey.userId !== pending.user.id) {
+            return { error: 'Passkey verification failed.' };
+        }
+
+        await clearPendingMfa();
+        return completeSignIn(pending.user.id, pending);
+    }
+);
+
 //
 // Sign-Up
 //
 const signUpSchema = z.object({
     email: z.string().email(),
     password: z.string().min(8),
-    inviteId: z.string().optional(),
+    invite: z.string().optional(),
 });
 
 export const signUp = validatedAction(
     signUpSchema,
     async (data, formData) => {
-        const { email, password, inviteId } = data;
+        const { email } = data;
+
+        // Limited per IP only: counting against the address would let anyone
+        // lock out an existing account by signing up with it.
+        const attempt = await checkAttempts();
+        if (!attempt.allowed) {
+            return { error: describeRefusedAttempt(attempt), email };
+        }
 
         // Duplicate check
         const { data: existing, error: exErr } = await supabase
@@ -122,48 +475,50 @@ export const signUp = validatedAction(
             .single();
 
         if (exErr === null && existing) {
-            return { error: 'Email already in use.', email, password };
+            await recordFailedAttempt();
+            await sendSignUpAttemptNotice(email);
+            return {
+                success: `Check ${email} for a message to finish signing up.`,
+                email,
+            };
+        }
+
+        // Checked before the account exists, so a bad link doesn't leave a
+        // user behind without a team.
+        const invitation = data.invite ? await findInvitation(data.invite) : null;
+        if (data.invite && invitation?.email !== email.toLowerCase()) {
+            await recordFailedAttempt();
+            return { error: 'Invalid or expired invitation.', email };
         }
 
-        const passwordHash = await hashPassword(password);
+        const passwordHash = await hashPassword(data.password);
 
         // Create User
         const { data: createdUser, error: cuErr } = await supabase
             .from<NewUser>('users')
-            .insert([{ email, passwordHash, role: 'owner' }])
+            .insert([
+                { email, name: invitation?.name ?? null, passwordHash, role: 'owner' },
+            ])
             .single();
 
         if (cuErr || !createdUser) {
-            return { error: 'Failed to create user.', email, password };
+            return { error: 'Failed to create user.', email };
         }
 
-        let teamId: number;
-        let role: string;
-        let createdTeam: NewTeam | null = null;
+        // An address on a domain some team has verified joins that team (or
+        // asks to) once it is confirmed; with auto-join it gets no team of
+        // its own in the meantime.
+        const domain = invitation ? null : await findVerifiedDomain(email);
 
-        if (inviteId) {
-            // Accept invitation
-            const { data: invite, error: iErr } = await supabase
-                .from('invitations')
-                .select('*')
-                .eq('id', parseInt(inviteId))
-                .eq('email', email)
-                .eq('status', 'pending')
-                .limit(1)
-                .single();
+        let teamId: number | null;
+        let createdTeam: NewTeam | null = null;
 
-            if (iErr || !invite) {
-                return { error: 'Invalid or expired invitation.', email, password };
+        if (invitation) {
+            if (!(await acceptInvitation(invitation, createdUser.id))) {
+                return { error: 'Invalid or expired invitation.', email };
             }
 
-            teamId = invite.teamId;
-            role = invite.role;
-
-            await supabase
-                .from('invitations')
-                .update({ status: 'accepted' })
-                .eq('id', invite.id);
-
+            teamId = invitation.teamId;
             await logActivity(teamId, createdUser.id, ActivityType.ACCEPT_INVITATION);
 
             const { data: teamData } = await supabase
@@ -172,6 +527,8 @@ export const signUp = validatedAction(
                 .eq('id', teamId)
                 .single();
             createdTeam = teamData!;
+        } else if (domain?.joinPolicy === 'auto') {
+            teamId = null;
         } else {
             // Create new team
             const { data: nt, error: ntErr } = await supabase
@@ -179,20 +536,33 @@ export const signUp = validatedAction(
                 .insert([{ name: `${email}'s Team` }])
                 .single();
             if (ntErr || !nt) {
-                return { error: 'Failed to create team.', email, password };
+                return { error: 'Failed to create team.', email };
             }
             teamId = nt.id;
-            role = 'owner';
             createdTeam = nt;
             await logActivity(teamId, createdUser.id, ActivityType.CREATE_TEAM);
+
+            // Link user to team
+            await supabase.from<NewTeamMember>('teamMembers').insert([
+                { userId: createdUser.id, teamId, role: 'owner' },
+            ]);
         }
 
-        // Link user to team
-        await supabase.from<NewTeamMember>('teamMembers').insert([
-            { userId: createdUser.id, teamId, role },
-        ]);
         await logActivity(teamId, createdUser.id, ActivityType.SIGN_UP);
-        await setSession(createdUser);
+        // The invitation link was delivered to this address, which proves it.
+        if (invitation) {
+            await markEmailVerified(createdUser.id);
+        } else {
+            await sendVerificationEmail(createdUser.id, email);
+        }
+        await setSession(createdUser, teamId ?? undefined);
+
+        if (!teamId) redirect('/dashboard/general?verification=domain');
+
+        const join = formData.get('join') as string;
+        if (formData.get('redirect') === 'join' && join) {
+            redirect(`/join/${encodeURIComponent(join)}`);
+        }
 
         if (formData.get('redirect') === 'checkout') {
             const priceId = formData.get('priceId') as string;
@@ -203,38 +573,195 @@ export const signUp = validatedAction(
     }
 );
 
+//
+// Email Verification
+//
+export const resendVerificationEmail = validatedActionWithUser(
+    z.object({}),
+    async (_, __, user) => {
+        if (user.email_verified_at) {
+            return { error: 'Your email address is already verified.' };
+        }
+
+        await sendVerificationEmail(user.id, user.email);
+        return { success: `Verification email sent to ${user.email}.` };
+    }
+);
+
 //
 // Sign-Out
 //
 export async function signOut() {
+    // Signing out of an impersonated session returns to the superadmin's own.
+    if (await endImpersonation()) return;
+
     const user = await getUser();
     if (!user) return;
     const uwt = await getUserWithTeam(user.id);
     await logActivity(uwt?.teamId, user.id, ActivityType.SIGN_OUT);
-    (await cookies()).delete('session');
+    await clearSession();
+}
+
+//
+// Revoke Sessions
+//
+const revokeSessionSchema = z.object({
+    sessionId: z.string().uuid(),
+});
+
+export const revokeDeviceSession = validatedActionWithUser(
+    revokeSessionSchema,
+    async (data, _, user) => {
+        const current = await getSession();
+        if (current?.sid === data.sessionId) {
+            return { error: 'Use "Sign out" to end your current session.' };
+        }
+
+        const device = await revokeSession(data.sessionId, user.id);
+        if (device) {
+            const uwt = await getUserWithTeam(user.id);
+            await logActivity(uwt?.teamId, user.id, ActivityType.REVOKE_SESSION, {
+                target: { type: 'session', id: data.sessionId, label: device },
+            });
+        }
+        revalidatePath('/dashboard/security');
+        return { success: 'Device signed out.' };
+    }
+);
+
+export const revokeOtherSessions = validatedActionWithUser(
+    z.object({}),
+    async (_, __, user) => {
+        const current = await getSession();
+        const revoked = await revokeUserSessions(user.id, current?.sid);
+        if (revoked > 0) {
+            const uwt = await getUserWithTeam(user.id);
+            await logActivity(
+                uwt?.teamId,
+                user.id,
+                ActivityType.REVOKE_OTHER_SESSIONS,
+                { metadata: { sessions: revoked } }
+            );
+        }
+        revalidatePath('/dashboard/security');
+        return { success: 'Signed out of all other devices.' };
+    }
+);
+
+//
+// Passkey Management and Step-Up
+//
+export const startPasskeyRegistration = validatedActionWithUser(
+    z.object({}),
+    async (_, __, user) => {
+        return { options: await createRegistrationOptions(user) };
+    }
+);
+
+const finishPasskeyRegistrationSchema = passkeyResponseSchema.extend({
+    name: z.string().trim().max(100).optional(),
+});
+
+export const finishPasskeyRegistration = validatedActionWithUser(
+    finishPasskeyRegistrationSchema,
+    async (data, _, user) => {
+        const response = parsePasskeyResponse(data.response);
+        const passkey =
+            response &&
+            (await verifyRegistration(user.id, response, data.name || null));
+        if (!passkey) return { error: 'Passkey registration failed.' };
+
+        revalidatePath('/dashboard/security');
+        return { success: 'Passkey added.' };
+    }
+);
+
+const removePasskeySchema = z.object({
+    passkeyId: z.coerce.number(),
+});
+
+export const removePasskey = validatedActionWithUser(
+    removePasskeySchema,
+    async (data, _, user) => {
+        await deletePasskey(user.id, data.passkeyId);
+        revalidatePath('/dashboard/security');
+        return { success: 'Passkey removed.' };
+    }
+);
+
+const unlinkIdentitySchema = z.object({
+    identityId: z.coerce.number(),
+});
+
+export const unlinkLinkedIdentity = validatedActionWithUser(
+    unlinkIdentitySchema,
+    async (data, _, user) => {
+        await unlinkIdentity(user.id, data.identityId);
+        revalidatePath('/dashboard/security');
+        return { success: 'Account unlinked.' };
+    }
+);
+
+export const startPasskeyStepUp = validatedActionWithUser(
+    z.object({}),
+    async (_, __, user) => {
+        return { options: await createAuthenticationOptions('step-up', user.id) };
+    }
+);
+
+export const finishPasskeyStepUp = validatedActionWithUser(
+    passkeyResponseSchema,
+    async (data, _, user) => {
+        const session = await getSession();
+        const response = parsePasskeyResponse(data.response);
+        const passkey =
+            response && (await verifyAuthentication('step-up', response));
+        if (!session || !passkey || passkey.userId !== user.id) {
+            return { error: 'Passkey verification failed.' };
+        }
+
+        await markSessionSteppedUp(session.sid);
+        return { success: 'Identity confirmed.' };
+    }
+);
+
+// Sensitive actions accept either the account password or a passkey step-up
+// completed by this session within the last few minutes.
+async function confirmIdentity(user: User, password: string | undefined) {
+    if (password && (await comparePasswords(password, user.passwordHash))) {
+        return true;
+    }
+
+    const session = await getSession();
+    return !!session && (await hasRecentStepUp(session.sid));
 }
 
 //
 // Update Password
 //
-const updatePasswordSchema = z
-    .object({
-        currentPassword: z.string().min(8).max(100),
-        newPassword: z.string().min(8).max(100),
-        confirmPassword: z.string().min(8).max(100),
-    })
-    .refine((d) => d.newPassword === d.confirmPassword, {
-        message: "Passwords don't match",
-        path: ['confirmPassword'],
-    });
+
+// New-password rules shared by updatePassword and resetPassword.
+function withNewPassword<T extends z.ZodRawShape>(shape: T) {
+    return z
+        .object({
+            ...shape,
+            newPassword: z.string().min(8).max(100),
+            confirmPassword: z.string().min(8).max(100),
+        })
+        .refine((d) => d.newPassword === d.confirmPassword, {
+            message: "Passwords don't match",
+            path: ['confirmPassword'],
+        });
+}
+
+const updatePasswordSchema = withNewPassword({
+    currentPassword: z.string().max(100).optional(),
+});
 
 export const updatePassword = validatedActionWithUser(
     updatePasswordSchema,
     async (data, _, user) => {
-        const isValid = await comparePasswords(
-            data.currentPassword,
-            user.passwordHash
-        );
+        const isValid = await confirmIdentity(user, data.currentPassword);
         if (!isValid) return { error: 'Incorrect current password.' };
 
         if (data.currentPassword === data.newPassword) {
@@ -255,145 +782,1257 @@ export const updatePassword = validatedActionWithUser(
 );
 
 //
-// Delete Account
+// Forgot / Reset Password
 //
-const deleteAccountSchema = z.object({
-    password: z.string().min(8).max(100),
-});
+const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
 
-export const deleteAccount = validatedActionWithUser(
-    deleteAccountSchema,
-    async (data, _, user) => {
-        const isValid = await comparePasswords(data.password, user.passwordHash);
-        if (!isValid) return { error: 'Incorrect password.' };
+const requestPasswordResetSchema = z.object({
+    email: z.string().email().min(3).max(255),
+});
 
-        const uwt = await getUserWithTeam(user.id);
-        await logActivity(uwt?.teamId, user.id, ActivityType.DELETE_ACCOUNT);
+export const requestPasswordReset = validatedAction(
+    requestPasswordResetSchema,
+    async (data) => {
+        // The response is the same whether or not the account exists, so this
+        // form can't be used to discover registered addresses.
+        const success =
+            'If an account exists for that email, a reset link is on its way.';
 
-        // Soft-delete: flag deletedAt and alter email for uniqueness
-        await supabase
-            .from('users')
-            .update({
-                deletedAt: new Date().toISOString(),
-                email: `${user.email}-${user.id}-deleted`,
-            })
-            .eq('id', user.id);
+        const attempt = await checkAttempts();
+        if (!attempt.allowed) return { error: describeRefusedAttempt(attempt) };
 
-        if (uwt?.teamId) {
-            await supabase
-                .from('teamMembers')
-                .delete()
-                .eq('userId', user.id)
-                .eq('teamId', uwt.teamId);
+        const user = await getUserByEmail(data.email);
+        if (!user) {
+            await recordFailedAttempt();
+            return { success };
         }
 
-        (await cookies()).delete('session');
-        redirect('/sign-in');
+        await revokeOneTimeTokens(user.id, 'password_reset');
+        const token = await createOneTimeToken(
+            user.id,
+            'password_reset',
+            PASSWORD_RESET_TTL_MS
+        );
+        const link = `${process.env.BASE_URL}/reset-password?token=${token}`;
+        await sendMail({ to: user.email, ...passwordResetEmail(link) });
+
+        return { success };
     }
 );
 
-//
-// Update Account
-//
-const updateAccountSchema = z.object({
-    name: z.string().min(1).max(100),
-    email: z.string().email(),
+const resetPasswordSchema = withNewPassword({
+    token: z.string().min(1),
 });
 
-export const updateAccount = validatedActionWithUser(
-    updateAccountSchema,
-    async (data, _, user) => {
-        const uwt = await getUserWithTeam(user.id);
-        await supabase
-            .from('users')
-            .update({ name: data.name, email: data.email })
-            .eq('id', user.id);
-        await logActivity(uwt?.teamId, user.id, ActivityType.UPDATE_ACCOUNT);
-        return { success: 'Account updated successfully.' };
-    }
-);
+export const resetPassword = validatedAction(
+    resetPasswordSchema,
+    async (data) => {
+        const attempt = await checkAttempts();
+        if (!attempt.allowed) return { error: describeRefusedAttempt(attempt) };
 
-//
-// Remove Team Member
-//
-const removeTeamMemberSchema = z.object({
-    memberId: z.number(),
-});
+        const token = await consumeOneTimeToken(data.token, 'password_reset');
+        if (!token) {
+            await recordFailedAttempt();
+            return { error: 'This reset link is invalid or has expired.' };
+        }
 
-export const removeTeamMember = validatedActionWithUser(
-    removeTeamMemberSchema,
-    async (data, _, user) => {
-        const uwt = await getUserWithTeam(user.id);
-        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+        const newHash = await hashPassword(data.newPassword);
+        await updateUserPassword(token.userId, newHash);
 
-        await supabase
-            .from('teamMembers')
-            .delete()
-            .eq('id', data.memberId)
-            .eq('teamId', uwt.teamId);
+        // Whoever had the old password may still be signed in somewhere.
+        await revokeUserSessions(token.userId);
 
+        const uwt = await getUserWithTeam(token.userId);
         await logActivity(
-            uwt.teamId,
-            user.id,
-            ActivityType.REMOVE_TEAM_MEMBER
+            uwt?.teamId,
+            token.userId,
+            ActivityType.UPDATE_PASSWORD
         );
-        return { success: 'Team member removed.' };
+
+        return { success: 'Your password has been reset. You can sign in now.' };
     }
 );
 
 //
-// Invite Team Member
+// Two-Factor Enrollment
 //
-const inviteTeamMemberSchema = z.object({
-    email: z.string().email(),
-    role: z.enum(['member', 'owner']),
+export const startTwoFactorSetup = validatedActionWithUser(
+    z.object({}),
+    async (_, __, user) => {
+        const totp = await getTotpState(user.id);
+        if (totp.enabledAt) {
+            return { error: 'Two-factor authentication is already enabled.' };
+        }
+
+        const secret = generateTotpSecret();
+        await savePendingTotpSecret(user.id, secret);
+
+        return { secret, otpauthUri: buildOtpauthUri(secret, user.email) };
+    }
+);
+
+const confirmTwoFactorSchema = z.object({
+    code: z.string().trim().length(6),
 });
 
-export const inviteTeamMember = validatedActionWithUser(
-    inviteTeamMemberSchema,
+export const confirmTwoFactorSetup = validatedActionWithUser(
+    confirmTwoFactorSchema,
     async (data, _, user) => {
-        const uwt = await getUserWithTeam(user.id);
-        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+        const totp = await getTotpState(user.id);
+        if (totp.enabledAt) {
+            return { error: 'Two-factor authentication is already enabled.' };
+        }
+        if (!totp.secret) {
+            return { error: 'Start the setup again to get a new secret.' };
+        }
 
-        // Check existing membership
-        const { data: exists, error: exErr } = await supabase
-            .from('teamMembers')
-            .select('id')
-            .eq('teamId', uwt.teamId)
-            .eq('userId', user.id)
-            .single();
+        const step = verifyTotpCode(totp.secret, data.code);
+        if (step === null) {
+            return {
+                error: 'Invalid code. Check your authenticator app and try again.',
+                secret: totp.secret,
+                otpauthUri: buildOtpauthUri(totp.secret, user.email),
+            };
+        }
 
-        if (exists) return { error: 'User already a member.' };
+        const recoveryCodes = generateRecoveryCodes();
+        await enableTotp(user.id, step, recoveryCodes);
 
-        // Check existing invitation
-        const { data: inv, error: invErr } = await supabase
-            .from('invitations')
-            .select('id')
-            .eq('teamId', uwt.teamId)
-            .eq('email', data.email)
-            .eq('status', 'pending')
-            .single();
+        return {
+            success: 'Two-factor authentication enabled.',
+            recoveryCodes,
+        };
+    }
+);
 
-        if (inv) return { error: 'Invitation already sent.' };
+const twoFactorChangeSchema = z.object({
+    password: z.string().min(8).max(100),
+    code: z.string().trim().max(20).optional(),
+});
 
-        // Create invitation
-        await supabase.from('invitations').insert([
-            {
-                teamId: uwt.teamId,
-                email: data.email,
-                role: data.role,
-                invitedBy: user.id,
-                status: 'pending',
-            },
-        ]);
+// Turning two-factor off or replacing the recovery codes takes the second
+// factor as well as the password: a current TOTP code, an unused recovery
+// code, or a passkey step-up completed by this session.
+async function confirmSecondFactor(user: User, code: string | undefined) {
+    const totp = await getTotpState(user.id);
+    if (code && totp.enabledAt && totp.secret) {
+        const step = verifyTotpCode(totp.secret, code, totp.lastUsedStep);
+        const accepted =
+            step !== null
+                ? await markTotpStepUsed(user.id, step)
+                : await consumeRecoveryCode(user.id, code);
+        if (accepted) return true;
+    }
+
+    const session = await getSession();
+    return !!session && (await hasRecentStepUp(session.sid));
+}
+
+export const regenerateRecoveryCodes = validatedActionWithUser(
+    twoFactorChangeSchema,
+    async (data, _, user) => {
+        const isValid = await comparePasswords(data.password, user.passwordHash);
+        if (!isValid) return { error: 'Incorrect password.' };
+
+        const totp = await getTotpState(user.id);
+        if (!totp.enabledAt) {
+            return { error: 'Two-factor authentication is not enabled.' };
+        }
+        if (!(await confirmSecondFactor(user, data.code))) {
+            return { error: 'Invalid authentication code.' };
+        }
+
+        const recoveryCodes = generateRecoveryCodes();
+        await replaceRecoveryCodes(user.id, recoveryCodes);
+
+        const uwt = await getUserWithTeam(user.id);
+        await logActivity(
+            uwt?.teamId,
+            user.id,
+            ActivityType.REGENERATE_RECOVERY_CODES
+        );
+
+        return { success: 'New recovery codes generated.', recoveryCodes };
+    }
+);
+
+export const disableTwoFactor = validatedActionWithUser(
+    twoFactorChangeSchema,
+    async (data, _, user) => {
+        const isValid = await comparePasswords(data.password, user.passwordHash);
+        if (!isValid) return { error: 'Incorrect password.' };
+
+        const totp = await getTotpState(user.id);
+        if (!totp.enabledAt) {
+            return { error: 'Two-factor authentication is not enabled.' };
+        }
+        if (!(await confirmSecondFactor(user, data.code))) {
+            return { error: 'Invalid authentication code.' };
+        }
+
+        await disableTotp(user.id);
+
+        const uwt = await getUserWithTeam(user.id);
+        await logActivity(uwt?.teamId, user.id, ActivityType.DISABLE_TWO_FACTOR);
+
+        return { success: 'Two-factor authentication disabled.' };
+    }
+);
+
+//
+// Delete Account
+//
+const deleteAccountSchema = z.object({
+    password: z.string().max(100).optional(),
+});
+
+export const deleteAccount = validatedActionWithUser(
+    deleteAccountSchema,
+    async (data, _, user) => {
+        const isValid = await confirmIdentity(user, data.password);
+        if (!isValid) return { error: 'Incorrect password.' };
+
+        // Leaving would orphan these teams (and keep billing them). The
+        // security page offers to transfer or delete each one first.
+        const soleOwned = await getSoleOwnedTeams(user.id);
+        if (soleOwned.length > 0) {
+            return {
+                error: `You're the only owner of ${soleOwned
+                    .map((team) => team.name)
+                    .join(', ')}. Transfer ownership or delete ${
+                    soleOwned.length === 1 ? 'it' : 'them'
+                } first.`,
+            };
+        }
+
+        const uwt = await getUserWithTeam(user.id);
+        await logActivity(uwt?.teamId, user.id, ActivityType.DELETE_ACCOUNT);
+
+        // Soft-delete: flag deleted_at, alter email for uniqueness and
+        // leave every team, not just the active one.
+        const teams = await getTeamsForUser(user.id);
+        await softDeleteUser(user);
+        await revokeUserSessions(user.id);
+        await Promise.all(teams.map((team) => syncSubscriptionSeats(team.id)));
+
+        (await cookies()).delete('session');
+        redirect('/sign-in');
+    }
+);
+
+//
+// Update Account
+//
+const updateAccountSchema = z.object({
+    name: z.string().min(1).max(100),
+    email: z.string().email(),
+});
+
+export const updateAccount = validatedActionWithUser(
+    updateAccountSchema,
+    async (data, _, user) => {
+        const emailChanged = data.email !== user.email;
+        const { error } = await supabase
+            .from('users')
+            .update({ name: data.name })
+            .eq('id', user.id);
+        if (error) return { error: 'Failed to update account.' };
+
+        // The form answers the same whether or not the address is taken.
+        if (emailChanged) await requestEmailChange(user.id, data.email);
+
+        const uwt = await getUserWithTeam(user.id);
+        await logActivity(uwt?.teamId, user.id, ActivityType.UPDATE_ACCOUNT, {
+            metadata: {
+                changes: activityDiff({ name: user.name }, { name: data.name }),
+                ...(emailChanged && { emailChangeRequested: true }),
+            },
+        });
+
+        if (emailChanged) {
+            return {
+                success: `Account updated. Confirm your new email address from the link we sent to ${data.email}.`,
+            };
+        }
+        return { success: 'Account updated successfully.' };
+    }
+);
+
+//
+// Remove Team Member
+//
+const removeTeamMemberSchema = z.object({
+    memberId: z.coerce.number(),
+});
+
+export const removeTeamMember = validatedActionWithUser(
+    removeTeamMemberSchema,
+    async (data, _, user) => {
+        const uwt = await getUserWithTeam(user.id);
+        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+
+        const member = await getTeamMembership(uwt.teamId, data.memberId);
+        if (!member) return { error: 'Member not found.' };
+        const grantor = await getGrantor(user.id, uwt.teamId);
+        if (!(await canManageMember(grantor, uwt.teamId, member.role))) {
+            return {
+                error: "You can't remove someone with permissions you don't have.",
+            };
+        }
+        if (await isLastOwner(uwt.teamId, member.userId)) {
+            return {
+                error: 'A team needs at least one owner. Transfer ownership before removing the last one.',
+            };
+        }
+
+        await removeTeamMembership(uwt.teamId, member.userId);
+        await syncSubscriptionSeats(uwt.teamId);
+
+        await logActivity(
+            uwt.teamId,
+            user.id,
+            ActivityType.REMOVE_TEAM_MEMBER,
+            {
+                target: { type: 'user', id: member.userId },
+                metadata: { role: member.role },
+            }
+        );
+        return { success: 'Team member removed.' };
+    },
+    { permission: 'members.remove' }
+);
+
+//
+// Invite Team Member
+//
+const inviteTeamMemberSchema = z.object({
+    email: z.string().email(),
+    role: z.string().min(1).max(50),
+});
+
+export const inviteTeamMember = validatedActionWithUser(
+    inviteTeamMemberSchema,
+    async (data, _, user) => {
+        if (!user.email_verified_at) {
+            return { error: 'Verify your email address before inviting members.' };
+        }
+
+        const uwt = await getUserWithTeam(user.id);
+        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+
+        // Anything above a plain member is granting permissions, which needs
+        // roles.manage as well.
+        const roles = await getTeamRoles(uwt.teamId);
+        const role = roles.find((r) => r.name === data.role);
+        if (!role) return { error: 'Unknown role.' };
+        if (
+            data.role !== 'member' &&
+            !(await hasPermission(user.id, uwt.teamId, 'roles.manage'))
+        ) {
+            return { error: 'You can only invite members with the member role.' };
+        }
+        if (!canAssignRole(await getGrantor(user.id, uwt.teamId), role)) {
+            return {
+                error: data.role === 'owner'
+                    ? 'Only owners can invite owners.'
+                    : "You can't invite someone with permissions you don't have.",
+            };
+        }
+
+        const invitee = await getUserByEmail(data.email);
+        if (invitee && (await getTeamRole(invitee.id, uwt.teamId))) {
+            return { error: 'User already a member.' };
+        }
+        if (await hasPendingInvitation(uwt.teamId, data.email)) {
+            return { error: 'Invitation already sent. Resend it from the list below.' };
+        }
+
+        const { invitation, token } = await createInvitation({
+            teamId: uwt.teamId,
+            email: data.email,
+            role: data.role,
+            invitedBy: user.id,
+        });
+        await sendInvitationEmail(invitation, token, user);
         await logActivity(
             uwt.teamId,
             user.id,
-            ActivityType.INVITE_TEAM_MEMBER
+            ActivityType.INVITE_TEAM_MEMBER,
+            {
+                target: {
+                    type: 'invitation',
+                    id: invitation.id,
+                    label: invitation.email,
+                },
+                metadata: { role: invitation.role },
+            }
+        );
+
+        revalidatePath('/dashboard');
+        return { success: `Invitation sent to ${data.email}.` };
+    },
+    { permission: 'members.invite' }
+);
+
+const invitationIdSchema = z.object({
+    invitationId: z.coerce.number(),
+});
+
+export const resendInvitationAction = validatedActionWithUser(
+    invitationIdSchema,
+    async (data, _, user) => {
+        const uwt = await getUserWithTeam(user.id);
+        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+
+        const resent = await resendInvitation(uwt.teamId, data.invitationId);
+        if (!resent) return { error: 'Invitation not found.' };
+
+        await sendInvitationEmail(resent.invitation, resent.token, user);
+        revalidatePath('/dashboard');
+        return { success: `Invitation resent to ${resent.invitation.email}.` };
+    },
+    { permission: 'members.invite' }
+);
+
+export const revokeInvitationAction = validatedActionWithUser(
+    invitationIdSchema,
+    async (data, _, user) => {
+        const uwt = await getUserWithTeam(user.id);
+        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+
+        const email = await revokeInvitation(uwt.teamId, data.invitationId);
+        if (!email) return { error: 'Invitation not found.' };
+
+        await logActivity(uwt.teamId, user.id, ActivityType.REVOKE_INVITATION, {
+            target: { type: 'invitation', id: data.invitationId, label: email },
+        });
+        revalidatePath('/dashboard');
+        return { success: `Invitation for ${email} revoked.` };
+    },
+    { permission: 'members.invite' }
+);
+
+//
+// Bulk Import
+//
+// The file is checked twice: once to show the preview, and again on import,
+// since the team may have changed in between. Only rows still 'ready' are
+// invited.
+async function checkMemberImport(user: User, csv: string) {
+    const uwt = await getUserWithTeam(user.id);
+    if (!uwt?.teamId) return { error: 'Not part of a team.' };
+
+    const [roles, canAssignRoles, grantor] = await Promise.all([
+        getTeamRoles(uwt.teamId),
+        hasPermission(user.id, uwt.teamId, 'roles.manage'),
+        getGrantor(user.id, uwt.teamId),
+    ]);
+    const preview = await previewMemberImport(uwt.teamId, csv, {
+        roles: roles.map((role) => role.name),
+        canAssignRoles,
+        assignableRoles: roles
+            .filter((role) => canAssignRole(grantor, role))
+            .map((role) => role.name),
+    });
+    return 'error' in preview ? preview : { teamId: uwt.teamId, ...preview };
+}
+
+export const previewMemberImportAction = validatedActionWithUser(
+    z.object({
+        file: z
+            .instanceof(File, { message: 'Choose a CSV file.' })
+            .refine((file) => file.size > 0, 'Choose a CSV file.')
+            .refine(
+                (file) => file.size <= MAX_IMPORT_BYTES,
+                'The file is too large.'
+            ),
+    }),
+    async (data, _, user) => {
+        const csv = await data.file.text();
+        const preview = await checkMemberImport(user, csv);
+        if ('error' in preview) return { error: preview.error };
+
+        return { csv, rows: preview.rows as ImportRow[] };
+    },
+    { permission: 'members.invite', allowWhileImpersonating: true }
+);
+
+export const importTeamMembers = validatedActionWithUser(
+    z.object({ csv: z.string().min(1).max(MAX_IMPORT_BYTES) }),
+    async (data, _, user) => {
+        if (!user.email_verified_at) {
+            return { error: 'Verify your email address before inviting members.' };
+        }
+
+        const preview = await checkMemberImport(user, data.csv);
+        if ('error' in preview) return { error: preview.error };
+
+        const ready = preview.rows.filter((row) => row.status === 'ready');
+        if (ready.length === 0) {
+            return {
+                error: 'None of the rows can be invited.',
+                csv: data.csv,
+                rows: preview.rows,
+            };
+        }
+
+        const created = await createInvitations(preview.teamId, user.id, ready);
+        await Promise.all(
+            created.map(({ invitation, token }) =>
+                sendInvitationEmail(invitation, token, user)
+            )
+        );
+        const skipped = preview.rows.length - created.length;
+        await logActivity(
+            preview.teamId,
+            user.id,
+            ActivityType.IMPORT_TEAM_MEMBERS,
+            { metadata: { invited: created.length, skipped } }
+        );
+
+        revalidatePath('/dashboard');
+        return {
+            success: `Sent ${created.length} invitation${created.length === 1 ? '' : 's'}${
+                skipped ? `, skipped ${skipped} row${skipped === 1 ? '' : 's'}` : ''
+            }.`,
+        };
+    },
+    { permission: 'members.invite' }
+);
+
+//
+// Accept Invitation
+//
+// New users accept through signUp; this is for people who already have an
+// account and are signed in as the invited address.
+export const acceptInvitationAction = validatedActionWithUser(
+    z.object({ token: z.string().min(1) }),
+    async (data, _, user) => {
+        const invitation = await findInvitation(data.token);
+        if (!invitation) {
+            return { error: 'This invitation is invalid or has expired.' };
+        }
+        if (invitation.email !== user.email.toLowerCase()) {
+            return {
+                error: `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.`,
+            };
+        }
+        if (!(await acceptInvitation(invitation, user.id))) {
+            return { error: 'This invitation has already been used.' };
+        }
+
+        await logActivity(
+            invitation.teamId,
+            user.id,
+            ActivityType.ACCEPT_INVITATION,
+            {
+                target: { type: 'invitation', id: invitation.id },
+                metadata: { role: invitation.role },
+            }
         );
 
-        // TODO: email out the invitation link
+        // Land in the team they just joined.
+        const session = await getSession();
+        if (session) await setActiveTeam(session.sid, invitation.teamId);
+        revalidatePath('/', 'layout');
+        redirect('/dashboard');
+    }
+);
+
+//
+// API Tokens
+//
+const API_TOKEN_EXPIRY_DAYS = { '30': 30, '90': 90, '365': 365 } as const;
+
+const createApiTokenSchema = z.object({
+    name: z.string().trim().min(1).max(100),
+    owner: z.enum(['user', 'team']),
+    expiresIn: z.enum(['never', '30', '90', '365']),
+});
 
-        return { success: 'Invitation sent.' };
+export const createApiTokenAction = validatedActionWithUser(
+    createApiTokenSchema,
+    async (data, formData, user) => {
+        // Checkboxes share a name, which Object.fromEntries would collapse.
+        const scopes = z
+            .array(z.enum(API_SCOPE_NAMES))
+            .min(1, 'Choose at least one scope.')
+            .safeParse(formData.getAll('scopes'));
+        if (!scopes.success) {
+            return { error: scopes.error.errors[0].message, name: data.name };
+        }
+
+        const uwt = await getUserWithTeam(user.id);
+        const grantor: Grantor = uwt?.teamId
+            ? await getGrantor(user.id, uwt.teamId)
+            : { role: null, permissions: [] };
+        const refused = scopes.data.find((scope) => !canMintScope(grantor, scope));
+        if (refused) {
+            return { error: `You don't have permission to grant ${refused}.`, name: data.name };
+        }
+
+        let owner: { userId: number } | { teamId: number } = { userId: user.id };
+        if (data.owner === 'team') {
+            if (
+                !uwt?.teamId ||
+                !(await hasPermission(user.id, uwt.teamId, 'api_tokens.manage'))
+            ) {
+                return { error: "You don't have permission to create team tokens.", name: data.name };
+            }
+            owner = { teamId: uwt.teamId };
+        } else if (scopes.data.includes('scim:provision')) {
+            // An identity provider manages the team, not one person's
+            // account, so SCIM only accepts team tokens.
+            return { error: 'SCIM tokens must belong to the team.', name: data.name };
+        }
+
+        const expiresAt =
+            data.expiresIn === 'never'
+                ? null
+                : new Date(
+                      Date.now() +
+                          API_TOKEN_EXPIRY_DAYS[data.expiresIn] * 24 * 60 * 60 * 1000
+                  );
+
+        const token = await createApiToken({
+            name: data.name,
+            owner,
+            createdBy: user.id,
+            scopes: scopes.data,
+            expiresAt,
+        });
+
+        revalidatePath('/dashboard/api-tokens');
+        return {
+            success: "Token created. Copy it now, it won't be shown again.",
+            token,
+        };
+    }
+);
+
+const revokeApiTokenSchema = z.object({
+    tokenId: z.coerce.number(),
+});
+
+export const revokeApiTokenAction = validatedActionWithUser(
+    revokeApiTokenSchema,
+    async (data, _, user) => {
+        // Personal tokens first; failing that, a team token if the user may
+        // manage them.
+        let revoked = await revokeApiToken(data.tokenId, { userId: user.id });
+        if (!revoked) {
+            const uwt = await getUserWithTeam(user.id);
+            if (
+                uwt?.teamId &&
+                (await hasPermission(user.id, uwt.teamId, 'api_tokens.manage'))
+            ) {
+                revoked = await revokeApiToken(data.tokenId, { teamId: uwt.teamId });
+            }
+        }
+        if (!revoked) return { error: 'Token not found.' };
+
+        revalidatePath('/dashboard/api-tokens');
+        return { success: 'Token revoked.' };
+    }
+);
+
+//
+// Impersonation
+//
+const impersonateUserSchema = z.object({
+    email: z.string().email(),
+});
+
+export const impersonateUser = validatedActionWithUser(
+    impersonateUserSchema,
+    async (data, _, user) => {
+        const target = await getUserByEmail(data.email);
+        if (!target || !(await canImpersonate(user.id, target.id))) {
+            return { error: 'You cannot impersonate that user.', email: data.email };
+        }
+
+        await startImpersonation(user.id, target.id);
+        redirect('/dashboard');
     }
 );
+
+export async function stopImpersonating() {
+    await endImpersonation();
+    redirect('/dashboard/admin');
+}
+
+//
+// Team Switcher
+//
+const switchTeamSchema = z.object({
+    teamId: z.coerce.number(),
+});
+
+export const switchTeam = validatedActionWithUser(
+    switchTeamSchema,
+    async (data, _, user) => {
+        const session = await getSession();
+        if (!session || !(await getTeamRole(user.id, data.teamId))) {
+            return { error: 'You are not a member of that team.' };
+        }
+
+        await setActiveTeam(session.sid, data.teamId);
+        revalidatePath('/', 'layout');
+        redirect('/dashboard');
+    },
+    { allowWhileImpersonating: true }
+);
+
+//
+// Team Roles
+//
+const createRoleSchema = z.object({
+    name: z.string().trim().toLowerCase().min(1).max(50),
+});
+
+export const createRole = validatedActionWithUser(
+    createRoleSchema,
+    async (data, formData, user) => {
+        const permissions = z
+            .array(z.enum(PERMISSION_NAMES))
+            .safeParse(formData.getAll('permissions'));
+        if (!permissions.success) return { error: 'Unknown permission.' };
+
+        const uwt = await getUserWithTeam(user.id);
+        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+
+        const roles = await getTeamRoles(uwt.teamId);
+        if (isBuiltInRole(data.name) || roles.some((r) => r.name === data.name)) {
+            return { error: 'A role with that name already exists.' };
+        }
+        if (!canGrant(await getGrantor(user.id, uwt.teamId), permissions.data)) {
+            return { error: "You can't grant permissions you don't have." };
+        }
+
+        await createTeamRole(uwt.teamId, data.name, permissions.data);
+        await logActivity(uwt.teamId, user.id, ActivityType.CREATE_ROLE, {
+            target: { type: 'role', id: data.name, label: data.name },
+            metadata: { permissions: permissions.data },
+        });
+        revalidatePath('/dashboard');
+        return { success: `Role "${data.name}" created.` };
+    },
+    { permission: 'roles.manage' }
+);
+
+const deleteRoleSchema = z.object({
+    roleId: z.coerce.number(),
+});
+
+export const deleteRole = validatedActionWithUser(
+    deleteRoleSchema,
+    async (data, _, user) => {
+        const uwt = await getUserWithTeam(user.id);
+        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+
+        const role = (await getTeamRoles(uwt.teamId)).find(
+            (r) => r.id === data.roleId
+        );
+        if (!(await deleteTeamRole(uwt.teamId, data.roleId))) {
+            return { error: 'Reassign the members who have this role first.' };
+        }
+        if (role) {
+            await logActivity(uwt.teamId, user.id, ActivityType.DELETE_ROLE, {
+                target: { type: 'role', id: role.name, label: role.name },
+                metadata: { permissions: role.permissions },
+            });
+        }
+
+        revalidatePath('/dashboard');
+        return { success: 'Role deleted.' };
+    },
+    { permission: 'roles.manage' }
+);
+
+const updateMemberRoleSchema = z.object({
+    userId: z.coerce.number(),
+    role: z.string().min(1).max(50),
+});
+
+export const updateMemberRole = validatedActionWithUser(
+    updateMemberRoleSchema,
+    async (data, _, user) => {
+        const uwt = await getUserWithTeam(user.id);
+        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+
+        const roles = await getTeamRoles(uwt.teamId);
+        const role = roles.find((r) => r.name === data.role);
+        if (!role) return { error: 'Unknown role.' };
+
+        // Ownership can't be granted or taken away through roles.manage
+        // alone; only owners move it, and never away from the last one.
+        // Nor can anyone give or take away more than they hold.
+        const grantor = await getGrantor(user.id, uwt.teamId);
+        const currentRole = await getTeamRole(data.userId, uwt.teamId);
+        if (
+            (data.role === 'owner' || currentRole === 'owner') &&
+            grantor.role !== 'owner'
+        ) {
+            return { error: 'Only owners can change who is an owner.' };
+        }
+        const current = roles.find((r) => r.name === currentRole);
+        if (current && !canAssignRole(grantor, current)) {
+            return {
+                error: "You can't change the role of someone with permissions you don't have.",
+            };
+        }
+        if (!canAssignRole(grantor, role)) {
+            return { error: "You can't assign a role with permissions you don't have." };
+        }
+        if (
+            data.role !== 'owner' &&
+            (await isLastOwner(uwt.teamId, data.userId))
+        ) {
+            return {
+                error: 'A team needs at least one owner. Transfer ownership instead.',
+            };
+        }
+
+        const updated = await updateTeamMemberRole(
+            uwt.teamId,
+            data.userId,
+            data.role
+        );
+        if (!updated) return { error: 'Member not found.' };
+
+        await logActivity(
+            uwt.teamId,
+            user.id,
+            ActivityType.UPDATE_MEMBER_ROLE,
+            {
+                target: { type: 'user', id: data.userId },
+                metadata: { from: currentRole, to: data.role },
+            }
+        );
+        revalidatePath('/dashboard');
+        return { success: 'Role updated.' };
+    },
+    { permission: 'roles.manage' }
+);
+
+//
+// Ownership
+//
+// Only owners can offer ownership or delete a team; the offer is confirmed
+// with the owner's password and then has to be accepted by the recipient.
+async function requireOwner(userId: number) {
+    const uwt = await getUserWithTeam(userId);
+    if (!uwt?.teamId) return null;
+    return (await getTeamRole(userId, uwt.teamId)) === 'owner' ? uwt.teamId : null;
+}
+
+const transferOwnershipSchema = z.object({
+    userId: z.coerce.number(),
+    password: z.string().max(100).optional(),
+});
+
+export const transferOwnership = validatedActionWithUser(
+    transferOwnershipSchema,
+    async (data, _, user) => {
+        const teamId = await requireOwner(user.id);
+        if (!teamId) return { error: 'Only team owners can transfer ownership.' };
+
+        if (!(await confirmIdentity(user, data.password))) {
+            return { error: 'Incorrect password.' };
+        }
+        if (data.userId === user.id) {
+            return { error: 'Choose another member of the team.' };
+        }
+        if (!(await getTeamRole(data.userId, teamId))) {
+            return { error: 'Member not found.' };
+        }
+
+        await requestOwnershipTransfer(teamId, user.id, data.userId);
+        revalidatePath('/dashboard');
+        return {
+            success: 'Ownership offered. It moves once they accept.',
+        };
+    }
+);
+
+export const cancelOwnershipTransferAction = validatedActionWithUser(
+    z.object({}),
+    async (_, __, user) => {
+        const teamId = await requireOwner(user.id);
+        if (!teamId) return { error: 'Only team owners can cancel a transfer.' };
+
+        await cancelOwnershipTransfer(teamId);
+        revalidatePath('/dashboard');
+        return { success: 'Transfer cancelled.' };
+    }
+);
+
+const respondToTransferSchema = z.object({
+    transferId: z.coerce.number(),
+    accept: z.enum(['true', 'false']).transform((v) => v === 'true'),
+});
+
+export const respondToOwnershipTransfer = validatedActionWithUser(
+    respondToTransferSchema,
+    async (data, _, user) => {
+        const uwt = await getUserWithTeam(user.id);
+        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+
+        if (!data.accept) {
+            await declineOwnershipTransfer(
+                uwt.teamId,
+                data.transferId,
+                user.id
+            );
+            revalidatePath('/dashboard');
+            return { success: 'Transfer declined.' };
+        }
+
+        const transfer = await acceptOwnershipTransfer(
+            uwt.teamId,
+            data.transferId,
+            user.id
+        );
+        if (!transfer) {
+            return { error: 'This transfer is no longer available.' };
+        }
+
+        await logActivity(
+            uwt.teamId,
+            user.id,
+            ActivityType.TRANSFER_OWNERSHIP
+        );
+        revalidatePath('/dashboard');
+        return { success: 'You are now an owner of this team.' };
+    }
+);
+
+const deleteTeamSchema = z.object({
+    teamId: z.coerce.number(),
+    confirmName: z.string(),
+    password: z.string().max(100).optional(),
+});
+
+export const deleteTeamAction = validatedActionWithUser(
+    deleteTeamSchema,
+    async (data, _, user) => {
+        if ((await getTeamRole(user.id, data.teamId)) !== 'owner') {
+            return { error: 'Only team owners can delete a team.' };
+        }
+        if (!(await confirmIdentity(user, data.password))) {
+            return { error: 'Incorrect password.' };
+        }
+
+        const team = await getTeamWithMembers(data.teamId);
+        if (!team) return { error: 'Team not found.' };
+        if (data.confirmName !== team.name) {
+            return { error: `Type "${team.name}" to confirm.` };
+        }
+
+        await logActivity(team.id, user.id, ActivityType.DELETE_TEAM);
+        await deleteTeam(team.id);
+
+        revalidatePath('/', 'layout');
+        return { success: `${team.name} was deleted.` };
+    }
+);
+
+//
+// Team Domains
+//
+const claimDomainSchema = z.object({
+    domain: z
+        .string()
+        .transform(normalizeDomain)
+        .pipe(
+            z
+                .string()
+                .max(255)
+                .regex(
+                    /^(?!-)[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}$/,
+                    'Enter a domain like example.com.'
+                )
+        ),
+});
+
+export const claimDomainAction = validatedActionWithUser(
+    claimDomainSchema,
+    async (data, _, user) => {
+        const uwt = await getUserWithTeam(user.id);
+        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+
+        if (isPublicEmailDomain(data.domain)) {
+            return { error: `${data.domain} is a public email provider and can't be claimed.` };
+        }
+        const domains = await getTeamDomains(uwt.teamId);
+        if (domains.some((d) => d.domain === data.domain)) {
+            return { error: 'Your team has already claimed that domain.' };
+        }
+        if (!(await claimDomain(uwt.teamId, data.domain))) {
+            return { error: 'That domain is already verified by another team.' };
+        }
+
+        revalidatePath('/dashboard');
+        return {
+            success: `Add the TXT record below to ${data.domain}, then verify it.`,
+        };
+    },
+    { permission: 'domains.manage' }
+);
+
+const domainIdSchema = z.object({
+    domainId: z.coerce.number(),
+});
+
+export const verifyDomainAction = validatedActionWithUser(
+    domainIdSchema,
+    async (data, _, user) => {
+        const uwt = await getUserWithTeam(user.id);
+        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+
+        const domain = await verifyDomain(uwt.teamId, data.domainId);
+        if (!domain) {
+            return {
+                error: "We couldn't find the TXT record yet. DNS changes can take a while to show up.",
+            };
+        }
+
+        await logActivity(uwt.teamId, user.id, ActivityType.VERIFY_DOMAIN, {
+            target: { type: 'domain', id: domain.id, label: domain.domain },
+        });
+        revalidatePath('/dashboard');
+        return { success: `${domain.domain} is verified.` };
+    },
+    { permission: 'domains.manage' }
+);
+
+const updateDomainPolicySchema = z.object({
+    domainId: z.coerce.number(),
+    joinPolicy: z.enum(['auto', 'request']),
+    defaultRole: z.string().min(1).max(50),
+});
+
+export const updateDomainPolicyAction = validatedActionWithUser(
+    updateDomainPolicySchema,
+    async (data, _, user) => {
+        const uwt = await getUserWithTeam(user.id);
+        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+
+        // Ownership is only ever handed over deliberately, never by domain.
+        // Nor can the policy give sign-ups more than the caller could.
+        const roles = await getTeamRoles(uwt.teamId);
+        const role = roles.find((r) => r.name === data.defaultRole);
+        if (!role || role.name === 'owner') {
+            return { error: 'Choose a role other than owner.' };
+        }
+        if (!canAssignRole(await getGrantor(user.id, uwt.teamId), role)) {
+            return { error: "You can't assign a role with permissions you don't have." };
+        }
+
+        const updated = await updateDomainPolicy(uwt.teamId, data.domainId, {
+            joinPolicy: data.joinPolicy,
+            defaultRole: data.defaultRole,
+        });
+        if (!updated) return { error: 'Domain not found.' };
+
+        revalidatePath('/dashboard');
+        return { success: 'Domain settings saved.' };
+    },
+    { permission: 'domains.manage' }
+);
+
+export const removeDomainAction = validatedActionWithUser(
+    domainIdSchema,
+    async (data, _, user) => {
+        const uwt = await getUserWithTeam(user.id);
+        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+
+        const domain = await removeDomain(uwt.teamId, data.domainId);
+        if (!domain) return { error: 'Domain not found.' };
+
+        revalidatePath('/dashboard');
+        return { success: `${domain} removed.` };
+    },
+    { permission: 'domains.manage' }
+);
+
+//
+// Join Requests
+//
+export const requestToJoinTeam = validatedActionWithUser(
+    z.object({ code: z.string().min(1).max(32) }),
+    async (data, _, user) => {
+        const team = await findTeamByJoinCode(data.code);
+        if (!team) return { error: 'This join link is no longer valid.' };
+        if (await getTeamRole(user.id, team.id)) {
+            return { error: `You're already a member of ${team.name}.` };
+        }
+
+        const result = await createJoinRequest({
+            teamId: team.id,
+            userId: user.id,
+            source: 'link',
+        });
+        if (result === 'already_requested') {
+            return { error: `You've already asked to join ${team.name}.` };
+        }
+        if (result === 'recently_rejected') {
+            return {
+                error: `Your last request to join ${team.name} was declined. Try again in a few days.`,
+            };
+        }
+
+        await logActivity(team.id, user.id, ActivityType.REQUEST_TO_JOIN);
+        return {
+            success: `Request sent. We'll email you once someone from ${team.name} answers.`,
+        };
+    }
+);
+
+const decideJoinRequestSchema = z.object({
+    requestId: z.coerce.number(),
+    approve: z.enum(['true', 'false']).transform((v) => v === 'true'),
+});
+
+export const decideJoinRequestAction = validatedActionWithUser(
+    decideJoinRequestSchema,
+    async (data, _, user) => {
+        const uwt = await getUserWithTeam(user.id);
+        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+
+        const request = await decideJoinRequest(
+            uwt.teamId,
+            data.requestId,
+            user.id,
+            data.approve
+        );
+        if (!request) {
+            return { error: 'This request was already answered or has expired.' };
+        }
+
+        await logActivity(
+            uwt.teamId,
+            user.id,
+            data.approve
+                ? ActivityType.APPROVE_JOIN_REQUEST
+                : ActivityType.REJECT_JOIN_REQUEST,
+            {
+                target: { type: 'user', id: request.user.id },
+                metadata: { source: request.source, role: request.role },
+            }
+        );
+
+        const team = await getTeamWithMembers(uwt.teamId);
+        await sendMail({
+            to: request.user.email,
+            ...joinRequestDecisionEmail(
+                team?.name ?? 'the team',
+                data.approve,
+                `${process.env.BASE_URL}/sign-in`
+            ),
+        });
+
+        const name = request.user.name || request.user.email;
+        revalidatePath('/dashboard');
+        return {
+            success: data.approve
+                ? `${name} joined the team.`
+                : `${name}'s request was declined.`,
+        };
+    },
+    { permission: 'members.invite' }
+);
+
+export const updateJoinLink = validatedActionWithUser(
+    z.object({ enabled: z.enum(['true', 'false']) }),
+    async (data, _, user) => {
+        const uwt = await getUserWithTeam(user.id);
+        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+
+        const enabled = data.enabled === 'true';
+        await resetJoinCode(uwt.teamId, enabled);
+        revalidatePath('/dashboard');
+        return {
+            success: enabled
+                ? 'New join link created. The previous link no longer works.'
+                : 'Join link turned off.',
+        };
+    },
+    { permission: 'members.invite' }
+);
+
+
+//
+// Audit Log Integrity
+//
+const chainBreakMessages: Record<ChainBreak['reason'], string> = {
+    missing: 'entries before it have been deleted',
+    relinked: 'it no longer links to the entry before it',
+    altered: 'it was changed after it was recorded',
+};
+
+export const verifyAuditChainAction = validatedActionWithUser(
+    z.object({}),
+    async (_, __, user) => {
+        const uwt = await getUserWithTeam(user.id);
+        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+
+        const result = await verifyActivityChain(uwt.teamId);
+        if (!result.valid) {
+            const { seq, reason } = result.firstBreak;
+            return {
+                error: `The log fails verification at entry #${seq}: ${chainBreakMessages[reason]}.`,
+            };
+        }
+        return {
+            success: `All ${result.entries} entries check out.`,
+        };
+    },
+    { permission: 'audit.read', allowWhileImpersonating: true }
+);
+
+
+//
+// Audit Log Retention
+//
+const retentionDaysMessage = `Enter a whole number of days up to ${MAX_RETENTION_DAYS}, or leave it blank.`;
+
+// Blank keeps entries, or their full IP addresses, for good.
+const retentionDays = z
+    .string()
+    .trim()
+    .transform((value) => (value === '' ? null : Number(value)))
+    .pipe(
+        z
+            .number({ invalid_type_error: retentionDaysMessage })
+            .int(retentionDaysMessage)
+            .min(1, retentionDaysMessage)
+            .max(MAX_RETENTION_DAYS, retentionDaysMessage)
+            .nullable()
+    );
+
+const updateRetentionPolicySchema = z.object({
+    retentionDays,
+    ipRetentionDays: retentionDays,
+});
+
+export const updateRetentionPolicyAction = validatedActionWithUser(
+    updateRetentionPolicySchema,
+    async (data, _, user) => {
+        const uwt = await getUserWithTeam(user.id);
+        if (!uwt?.teamId) return { error: 'Not part of a team.' };
+
+        const before = await getRetentionPolicy(uwt.teamId);
+        await updateRetentionPolicy(uwt.teamId, data);
+        await logActivity(
+            uwt.teamId,
+            user.id,
+            ActivityType.UPDATE_RETENTION_POLICY,
+            { metadata: { changes: activityDiff(before, data) } }
+        );
+
+        revalidatePath('/dashboard/activity');
+        return { success: 'Retention settings saved.' };
+    },
+    { permission: 'audit.manage' }
+);
@@ -0,0 +1,5 @@
+import { ForgotPassword } from '../password-reset';
+
+export default function ForgotPasswordPage() {
+  return <ForgotPassword />;
+}
@@ -0,0 +1,108 @@
+'use client';
+
+import Link from 'next/link';
+import { useActionState } from 'react';
+import { Button } from '@/components/ui/button';
+import { CircleIcon, Loader2 } from 'lucide-react';
+import { acceptInvitationAction } from './actions';
+import { ActionState } from '@/lib/auth/middleware';
+
+export function AcceptInvitation({
+  token,
+  invitation,
+  signedInAs
+}: {
+  token: string;
+  invitation: {
+    teamName: string;
+    email: string;
+    role: string;
+    invitedBy: string;
+  } | null;
+  signedInAs: string | null;
+}) {
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(
+    acceptInvitationAction,
+    { error: '' }
+  );
+  const handoffQuery = `?redirect=invitation&invite=${encodeURIComponent(token)}`;
+  const isInvitee =
+    !!invitation && signedInAs?.toLowerCase() === invitation.email;
+
+  return (
+    <div className="min-h-[100dvh] flex flex-col justify-center py-12 px-4 sm:px-6 lg:px-8 bg-gray-50">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="flex justify-center">
+          <CircleIcon className="h-12 w-12 text-orange-500" />
+        </div>
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+          {invitation ? `Join ${invitation.teamName}` : 'Invitation not found'}
+        </h2>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md space-y-6">
+        {!invitation ? (
+          <p className="text-sm text-gray-600">
+            This invitation is invalid, has expired or was already used. Ask
+            the person who invited you to send a new one.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600">
+              {invitation.invitedBy} invited {invitation.email} to join{' '}
+              {invitation.teamName} as{' '}
+              <span className="capitalize">{invitation.role}</span>.
+            </p>
+
+            {signedInAs && !isInvitee && (
+              <p className="text-sm text-red-500">
+                You're signed in as {signedInAs}. Sign out and sign in as{' '}
+                {invitation.email} to accept.
+              </p>
+            )}
+
+            {isInvitee && (
+              <form action={formAction} className="space-y-6">
+                <input type="hidden" name="token" value={token} />
+                {state?.error && (
+                  <p className="text-red-500 text-sm">{state.error}</p>
+                )}
+                <Button
+                  type="submit"
+                  className="w-full flex justify-center items-center py-2 px-4 border border-transparent rounded-full shadow-sm text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500"
+                  disabled={pending}
+                >
+                  {pending ? (
+                    <>
+                      <Loader2 className="animate-spin mr-2 h-4 w-4" />
+                      Joining...
+                    </>
+                  ) : (
+                    'Accept invitation'
+                  )}
+                </Button>
+              </form>
+            )}
+
+            {!signedInAs && (
+              <div className="space-y-4">
+                <Link
+                  href={`/sign-up${handoffQuery}`}
+                  className="w-full flex justify-center py-2 px-4 border border-transparent rounded-full shadow-sm text-sm font-medium text-white bg-orange-600 hover:bg-orange-700"
+                >
+                  Create an account
+                </Link>
+                <Link
+                  href={`/sign-in${handoffQuery}`}
+                  className="w-full flex justify-center py-2 px-4 border border-gray-300 rounded-full shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+                >
+                  Sign in to an existing account
+                </Link>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
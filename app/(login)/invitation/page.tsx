@@ -0,0 +1,30 @@
+import { AcceptInvitation } from '../invitation';
+import { findInvitation } from '@/lib/auth/invitations';
+import { getUser } from '@/lib/db/queries';
+
+export default async function InvitationPage({
+  searchParams
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  const [invitation, user] = await Promise.all([
+    token ? findInvitation(token) : null,
+    getUser()
+  ]);
+
+  return (
+    <AcceptInvitation
+      token={token ?? ''}
+      invitation={
+        invitation && {
+          teamName: invitation.teamName,
+          email: invitation.email,
+          role: invitation.role,
+          invitedBy: invitation.invitedBy.name || invitation.invitedBy.email
+        }
+      }
+      signedInAs={user?.email ?? null}
+    />
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import Link from 'next/link';
+import { useActionState } from 'react';
+import { Button } from '@/components/ui/button';
+import { CircleIcon, Loader2 } from 'lucide-react';
+import { requestToJoinTeam } from './actions';
+import { ActionState } from '@/lib/auth/middleware';
+
+export function JoinTeam({
+  code,
+  teamName,
+  signedIn,
+  isMember
+}: {
+  code: string;
+  teamName: string | null;
+  signedIn: boolean;
+  isMember: boolean;
+}) {
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(
+    requestToJoinTeam,
+    { error: '' }
+  );
+  const handoffQuery = `?redirect=join&join=${encodeURIComponent(code)}`;
+
+  return (
+    <div className="min-h-[100dvh] flex flex-col justify-center py-12 px-4 sm:px-6 lg:px-8 bg-gray-50">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="flex justify-center">
+          <CircleIcon className="h-12 w-12 text-orange-500" />
+        </div>
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+          {teamName ? `Join ${teamName}` : 'Join link not found'}
+        </h2>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md space-y-6">
+        {!teamName ? (
+          <p className="text-sm text-gray-600">
+            This join link is invalid or was turned off. Ask the team for a new
+            one.
+          </p>
+        ) : isMember ? (
+          <p className="text-sm text-gray-600">
+            You're already a member of {teamName}.{' '}
+            <Link
+              href="/dashboard"
+              className="text-orange-600 hover:text-orange-700"
+            >
+              Go to the dashboard
+            </Link>
+          </p>
+        ) : signedIn ? (
+          <form action={formAction} className="space-y-6">
+            <input type="hidden" name="code" value={code} />
+            <p className="text-sm text-gray-600">
+              Someone on {teamName} will review your request. We'll email you
+              when they do.
+            </p>
+            {state?.error && (
+              <p className="text-red-500 text-sm">{state.error}</p>
+            )}
+            {state?.success ? (
+              <p className="text-green-600 text-sm">{state.success}</p>
+            ) : (
+              <Button
+                type="submit"
+                className="w-full flex justify-center items-center py-2 px-4 border border-transparent rounded-full shadow-sm text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500"
+                disabled={pending}
+              >
+                {pending ? (
+                  <>
+                    <Loader2 className="animate-spin mr-2 h-4 w-4" />
+                    Sending...
+                  </>
+                ) : (
+                  'Ask to join'
+                )}
+              </Button>
+            )}
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              Sign in or create an account to ask to join {teamName}.
+            </p>
+            <Link
+              href={`/sign-up${handoffQuery}`}
+              className="w-full flex justify-center py-2 px-4 border border-transparent rounded-full shadow-sm text-sm font-medium text-white bg-orange-600 hover:bg-orange-700"
+            >
+              Create an account
+            </Link>
+            <Link
+              href={`/sign-in${handoffQuery}`}
+              className="w-full flex justify-center py-2 px-4 border border-gray-300 rounded-full shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
+            >
+              Sign in to an existing account
+            </Link>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+import { JoinTeam } from '../../join-team';
+import { findTeamByJoinCode } from '@/lib/auth/join-requests';
+import { getTeamRole, getUser } from '@/lib/db/queries';
+
+export default async function JoinTeamPage({
+  params
+}: {
+  params: Promise<{ code: string }>;
+}) {
+  const { code } = await params;
+  const [team, user] = await Promise.all([
+    findTeamByJoinCode(code),
+    getUser()
+  ]);
+  const isMember = !!team && !!user && !!(await getTeamRole(user.id, team.id));
+
+  return (
+    <JoinTeam
+      code={code}
+      teamName={team?.name ?? null}
+      signedIn={!!user}
+      isMember={isMember}
+    />
+  );
+}
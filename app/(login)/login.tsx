@@ -1,24 +1,89 @@
 'use client';
 
 import Link from 'next/link';
-import { useActionState } from 'react';
+import { useActionState, useState, useTransition } from 'react';
 import { useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { CircleIcon, Loader2 } from 'lucide-react';
-import { signIn, signUp } from './actions';
+import { CircleIcon, Fingerprint, Loader2 } from 'lucide-react';
+import {
+  finishPasskeySignIn,
+  requestMagicLink,
+  signIn,
+  signUp,
+  startPasskeySignIn
+} from './actions';
 import { ActionState } from '@/lib/auth/middleware';
+import { authenticateWithPasskey } from '@/lib/auth/passkey-client';
 
-export function Login({ mode = 'signin' }: { mode?: 'signin' | 'signup' }) {
+function PasskeySignInButton({
+  redirect,
+  priceId
+}: {
+  redirect: string | null;
+  priceId: string | null;
+}) {
+  const [error, setError] = useState('');
+  const [pending, startTransition] = useTransition();
+
+  function handleClick() {
+    setError('');
+    startTransition(async () => {
+      const result = await authenticateWithPasskey(
+        startPasskeySignIn,
+        finishPasskeySignIn,
+        { redirect: redirect || '', priceId: priceId || '' }
+      );
+      if (result?.error) setError(result.error);
+    });
+  }
+
+  return (
+    <div className="mt-4">
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full flex justify-center items-center py-2 px-4 rounded-full text-sm font-medium"
+        onClick={handleClick}
+        disabled={pending}
+      >
+        {pending ? (
+          <Loader2 className="animate-spin mr-2 h-4 w-4" />
+        ) : (
+          <Fingerprint className="mr-2 h-4 w-4" />
+        )}
+        Sign in with a passkey
+      </Button>
+      {error && <div className="mt-2 text-red-500 text-sm">{error}</div>}
+    </div>
+  );
+}
+
+export function Login({
+  mode = 'signin',
+  providers = []
+}: {
+  mode?: 'signin' | 'signup' | 'magic';
+  providers?: { id: string; name: string }[];
+}) {
   const searchParams = useSearchParams();
   const redirect = searchParams.get('redirect');
   const priceId = searchParams.get('priceId');
-  const inviteId = searchParams.get('inviteId');
+  const invite = searchParams.get('invite');
+  const join = searchParams.get('join');
+  const linkProvider = searchParams.get('link');
+  const providerError = searchParams.get('error') === 'oidc';
+  const unlock = searchParams.get('unlock');
   const [state, formAction, pending] = useActionState<ActionState, FormData>(
-    mode === 'signin' ? signIn : signUp,
+    mode === 'signin' ? signIn : mode === 'signup' ? signUp : requestMagicLink,
     { error: '' }
   );
+  const handoffQuery = `${redirect ? `?redirect=${redirect}` : ''}${
+    priceId ? `&priceId=${priceId}` : ''
+  }${invite ? `&invite=${encodeURIComponent(invite)}` : ''}${
+    join ? `&join=${encodeURIComponent(join)}` : ''
+  }`;
 
   return (
     <div className="min-h-[100dvh] flex flex-col justify-center py-12 px-4 sm:px-6 lg:px-8 bg-gray-50">
@@ -29,15 +94,45 @@ export function Login({ mode = 'signin' }: { mode?: 'signin' | 'signup' }) {
         <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
           {mode === 'signin'
             ? 'Sign in to your account'
-            : 'Create your account'}
+            : mode === 'signup'
+              ? 'Create your account'
+              : 'Sign in with a magic link'}
         </h2>
       </div>
 
       <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        {linkProvider && (
+          <p className="mb-6 text-sm text-gray-600">
+            An account with this email already exists. Sign in to link your{' '}
+            {linkProvider} account to it.
+          </p>
+        )}
+        {invite && mode !== 'magic' && (
+          <p className="mb-6 text-sm text-gray-600">
+            Use the email address the invitation was sent to. You'll join the
+            team once you're in.
+          </p>
+        )}
+        {unlock === 'done' && (
+          <p className="mb-6 text-green-600 text-sm">
+            Your account is unlocked. You can sign in now.
+          </p>
+        )}
+        {unlock === 'invalid' && (
+          <p className="mb-6 text-red-500 text-sm">
+            This unlock link is invalid or has expired.
+          </p>
+        )}
+        {providerError && (
+          <p className="mb-6 text-red-500 text-sm">
+            We couldn't sign you in with that provider. Please try again.
+          </p>
+        )}
         <form className="space-y-6" action={formAction}>
           <input type="hidden" name="redirect" value={redirect || ''} />
           <input type="hidden" name="priceId" value={priceId || ''} />
-          <input type="hidden" name="inviteId" value={inviteId || ''} />
+          <input type="hidden" name="invite" value={invite || ''} />
+          <input type="hidden" name="join" value={join || ''} />
           <div>
             <Label
               htmlFor="email"
@@ -60,34 +155,55 @@ export function Login({ mode = 'signin' }: { mode?: 'signin' | 'signup' }) {
             </div>
           </div>
 
-          <div>
-            <Label
-              htmlFor="password"
-              className="block text-sm font-medium text-gray-700"
-            >
-              Password
-            </Label>
-            <div className="mt-1">
-              <Input
-                id="password"
-                name="password"
-                type="password"
-                autoComplete={
-                  mode === 'signin' ? 'current-password' : 'new-password'
-                }
-                defaultValue={state.password}
-                required
-                minLength={8}
-                maxLength={100}
-                className="appearance-none rounded-full relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-orange-500 focus:border-orange-500 focus:z-10 sm:text-sm"
-                placeholder="Enter your password"
-              />
+          {mode !== 'magic' && (
+            <div>
+              <Label
+                htmlFor="password"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Password
+              </Label>
+              <div className="mt-1">
+                <Input
+                  id="password"
+                  name="password"
+                  type="password"
+                  autoComplete={
+                    mode === 'signin' ? 'current-password' : 'new-password'
+                  }
+                  required
+                  minLength={8}
+                  maxLength={100}
+                  className="appearance-none rounded-full relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-orange-500 focus:border-orange-500 focus:z-10 sm:text-sm"
+                  placeholder="Enter your password"
+                />
+              </div>
             </div>
-          </div>
+          )}
+
+          {mode === 'signin' && (
+            <div className="flex justify-between text-sm">
+              <Link
+                href={`/magic-link${handoffQuery}`}
+                className="text-orange-600 hover:text-orange-700"
+              >
+                Email me a sign-in link
+              </Link>
+              <Link
+                href="/forgot-password"
+                className="text-orange-600 hover:text-orange-700"
+              >
+                Forgot your password?
+              </Link>
+            </div>
+          )}
 
           {state?.error && (
             <div className="text-red-500 text-sm">{state.error}</div>
           )}
+          {state?.success && (
+            <div className="text-green-600 text-sm">{state.success}</div>
+          )}
 
           <div>
             <Button
@@ -102,13 +218,35 @@ export function Login({ mode = 'signin' }: { mode?: 'signin' | 'signup' }) {
                 </>
               ) : mode === 'signin' ? (
                 'Sign in'
-              ) : (
+              ) : mode === 'signup' ? (
                 'Sign up'
+              ) : (
+                'Email me a link'
               )}
             </Button>
           </div>
         </form>
 
+        {mode === 'signin' && (
+          <PasskeySignInButton redirect={redirect} priceId={priceId} />
+        )}
+
+        {mode !== 'magic' &&
+          providers.map((provider) => (
+            <div key={provider.id} className="mt-4">
+              <Button
+                variant="outline"
+                className="w-full flex justify-center items-center py-2 px-4 rounded-full text-sm font-medium"
+                asChild
+              >
+                <a href={`/api/auth/oidc/${provider.id}${handoffQuery}`}>
+                  {mode === 'signup' ? 'Sign up' : 'Sign in'} with{' '}
+                  {provider.name}
+                </a>
+              </Button>
+            </div>
+          ))}
+
         <div className="mt-6">
           <div className="relative">
             <div className="absolute inset-0 flex items-center">
@@ -116,23 +254,21 @@ export function Login({ mode = 'signin' }: { mode?: 'signin' | 'signup' }) {
             </div>
             <div className="relative flex justify-center text-sm">
               <span className="px-2 bg-gray-50 text-gray-500">
-                {mode === 'signin'
-                  ? 'New to our platform?'
-                  : 'Already have an account?'}
+                {mode === 'signup'
+                  ? 'Already have an account?'
+                  : 'New to our platform?'}
               </span>
             </div>
           </div>
 
           <div className="mt-6">
             <Link
-              href={`${mode === 'signin' ? '/sign-up' : '/sign-in'}${
-                redirect ? `?redirect=${redirect}` : ''
-              }${priceId ? `&priceId=${priceId}` : ''}`}
+              href={`${mode === 'signup' ? '/sign-in' : '/sign-up'}${handoffQuery}`}
               className="w-full flex justify-center py-2 px-4 border border-gray-300 rounded-full shadow-sm text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500"
             >
-              {mode === 'signin'
-                ? 'Create an account'
-                : 'Sign in to existing account'}
+              {mode === 'signup'
+                ? 'Sign in to existing account'
+                : 'Create an account'}
             </Link>
           </div>
         </div>
@@ -0,0 +1,61 @@
+'use client';
+
+import Link from 'next/link';
+import { useActionState } from 'react';
+import { Button } from '@/components/ui/button';
+import { CircleIcon, Loader2 } from 'lucide-react';
+import { signInWithMagicLink } from './actions';
+import { ActionState } from '@/lib/auth/middleware';
+
+export function MagicLinkConfirm({ token }: { token: string }) {
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(
+    signInWithMagicLink,
+    { error: '' }
+  );
+
+  return (
+    <div className="min-h-[100dvh] flex flex-col justify-center py-12 px-4 sm:px-6 lg:px-8 bg-gray-50">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="flex justify-center">
+          <CircleIcon className="h-12 w-12 text-orange-500" />
+        </div>
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+          Finish signing in
+        </h2>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        <form className="space-y-6" action={formAction}>
+          <input type="hidden" name="token" value={token} />
+
+          {state?.error && (
+            <div className="text-red-500 text-sm">
+              {state.error}{' '}
+              <Link
+                href="/magic-link"
+                className="text-orange-600 hover:text-orange-700"
+              >
+                Send a new link
+              </Link>
+            </div>
+          )}
+
+          <Button
+            type="submit"
+            className="w-full flex justify-center items-center py-2 px-4 border border-transparent rounded-full shadow-sm text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500"
+            disabled={pending || !token}
+          >
+            {pending ? (
+              <>
+                <Loader2 className="animate-spin mr-2 h-4 w-4" />
+                Signing in...
+              </>
+            ) : (
+              'Continue'
+            )}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
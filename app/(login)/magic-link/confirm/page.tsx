@@ -0,0 +1,11 @@
+import { MagicLinkConfirm } from '../../magic-link';
+
+export default async function MagicLinkConfirmPage({
+  searchParams
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+
+  return <MagicLinkConfirm token={token ?? ''} />;
+}
@@ -0,0 +1,10 @@
+import { Suspense } from 'react';
+import { Login } from '../login';
+
+export default function MagicLinkPage() {
+  return (
+    <Suspense>
+      <Login mode="magic" />
+    </Suspense>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import Link from 'next/link';
+import { useActionState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CircleIcon, Loader2 } from 'lucide-react';
+import { requestPasswordReset, resetPassword } from './actions';
+import { ActionState } from '@/lib/auth/middleware';
+
+const inputClassName =
+  'appearance-none rounded-full relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-orange-500 focus:border-orange-500 focus:z-10 sm:text-sm';
+
+const submitClassName =
+  'w-full flex justify-center items-center py-2 px-4 border border-transparent rounded-full shadow-sm text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500';
+
+function PasswordResetLayout({
+  title,
+  children
+}: {
+  title: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="min-h-[100dvh] flex flex-col justify-center py-12 px-4 sm:px-6 lg:px-8 bg-gray-50">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="flex justify-center">
+          <CircleIcon className="h-12 w-12 text-orange-500" />
+        </div>
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+          {title}
+        </h2>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        {children}
+
+        <div className="mt-6 text-center text-sm">
+          <Link href="/sign-in" className="text-gray-500 hover:text-gray-700">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function ForgotPassword() {
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(
+    requestPasswordReset,
+    { error: '' }
+  );
+
+  return (
+    <PasswordResetLayout title="Reset your password">
+      {state?.success ? (
+        <p className="text-green-600 text-sm text-center">{state.success}</p>
+      ) : (
+        <form className="space-y-6" action={formAction}>
+          <div>
+            <Label
+              htmlFor="email"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Email
+            </Label>
+            <div className="mt-1">
+              <Input
+                id="email"
+                name="email"
+                type="email"
+                autoComplete="email"
+                required
+                maxLength={50}
+                className={inputClassName}
+                placeholder="Enter your email"
+              />
+            </div>
+          </div>
+
+          {state?.error && (
+            <div className="text-red-500 text-sm">{state.error}</div>
+          )}
+
+          <Button type="submit" className={submitClassName} disabled={pending}>
+            {pending ? (
+              <>
+                <Loader2 className="animate-spin mr-2 h-4 w-4" />
+                Sending...
+              </>
+            ) : (
+              'Send reset link'
+            )}
+          </Button>
+        </form>
+      )}
+    </PasswordResetLayout>
+  );
+}
+
+export function ResetPassword({ token }: { token: string | null }) {
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(
+    resetPassword,
+    { error: '' }
+  );
+
+  if (!token) {
+    return (
+      <PasswordResetLayout title="Link expired">
+        <p className="text-sm text-gray-600 text-center">
+          This reset link is invalid or has already been used.{' '}
+          <Link
+            href="/forgot-password"
+            className="text-orange-600 hover:text-orange-700"
+          >
+            Request a new one
+          </Link>
+          .
+        </p>
+      </PasswordResetLayout>
+    );
+  }
+
+  return (
+    <PasswordResetLayout title="Choose a new password">
+      {state?.success ? (
+        <p className="text-green-600 text-sm text-center">{state.success}</p>
+      ) : (
+        <form className="space-y-6" action={formAction}>
+          <input type="hidden" name="token" value={token} />
+          <div>
+            <Label
+              htmlFor="new-password"
+              className="block text-sm font-medium text-gray-700"
+            >
+              New Password
+            </Label>
+            <div className="mt-1">
+              <Input
+                id="new-password"
+                name="newPassword"
+                type="password"
+                autoComplete="new-password"
+                required
+                minLength={8}
+                maxLength={100}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div>
+            <Label
+              htmlFor="confirm-password"
+              className="block text-sm font-medium text-gray-700"
+            >
+              Confirm New Password
+            </Label>
+            <div className="mt-1">
+              <Input
+                id="confirm-password"
+                name="confirmPassword"
+                type="password"
+                autoComplete="new-password"
+                required
+                minLength={8}
+                maxLength={100}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          {state?.error && (
+            <div className="text-red-500 text-sm">{state.error}</div>
+          )}
+
+          <Button type="submit" className={submitClassName} disabled={pending}>
+            {pending ? (
+              <>
+                <Loader2 className="animate-spin mr-2 h-4 w-4" />
+                Saving...
+              </>
+            ) : (
+              'Reset password'
+            )}
+          </Button>
+        </form>
+      )}
+    </PasswordResetLayout>
+  );
+}
@@ -0,0 +1,13 @@
+import { ResetPassword } from '../password-reset';
+import { findOneTimeToken } from '@/lib/auth/tokens';
+
+export default async function ResetPasswordPage({
+  searchParams
+}: {
+  searchParams: Promise<{ token?: string }>;
+}) {
+  const { token } = await searchParams;
+  const isValid = !!token && (await findOneTimeToken(token, 'password_reset'));
+
+  return <ResetPassword token={isValid ? token : null} />;
+}
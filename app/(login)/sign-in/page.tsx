@@ -1,10 +1,13 @@
 import { Suspense } from 'react';
 import { Login } from '../login';
+import { getOidcProviders } from '@/lib/auth/oidc';
 
 export default function SignInPage() {
+  const providers = getOidcProviders().map(({ id, name }) => ({ id, name }));
+
   return (
     <Suspense>
-      <Login mode="signin" />
+      <Login mode="signin" providers={providers} />
     </Suspense>
   );
 }
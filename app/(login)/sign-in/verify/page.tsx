@@ -0,0 +1,10 @@
+import { redirect } from 'next/navigation';
+import { TwoFactorChallenge } from '../../two-factor';
+import { getPendingMfa } from '@/lib/auth/session';
+
+export default async function VerifyTwoFactorPage() {
+  const pending = await getPendingMfa();
+  if (!pending) redirect('/sign-in');
+
+  return <TwoFactorChallenge methods={pending.methods} />;
+}
@@ -1,10 +1,13 @@
 import { Suspense } from 'react';
 import { Login } from '../login';
+import { getOidcProviders } from '@/lib/auth/oidc';
 
 export default function SignUpPage() {
+  const providers = getOidcProviders().map(({ id, name }) => ({ id, name }));
+
   return (
     <Suspense>
-      <Login mode="signup" />
+      <Login mode="signup" providers={providers} />
     </Suspense>
   );
 }
@@ -0,0 +1,133 @@
+'use client';
+
+import Link from 'next/link';
+import { useActionState, useState, useTransition } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CircleIcon, Fingerprint, Loader2 } from 'lucide-react';
+import {
+  finishPasskeySecondFactor,
+  startPasskeySecondFactor,
+  verifyTwoFactor
+} from './actions';
+import { ActionState } from '@/lib/auth/middleware';
+import { authenticateWithPasskey } from '@/lib/auth/passkey-client';
+import type { SecondFactor } from '@/lib/auth/session';
+
+export function TwoFactorChallenge({ methods }: { methods: SecondFactor[] }) {
+  const [state, formAction, pending] = useActionState<ActionState, FormData>(
+    verifyTwoFactor,
+    { error: '' }
+  );
+  const [passkeyError, setPasskeyError] = useState('');
+  const [passkeyPending, startPasskeyTransition] = useTransition();
+
+  function handlePasskey() {
+    setPasskeyError('');
+    startPasskeyTransition(async () => {
+      const result = await authenticateWithPasskey(
+        startPasskeySecondFactor,
+        finishPasskeySecondFactor
+      );
+      if (result?.error) setPasskeyError(result.error);
+    });
+  }
+
+  return (
+    <div className="min-h-[100dvh] flex flex-col justify-center py-12 px-4 sm:px-6 lg:px-8 bg-gray-50">
+      <div className="sm:mx-auto sm:w-full sm:max-w-md">
+        <div className="flex justify-center">
+          <CircleIcon className="h-12 w-12 text-orange-500" />
+        </div>
+        <h2 className="mt-6 text-center text-3xl font-extrabold text-gray-900">
+          Two-factor authentication
+        </h2>
+        <p className="mt-2 text-center text-sm text-gray-600">
+          {methods.includes('totp')
+            ? 'Enter the 6-digit code from your authenticator app, or one of your recovery codes.'
+            : 'Confirm it’s you with one of your passkeys.'}
+        </p>
+      </div>
+
+      <div className="mt-8 sm:mx-auto sm:w-full sm:max-w-md">
+        {methods.includes('passkey') && (
+          <div className="mb-6">
+            <Button
+              type="button"
+              variant="outline"
+              className="w-full flex justify-center items-center py-2 px-4 rounded-full text-sm font-medium"
+              onClick={handlePasskey}
+              disabled={passkeyPending}
+            >
+              {passkeyPending ? (
+                <Loader2 className="animate-spin mr-2 h-4 w-4" />
+              ) : (
+                <Fingerprint className="mr-2 h-4 w-4" />
+              )}
+              Use a passkey
+            </Button>
+            {passkeyError && (
+              <div className="mt-2 text-red-500 text-sm">{passkeyError}</div>
+            )}
+          </div>
+        )}
+
+        {methods.includes('totp') && (
+          <form className="space-y-6" action={formAction}>
+            <div>
+              <Label
+                htmlFor="code"
+                className="block text-sm font-medium text-gray-700"
+              >
+                Authentication code
+              </Label>
+              <div className="mt-1">
+                <Input
+                  id="code"
+                  name="code"
+                  type="text"
+                  inputMode="text"
+                  autoComplete="one-time-code"
+                  autoFocus
+                  required
+                  minLength={6}
+                  maxLength={20}
+                  className="appearance-none rounded-full relative block w-full px-3 py-2 border border-gray-300 placeholder-gray-500 text-gray-900 focus:outline-none focus:ring-orange-500 focus:border-orange-500 focus:z-10 sm:text-sm"
+                  placeholder="123456"
+                />
+              </div>
+            </div>
+
+            {state?.error && (
+              <div className="text-red-500 text-sm">{state.error}</div>
+            )}
+
+            <div>
+              <Button
+                type="submit"
+                className="w-full flex justify-center items-center py-2 px-4 border border-transparent rounded-full shadow-sm text-sm font-medium text-white bg-orange-600 hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-orange-500"
+                disabled={pending}
+              >
+                {pending ? (
+                  <>
+                    <Loader2 className="animate-spin mr-2 h-4 w-4" />
+                    Verifying...
+                  </>
+                ) : (
+                  'Verify'
+                )}
+              </Button>
+            </div>
+          </form>
+        )}
+
+        <div className="mt-6 text-center text-sm">
+          <Link href="/sign-in" className="text-gray-500 hover:text-gray-700">
+            Back to sign in
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
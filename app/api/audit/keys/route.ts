@@ -0,0 +1,9 @@
+import { NextResponse } from 'next/server';
+import { getAuditJwks } from '@/lib/audit/export';
+
+// Public key(s) that sign activity log exports, for auditors to pin.
+export async function GET() {
+  return NextResponse.json(await getAuditJwks(), {
+    headers: { 'Cache-Control': 'public, max-age=300' },
+  });
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { getPublicJwks } from '@/lib/auth/keys';
+
+// Lets other services verify session tokens signed with an EdDSA or ES256
+// key. Empty while only HS256 keys are configured.
+export async function GET() {
+  return NextResponse.json(await getPublicJwks(), {
+    headers: { 'Cache-Control': 'public, max-age=300' },
+  });
+}
@@ -0,0 +1,99 @@
+import { randomBytes } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { redirect } from 'next/navigation';
+import { hashPassword, setPendingMfa } from '@/lib/auth/session';
+import { completeSignIn, getSecondFactors } from '@/lib/auth/sign-in';
+import {
+  findIdentity,
+  getOidcProvider,
+  handleAuthorizationResponse,
+  linkIdentity,
+  setPendingIdentityLink,
+  touchIdentity
+} from '@/lib/auth/oidc';
+import {
+  createUserWithTeam,
+  getUser,
+  getUserByEmail,
+  getUserWithTeam
+} from '@/lib/db/queries';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const provider = getOidcProvider((await params).provider);
+  const signInError = new URL('/sign-in?error=oidc', request.url);
+  if (!provider) return NextResponse.redirect(signInError);
+
+  const result = await handleAuthorizationResponse(
+    provider,
+    request.nextUrl.searchParams
+  );
+  if (!result) return NextResponse.redirect(signInError);
+
+  const { flow, claims } = result;
+  const identity = await findIdentity(provider.id, claims.subject);
+
+  // 1️⃣ Linking from the Security page
+  if (flow.mode === 'link') {
+    const user = await getUser();
+    if (!user) return NextResponse.redirect(new URL('/sign-in', request.url));
+
+    const securityUrl = new URL('/dashboard/security', request.url);
+    if (identity && identity.userId !== user.id) {
+      securityUrl.searchParams.set('identity', 'in-use');
+    } else {
+      if (!identity) await linkIdentity(user.id, provider.id, claims);
+      securityUrl.searchParams.set('identity', 'linked');
+    }
+    return NextResponse.redirect(securityUrl);
+  }
+
+  // 2️⃣ Work out which user this identity signs in as
+  let userId: number;
+  if (identity && (await getUserWithTeam(identity.userId))?.user.deleted_at == null) {
+    userId = identity.userId;
+    await touchIdentity(identity.id);
+  } else if (identity) {
+    return NextResponse.redirect(signInError);
+  } else {
+    if (!claims.email) return NextResponse.redirect(signInError);
+
+    const existing = await getUserByEmail(claims.email);
+    if (existing) {
+      // Don't trust the IdP's word for it: the owner has to sign in the usual
+      // way first, and the identity is linked once they do.
+      await setPendingIdentityLink({
+        provider: provider.id,
+        subject: claims.subject,
+        email: claims.email,
+        userId: existing.id,
+      });
+      const signInUrl = new URL('/sign-in', request.url);
+      signInUrl.searchParams.set('link', provider.name);
+      return NextResponse.redirect(signInUrl);
+    }
+
+    // New here: create a user and team the way signUp does. The random
+    // password can be replaced later through "forgot password".
+    const { user } = await createUserWithTeam({
+      email: claims.email,
+      name: claims.name,
+      passwordHash: await hashPassword(randomBytes(32).toString('hex')),
+      emailVerified: claims.emailVerified,
+    });
+    await linkIdentity(user.id, provider.id, claims);
+    userId = user.id;
+  }
+
+  // 3️⃣ Second factors still apply to federated sign-in
+  const handoff = { redirect: flow.redirect, priceId: flow.priceId };
+  const methods = await getSecondFactors(userId);
+  if (methods.length > 0) {
+    await setPendingMfa(userId, methods, handoff);
+    redirect('/sign-in/verify');
+  }
+
+  return completeSignIn(userId, handoff);
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createAuthorizationUrl, getOidcProvider } from '@/lib/auth/oidc';
+import { getUser } from '@/lib/db/queries';
+
+// Starts the authorization code + PKCE flow. `?mode=link` (from the Security
+// page) attaches the identity to the signed-in user instead of signing in.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ provider: string }> }
+) {
+  const provider = getOidcProvider((await params).provider);
+  if (!provider) {
+    return NextResponse.redirect(new URL('/sign-in?error=oidc', request.url));
+  }
+
+  const searchParams = request.nextUrl.searchParams;
+  const mode = searchParams.get('mode') === 'link' ? 'link' : 'sign-in';
+  if (mode === 'link' && !(await getUser())) {
+    return NextResponse.redirect(new URL('/sign-in', request.url));
+  }
+
+  try {
+    const url = await createAuthorizationUrl(provider, {
+      mode,
+      redirect: searchParams.get('redirect') || undefined,
+      priceId: searchParams.get('priceId') || undefined,
+    });
+    return NextResponse.redirect(url);
+  } catch (err) {
+    console.error('Error starting OIDC sign-in:', err);
+    return NextResponse.redirect(new URL('/sign-in?error=oidc', request.url));
+  }
+}
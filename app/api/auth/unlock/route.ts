@@ -0,0 +1,12 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { unlockAccount } from '@/lib/auth/attempts';
+
+// Handles the link in the account-locked email.
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+  const signInUrl = new URL('/sign-in', request.url);
+
+  const unlocked = token ? await unlockAccount(token) : false;
+  signInUrl.searchParams.set('unlock', unlocked ? 'done' : 'invalid');
+  return NextResponse.redirect(signInUrl);
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { consumeOneTimeToken } from '@/lib/auth/tokens';
+import { joinVerifiedDomainTeam } from '@/lib/auth/domains';
+import { getSession, setActiveTeam } from '@/lib/auth/session';
+import {
+  changeUserEmail,
+  getUserByEmail,
+  getUserWithTeam,
+  markEmailVerified
+} from '@/lib/db/queries';
+
+// Handles the links sent by sign-up (email_verification) and by an email
+// change from the General settings page (email_change). A confirmed sign-up
+// address on a verified team domain also joins, or asks to join, that team.
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+  const settingsUrl = new URL('/dashboard/general', request.url);
+
+  if (!token) {
+    settingsUrl.searchParams.set('verification', 'invalid');
+    return NextResponse.redirect(settingsUrl);
+  }
+
+  const verification = await consumeOneTimeToken(token, 'email_verification');
+  if (verification) {
+    await markEmailVerified(verification.userId);
+
+    const uwt = await getUserWithTeam(verification.userId);
+    const joined =
+      uwt && (await joinVerifiedDomainTeam(uwt.user.id, uwt.user.email));
+    if (joined?.action === 'joined') {
+      const session = await getSession().catch(() => null);
+      if (session && session.user.id === uwt!.user.id) {
+        await setActiveTeam(session.sid, joined.teamId);
+      }
+      return NextResponse.redirect(new URL('/dashboard', request.url));
+    }
+
+    settingsUrl.searchParams.set(
+      'verification',
+      joined ? 'join-requested' : 'verified'
+    );
+    return NextResponse.redirect(settingsUrl);
+  }
+
+  const change = await consumeOneTimeToken(token, 'email_change');
+  if (change?.data?.email) {
+    const taken = await getUserByEmail(change.data.email);
+    if (taken && taken.id !== change.userId) {
+      settingsUrl.searchParams.set('verification', 'email-taken');
+      return NextResponse.redirect(settingsUrl);
+    }
+
+    await changeUserEmail(change.userId, change.data.email);
+    settingsUrl.searchParams.set('verification', 'email-changed');
+    return NextResponse.redirect(settingsUrl);
+  }
+
+  settingsUrl.searchParams.set('verification', 'invalid');
+  return NextResponse.redirect(settingsUrl);
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/auth/cron';
+import { applyRetentionPolicies } from '@/lib/audit/retention';
+
+// Applies every team's activity log retention policy. Meant for a scheduler
+// (see vercel.json), which calls it with `Authorization: Bearer $CRON_SECRET`;
+// add `?dryRun=1` to see what a run would do without changing anything.
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const dryRun = ['1', 'true'].includes(
+    request.nextUrl.searchParams.get('dryRun') ?? ''
+  );
+  const result = await applyRetentionPolicies({ dryRun });
+  return NextResponse.json(
+    { dryRun, ...result },
+    { status: result.failed.length > 0 ? 500 : 200 }
+  );
+}
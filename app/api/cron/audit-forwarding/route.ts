@@ -0,0 +1,14 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isCronRequest } from '@/lib/auth/cron';
+import { retryAuditForwarding } from '@/lib/audit/forward';
+
+// Resends the activity events a SIEM sink didn't take the first time; see
+// lib/audit/forward.ts. Scheduled in vercel.json and authorized with
+// `Authorization: Bearer $CRON_SECRET`, like the retention job.
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return NextResponse.json(await retryAuditForwarding());
+}
@@ -0,0 +1,130 @@
+import {
+  isRecord,
+  readPatchOperations,
+  readScimBody,
+  scimError,
+  scimJson,
+  withScimAuth
+} from '@/lib/scim/protocol';
+import {
+  deleteScimGroup,
+  getScimGroup,
+  readMemberIds,
+  readMemberPath,
+  toScimGroup,
+  updateScimGroupMembers,
+  withoutExcludedMembers
+} from '@/lib/scim/groups';
+
+type Context = { params: Promise<{ id: string }> };
+
+async function readGroupName({ params }: Context) {
+  return decodeURIComponent((await params).id);
+}
+
+export const GET = withScimAuth<Context>(async (request, teamId, context) => {
+  const group = await getScimGroup(teamId, await readGroupName(context));
+  if (!group) return scimError(404, 'Group not found.');
+
+  return scimJson(withoutExcludedMembers(request, toScimGroup(group)));
+});
+
+// Roles are renamed in the dashboard, so displayName can't change here.
+function renames(name: string, displayName: unknown) {
+  return (
+    typeof displayName === 'string' &&
+    displayName.trim().toLowerCase() !== name
+  );
+}
+
+// PUT replaces the member list.
+export const PUT = withScimAuth<Context>(async (request, teamId, context) => {
+  const name = await readGroupName(context);
+  const group = await getScimGroup(teamId, name);
+  if (!group) return scimError(404, 'Group not found.');
+
+  const body = await readScimBody(request);
+  if (renames(name, body?.displayName)) {
+    return scimError(400, 'Groups cannot be renamed.', 'mutability');
+  }
+  const memberIds = readMemberIds(body?.members);
+  if (!memberIds) return scimError(400, 'Invalid members.', 'invalidValue');
+
+  const result = await updateScimGroupMembers(teamId, name, {
+    add: memberIds,
+    remove: group.members
+      .map((member) => member.userId)
+      .filter((userId) => !memberIds.includes(userId)),
+  });
+  if ('error' in result) {
+    return scimError(result.status, result.error, result.scimType);
+  }
+  return scimJson(toScimGroup(result.group));
+});
+
+export const PATCH = withScimAuth<Context>(async (request, teamId, context) => {
+  const name = await readGroupName(context);
+  const group = await getScimGroup(teamId, name);
+  if (!group) return scimError(404, 'Group not found.');
+
+  const patch = readPatchOperations(await readScimBody(request));
+  if ('error' in patch) return scimError(400, patch.error, 'invalidSyntax');
+
+  const add: number[] = [];
+  const remove: number[] = [];
+  for (const operation of patch.operations) {
+    const path = operation.path?.trim() ?? null;
+    const memberPath = path && readMemberPath(path);
+
+    if (memberPath && operation.op === 'remove') {
+      remove.push(memberPath);
+    } else if (path?.toLowerCase() === 'members' || path === null) {
+      const value =
+        path === null ? operation.value : { members: operation.value };
+      const fields = isRecord(value) ? value : {};
+      if (path === null && renames(name, fields.displayName)) {
+        return scimError(400, 'Groups cannot be renamed.', 'mutability');
+      }
+      if (operation.op === 'remove' && fields.members === undefined) {
+        remove.push(...group.members.map((member) => member.userId));
+        continue;
+      }
+      if (fields.members === undefined) continue;
+
+      const ids = readMemberIds(fields.members);
+      if (!ids) return scimError(400, 'Invalid members.', 'invalidValue');
+      if (operation.op === 'remove') {
+        remove.push(...ids);
+      } else {
+        add.push(...ids);
+        if (operation.op === 'replace') {
+          remove.push(
+            ...group.members
+              .map((member) => member.userId)
+              .filter((userId) => !ids.includes(userId))
+          );
+        }
+      }
+    } else if (path.toLowerCase() === 'displayname') {
+      if (renames(name, operation.value)) {
+        return scimError(400, 'Groups cannot be renamed.', 'mutability');
+      }
+    } else {
+      return scimError(400, `Unsupported path "${path}".`, 'invalidPath');
+    }
+  }
+
+  const result = await updateScimGroupMembers(teamId, name, { add, remove });
+  if ('error' in result) {
+    return scimError(result.status, result.error, result.scimType);
+  }
+  return scimJson(toScimGroup(result.group));
+});
+
+export const DELETE = withScimAuth<Context>(async (_, teamId, context) => {
+  const result = await deleteScimGroup(teamId, await readGroupName(context));
+  if ('error' in result) {
+    return scimError(result.status, result.error, result.scimType);
+  }
+  return new Response(null, { status: 204 });
+});
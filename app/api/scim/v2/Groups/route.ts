@@ -0,0 +1,59 @@
+import {
+  applyFilter,
+  listResponse,
+  paginate,
+  readPagination,
+  readScimBody,
+  scimError,
+  scimJson,
+  withScimAuth
+} from '@/lib/scim/protocol';
+import {
+  createScimGroup,
+  listScimGroups,
+  readMemberIds,
+  toScimGroup,
+  updateScimGroupMembers,
+  withoutExcludedMembers
+} from '@/lib/scim/groups';
+
+export const GET = withScimAuth(async (request, teamId) => {
+  const groups = (await listScimGroups(teamId)).map(toScimGroup);
+  const filtered = applyFilter(request, groups);
+  if ('error' in filtered) return scimError(400, filtered.error, 'invalidFilter');
+
+  const page = readPagination(request);
+  return listResponse(
+    paginate(filtered.resources, page).map((group) =>
+      withoutExcludedMembers(request, group)
+    ),
+    filtered.resources.length,
+    page.startIndex
+  );
+});
+
+export const POST = withScimAuth(async (request, teamId) => {
+  const body = await readScimBody(request);
+  if (typeof body?.displayName !== 'string') {
+    return scimError(400, 'displayName is required.', 'invalidValue');
+  }
+  const memberIds = readMemberIds(body.members);
+  if (!memberIds) return scimError(400, 'Invalid members.', 'invalidValue');
+
+  const created = await createScimGroup(teamId, body.displayName);
+  if ('error' in created) {
+    return scimError(created.status, created.error, created.scimType);
+  }
+  const result = await updateScimGroupMembers(teamId, created.group.name, {
+    add: memberIds,
+    remove: [],
+  });
+  if ('error' in result) {
+    return scimError(result.status, result.error, result.scimType);
+  }
+
+  const group = toScimGroup(result.group);
+  const response = scimJson(group, 201);
+  response.headers.set('Location', group.meta.location);
+  return response;
+});
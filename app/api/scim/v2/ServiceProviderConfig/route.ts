@@ -0,0 +1,21 @@
+import { SCHEMAS, MAX_PAGE_SIZE, scimJson, withScimAuth } from '@/lib/scim/protocol';
+
+export const GET = withScimAuth(async () =>
+  scimJson({
+    schemas: [SCHEMAS.serviceProviderConfig],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: MAX_PAGE_SIZE },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [
+      {
+        type: 'oauthbearertoken',
+        name: 'Bearer token',
+        description: 'A team API token with the scim:provision scope.',
+        primary: true,
+      },
+    ],
+  })
+);
@@ -0,0 +1,77 @@
+import {
+  readPatchOperations,
+  readScimBody,
+  scimError,
+  scimJson,
+  withScimAuth
+} from '@/lib/scim/protocol';
+import {
+  deleteScimUser,
+  getScimUser,
+  readScimUser,
+  readUserPatch,
+  toScimUser,
+  updateScimUser,
+  type ScimFailure,
+  type ScimUserRecord
+} from '@/lib/scim/users';
+
+type Context = { params: Promise<{ id: string }> };
+
+async function readUserId({ params }: Context) {
+  const userId = Number((await params).id);
+  return Number.isInteger(userId) ? userId : null;
+}
+
+function respond(result: { user: ScimUserRecord } | ScimFailure) {
+  if ('error' in result) {
+    return scimError(result.status, result.error, result.scimType);
+  }
+  return scimJson(toScimUser(result.user));
+}
+
+export const GET = withScimAuth<Context>(async (_, teamId, context) => {
+  const userId = await readUserId(context);
+  const user = userId && (await getScimUser(teamId, userId));
+  if (!user) return scimError(404, 'User not found.');
+
+  return scimJson(toScimUser(user));
+});
+
+// PUT replaces the user; attributes left out return to their defaults.
+export const PUT = withScimAuth<Context>(async (request, teamId, context) => {
+  const userId = await readUserId(context);
+  if (!userId) return scimError(404, 'User not found.');
+
+  const input = readScimUser(await readScimBody(request));
+  if ('error' in input) {
+    return scimError(input.status, input.error, input.scimType);
+  }
+
+  return respond(await updateScimUser(teamId, userId, input.input));
+});
+
+export const PATCH = withScimAuth<Context>(async (request, teamId, context) => {
+  const userId = await readUserId(context);
+  if (!userId) return scimError(404, 'User not found.');
+
+  const patch = readPatchOperations(await readScimBody(request));
+  if ('error' in patch) return scimError(400, patch.error, 'invalidSyntax');
+  const changes = readUserPatch(patch.operations);
+  if ('error' in changes) {
+    return scimError(changes.status, changes.error, changes.scimType);
+  }
+
+  return respond(await updateScimUser(teamId, userId, changes.changes));
+});
+
+export const DELETE = withScimAuth<Context>(async (_, teamId, context) => {
+  const userId = await readUserId(context);
+  if (!userId) return scimError(404, 'User not found.');
+
+  const result = await deleteScimUser(teamId, userId);
+  if ('error' in result) {
+    return scimError(result.status, result.error, result.scimType);
+  }
+  return new Response(null, { status: 204 });
+});
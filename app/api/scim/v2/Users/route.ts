@@ -0,0 +1,46 @@
+import {
+  applyFilter,
+  listResponse,
+  paginate,
+  readPagination,
+  readScimBody,
+  scimError,
+  scimJson,
+  withScimAuth
+} from '@/lib/scim/protocol';
+import {
+  createScimUser,
+  listScimUsers,
+  readScimUser,
+  toScimUser
+} from '@/lib/scim/users';
+
+export const GET = withScimAuth(async (request, teamId) => {
+  const users = (await listScimUsers(teamId)).map(toScimUser);
+  const filtered = applyFilter(request, users);
+  if ('error' in filtered) return scimError(400, filtered.error, 'invalidFilter');
+
+  const page = readPagination(request);
+  return listResponse(
+    paginate(filtered.resources, page),
+    filtered.resources.length,
+    page.startIndex
+  );
+});
+
+export const POST = withScimAuth(async (request, teamId, _, token) => {
+  const input = readScimUser(await readScimBody(request));
+  if ('error' in input) {
+    return scimError(input.status, input.error, input.scimType);
+  }
+
+  const result = await createScimUser(teamId, input.input, token.createdBy);
+  if ('error' in result) {
+    return scimError(result.status, result.error, result.scimType);
+  }
+
+  const user = toScimUser(result.user);
+  const response = scimJson(user, 201);
+  response.headers.set('Location', user.meta.location);
+  return response;
+});
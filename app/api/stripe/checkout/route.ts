@@ -3,7 +3,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import Stripe from 'stripe';
 import { stripe } from '@/lib/payments/stripe';
 import { supabase } from '@/lib/supabaseClient';
-import { setSession } from '@/lib/auth/session';
+import { getSession, setActiveTeam } from '@/lib/auth/session';
+import { getTeamRole, getUser } from '@/lib/db/queries';
 
 export async function GET(request: NextRequest) {
     const sessionId = request.nextUrl.searchParams.get('session_id');
@@ -51,14 +52,10 @@ export async function GET(request: NextRequest) {
             throw new Error('User not found in database.');
         }
 
-        // 4️⃣ Find that user's team
-        const { data: membership, error: memErr } = await supabase
-            .from('teamMembers')
-            .select('teamId')
-            .eq('userId', user.id)
-            .single();
-        if (memErr || !membership) {
-            throw new Error('User is not associated with a team.');
+        // 4️⃣ Find the team that started checkout (the user must still belong to it)
+        const teamId = Number(session.metadata?.team_id);
+        if (!teamId || !(await getTeamRole(user.id, teamId))) {
+            throw new Error('User is not associated with the subscribing team.');
         }
 
         // 5️⃣ Update the team row in Supabase
@@ -72,14 +69,21 @@ export async function GET(request: NextRequest) {
                 subscriptionStatus: subscription.status,
                 updatedAt: new Date().toISOString(),
             })
-            .eq('id', membership.teamId);
+            .eq('id', teamId);
         if (updErr) {
             console.error('Failed to update team in Supabase:', updErr);
             throw new Error('Failed to update subscription info.');
         }
 
-        // 6️⃣ Re‐issue your own session cookie (if needed)
-        await setSession(user);
+        // 6️⃣ Switch the user's own session to the team. Holding the
+        // session_id proves nothing about who you are, so this never signs
+        // anyone in: a different (or no) user is sent to sign in.
+        const signedIn = await getUser();
+        const current = await getSession();
+        if (signedIn?.id !== user.id || !current) {
+            return NextResponse.redirect(new URL('/sign-in', request.url));
+        }
+        await setActiveTeam(current.sid, teamId);
 
         // 7️⃣ Redirect back into your app
         return NextResponse.redirect(new URL('/dashboard', request.url));
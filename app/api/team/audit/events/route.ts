@@ -0,0 +1,82 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/auth/middleware';
+import { getTeamActivityLogs } from '@/lib/db/queries';
+import { auditSearchSchema, toActivityLogFilters } from '@/lib/audit/filters';
+import {
+  AUDIT_CSV_COLUMNS,
+  toAuditEvent,
+  toCsvLine,
+  toNdjsonLine,
+  type AuditExportFormat,
+} from '@/lib/audit/events';
+
+const EXPORT_PAGE_SIZE = 500;
+
+const CONTENT_TYPES: Record<AuditExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson',
+};
+
+// The team's log, newest first, with the activity page's filters. Pages are
+// read as the client consumes the stream, so a large range never sits in
+// memory and a slow download slows the reads down with it.
+export const GET = withApiAuth(
+  ['audit:read'],
+  async (request, principal) => {
+    // Checked by withApiAuth along with the permission.
+    const teamId = principal.teamId!;
+
+    const params = request.nextUrl.searchParams;
+    const format = params.get('format') ?? 'ndjson';
+    if (format !== 'csv' && format !== 'ndjson') {
+      return NextResponse.json(
+        { error: 'format must be csv or ndjson' },
+        { status: 400 }
+      );
+    }
+    const search = auditSearchSchema.parse(Object.fromEntries(params));
+    const filters = toActivityLogFilters(search);
+    const toLine = format === 'csv' ? toCsvLine : toNdjsonLine;
+
+    const encoder = new TextEncoder();
+    let cursor = search.cursor;
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (format === 'csv') {
+          controller.enqueue(encoder.encode(`${AUDIT_CSV_COLUMNS.join(',')}\r\n`));
+        }
+      },
+      async pull(controller) {
+        try {
+          const page = await getTeamActivityLogs(
+            teamId,
+            filters,
+            cursor,
+            EXPORT_PAGE_SIZE
+          );
+          const lines = page.logs.map((log) => toLine(toAuditEvent(log)));
+          if (lines.length > 0) controller.enqueue(encoder.encode(lines.join('')));
+
+          if (page.nextCursor) {
+            cursor = page.nextCursor;
+          } else {
+            controller.close();
+          }
+        } catch (error) {
+          console.error('Audit export failed:', error);
+          controller.error(error);
+        }
+      },
+    });
+
+    const date = new Date().toISOString().slice(0, 10);
+    return new Response(stream, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="activity-team-${teamId}-${date}.${format}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  },
+  { permission: 'audit.read' }
+);
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/auth/middleware';
+import { exportActivityChain } from '@/lib/audit/export';
+
+export const GET = withApiAuth(
+  ['audit:read'],
+  async (_, principal) => {
+    // Checked by withApiAuth along with the permission.
+    const teamId = principal.teamId!;
+    const exported = await exportActivityChain(teamId);
+    if (!exported) {
+      return NextResponse.json(
+        { error: 'Signed exports are not configured' },
+        { status: 503 }
+      );
+    }
+
+    const date = exported.statement.exportedAt.slice(0, 10);
+    return NextResponse.json(exported, {
+      headers: {
+        'Content-Disposition': `attachment; filename="activity-chain-team-${teamId}-${date}.json"`,
+      },
+    });
+  },
+  { permission: 'audit.read' }
+);
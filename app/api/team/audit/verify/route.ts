@@ -0,0 +1,13 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/auth/middleware';
+import { verifyActivityChain } from '@/lib/audit/seal';
+
+export const GET = withApiAuth(
+  ['audit:read'],
+  async (_, principal) => {
+    // Checked by withApiAuth along with the permission.
+    const teamId = principal.teamId!;
+    return NextResponse.json(await verifyActivityChain(teamId));
+  },
+  { permission: 'audit.read' }
+);
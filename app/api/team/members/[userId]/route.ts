@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { getApiActor, withApiAuth } from '@/lib/auth/middleware';
+import { canManageMember, getGrantor } from '@/lib/auth/permissions';
+import {
+  getTeamRole,
+  isLastOwner,
+  logActivity,
+  removeTeamMembership
+} from '@/lib/db/queries';
+import { ActivityType } from '@/lib/db/schema';
+import { syncSubscriptionSeats } from '@/lib/payments/stripe';
+
+type Context = { params: Promise<{ userId: string }> };
+
+export const DELETE = withApiAuth<Context>(
+  ['members:write'],
+  async (_, principal, { params }) => {
+    // Checked by withApiAuth along with the permission.
+    const teamId = principal.teamId!;
+    const userId = Number((await params).userId);
+    if (!Number.isInteger(userId)) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    const role = await getTeamRole(userId, teamId);
+    if (!role) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+    // As in the dashboard, the caller (for a team token, its creator) must
+    // hold everything the member's role does; only owners remove owners.
+    const grantor = await getGrantor(getApiActor(principal)!, teamId);
+    if (!(await canManageMember(grantor, teamId, role))) {
+      return NextResponse.json(
+        { error: 'Cannot remove a member with permissions you lack' },
+        { status: 403 }
+      );
+    }
+
+    if (await isLastOwner(teamId, userId)) {
+      return NextResponse.json(
+        { error: 'A team needs at least one owner' },
+        { status: 409 }
+      );
+    }
+
+    if (!(await removeTeamMembership(teamId, userId))) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+    await syncSubscriptionSeats(teamId);
+
+    // Team tokens act for nobody in particular; the entry names the token.
+    await logActivity(
+      teamId,
+      principal.userId,
+      ActivityType.REMOVE_TEAM_MEMBER,
+      {
+        actorType: principal.via === 'token' ? 'api_token' : 'user',
+        target: { type: 'user', id: userId },
+        metadata: principal.tokenId ? { tokenId: principal.tokenId } : undefined,
+      }
+    );
+    return new NextResponse(null, { status: 204 });
+  },
+  { permission: 'members.remove' }
+);
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { withApiAuth } from '@/lib/auth/middleware';
+import { getTeamWithMembers } from '@/lib/db/queries';
+
+export const GET = withApiAuth(['team:read'], async (_, principal) => {
+  const team = principal.teamId && (await getTeamWithMembers(principal.teamId));
+  if (!team) {
+    return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    id: team.id,
+    name: team.name,
+    memberCount: team.members.length,
+  });
+});
@@ -2,7 +2,8 @@ import './globals.css';
 import type { Metadata, Viewport } from 'next';
 import { Manrope } from 'next/font/google';
 import { UserProvider } from '@/lib/auth';
-import { getUser } from '@/lib/db/queries';
+import { getCurrentUserTeams, getUser } from '@/lib/db/queries';
+import { ImpersonationBanner } from '@/components/impersonation-banner';
 
 export const metadata: Metadata = {
   title: 'Next.js SaaS Starter',
@@ -21,6 +22,7 @@ export default function RootLayout({
   children: React.ReactNode;
 }) {
   let userPromise = getUser();
+  let teamsPromise = getCurrentUserTeams();
 
   return (
     <html
@@ -28,7 +30,10 @@ export default function RootLayout({
       className={`bg-white dark:bg-gray-950 text-black dark:text-white ${manrope.className}`}
     >
       <body className="min-h-[100dvh] bg-gray-50">
-        <UserProvider userPromise={userPromise}>{children}</UserProvider>
+        <ImpersonationBanner />
+        <UserProvider userPromise={userPromise} teamsPromise={teamsPromise}>
+          {children}
+        </UserProvider>
       </body>
     </html>
   );
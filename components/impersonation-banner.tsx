@@ -0,0 +1,30 @@
+import { getImpersonation } from '@/lib/auth/impersonation';
+import { stopImpersonating } from '@/app/(login)/actions';
+
+// Shown on every page while a superadmin is impersonating someone.
+export async function ImpersonationBanner() {
+  const impersonation = await getImpersonation();
+  if (!impersonation) return null;
+
+  const expires = new Date(impersonation.expires).toLocaleTimeString([], {
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  return (
+    <div className="sticky top-0 z-50 bg-red-600 text-white text-sm">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-2 flex items-center justify-between">
+        <span>
+          {impersonation.impersonator.email} is viewing as{' '}
+          <strong>{impersonation.user.email}</strong>. Changes to the password,
+          two-factor and account are disabled. Ends at {expires}.
+        </span>
+        <form action={stopImpersonating}>
+          <button type="submit" className="underline font-medium">
+            End impersonation
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+}
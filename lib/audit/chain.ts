@@ -0,0 +1,148 @@
+// Each team's activity log is a hash chain: entry n stores the hash of entry
+// n - 1 and its own hash over both. Editing an entry changes its hash, and
+// deleting one leaves a gap in `seq` or a `prevHash` that points nowhere, so
+// either shows up as the first broken link. Nothing here touches the
+// database, so the same code checks a signed export offline. Hashing uses Web
+// Crypto, since entries are also logged from the Edge middleware.
+//
+// Two things let the retention job change old entries without breaking the
+// chain. The hash covers a salted digest of the IP address rather than the
+// address, so the address can later be truncated and its salt dropped; until
+// then the digest is checked against it. And purged entries are replaced by
+// a checkpoint, the seq and hash of the last one removed, which the job
+// records in its own entry further down the chain; verification starts from
+// there.
+export type ChainedEntry = {
+  id: number;
+  teamId: number;
+  seq: number;
+  prevHash: string | null;
+  hash: string;
+  userId: number | null;
+  actorType: string;
+  action: string;
+  timestamp: string;
+  targetType: string | null;
+  targetId: string | null;
+  targetLabel: string | null;
+  metadata: unknown;
+  ipAddress: string | null;
+  ipSalt: string | null;
+  ipDigest: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+};
+
+export type ChainCheckpoint = {
+  seq: number;
+  hash: string;
+};
+
+export type ChainBreak = {
+  seq: number;
+  id: number | null;
+  reason: 'missing' | 'relinked' | 'altered';
+};
+
+export type ChainVerification =
+  | { valid: true; entries: number; head: string | null }
+  | { valid: false; entries: number; firstBreak: ChainBreak };
+
+// JSON with object keys sorted at every level, so a row hashes the same
+// however the database happened to order its jsonb.
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => canonicalJson(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const fields = Object.keys(value)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${canonicalJson(
+            (value as Record<string, unknown>)[key]
+          )}`
+      );
+    return `{${fields.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export async function sha256(input: string) {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(input)
+  );
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+}
+
+function randomHex(bytes: number) {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), (byte) =>
+    byte.toString(16).padStart(2, '0')
+  ).join('');
+}
+
+export function digestIp(salt: string, ipAddress: string) {
+  return sha256(`${salt}:${ipAddress}`);
+}
+
+// The IP columns of a new entry. Without the salt the digest can't be turned
+// back into an address, even by trying every one in a known range.
+export async function commitIp(ipAddress: string | null) {
+  if (!ipAddress) return { ipSalt: null, ipDigest: null };
+  const ipSalt = randomHex(16);
+  return { ipSalt, ipDigest: await digestIp(ipSalt, ipAddress) };
+}
+
+// The hash covers every column, the link to the previous entry included,
+// except that an IP address counts through its digest. Entries sealed before
+// digests existed have none and count their address as it is.
+export async function hashEntry({
+  hash: _,
+  ipSalt: __,
+  ipDigest,
+  ipAddress,
+  ...content
+}: Omit<ChainedEntry, 'hash'> & { hash?: string }) {
+  return sha256(canonicalJson({ ...content, ipAddress: ipDigest ?? ipAddress }));
+}
+
+// Walks entries in `seq` order from `seq` 1, or from just after a checkpoint,
+// and reports the first that was altered, relinked, or follows a gap where
+// entries were deleted. Entries removed from the end leave no gap; a signed
+// export records the head, so compare against the latest one.
+export async function verifyEntries(
+  entries: ChainedEntry[],
+  checkpoint: ChainCheckpoint | null = null
+): Promise<ChainVerification> {
+  let previous: ChainCheckpoint | null = checkpoint;
+
+  for (const [index, entry] of entries.entries()) {
+    const expectedSeq = (previous?.seq ?? 0) + 1;
+    const fail = (firstBreak: ChainBreak): ChainVerification => ({
+      valid: false,
+      entries: index,
+      firstBreak,
+    });
+
+    if (entry.seq !== expectedSeq) {
+      return fail({ seq: expectedSeq, id: null, reason: 'missing' });
+    }
+    if (entry.prevHash !== (previous?.hash ?? null)) {
+      return fail({ seq: entry.seq, id: entry.id, reason: 'relinked' });
+    }
+    if (
+      (await hashEntry(entry)) !== entry.hash ||
+      (entry.ipSalt &&
+        (await digestIp(entry.ipSalt, entry.ipAddress ?? '')) !== entry.ipDigest)
+    ) {
+      return fail({ seq: entry.seq, id: entry.id, reason: 'altered' });
+    }
+    previous = entry;
+  }
+
+  return { valid: true, entries: entries.length, head: previous?.hash ?? null };
+}
@@ -0,0 +1,111 @@
+import type { ActivityLog } from '@/lib/db/queries';
+
+// An activity log entry as it leaves the app, whether in an export or sent
+// to a forwarding sink. Field names are stable; add, don't rename.
+export type AuditEvent = {
+  id: number;
+  teamId: number;
+  seq: number | null;
+  hash: string | null;
+  timestamp: string;
+  action: string;
+  actor: {
+    type: string;
+    id: number | null;
+    name: string | null;
+    email: string | null;
+  };
+  target: { type: string; id: string; label: string | null } | null;
+  metadata: Record<string, unknown> | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  requestId: string | null;
+};
+
+// Timestamps are stored without a zone, in UTC.
+function toIsoTimestamp(value: string) {
+  const zoned = /(Z|[+-]\d{2}:?\d{2})$/.test(value) ? value : `${value}Z`;
+  return new Date(zoned).toISOString();
+}
+
+export function toAuditEvent(log: ActivityLog): AuditEvent {
+  return {
+    id: log.id,
+    teamId: log.teamId,
+    seq: log.seq,
+    hash: log.hash,
+    timestamp: toIsoTimestamp(log.timestamp),
+    action: log.action,
+    actor: {
+      type: log.actorType,
+      id: log.actor?.id ?? null,
+      name: log.actor?.name ?? null,
+      email: log.actor?.email ?? null,
+    },
+    target: log.target,
+    metadata: log.metadata,
+    ipAddress: log.ipAddress,
+    userAgent: log.userAgent,
+    requestId: log.requestId,
+  };
+}
+
+//
+// Serialization
+//
+export type AuditExportFormat = 'csv' | 'ndjson';
+
+export const AUDIT_CSV_COLUMNS = [
+  'id',
+  'seq',
+  'timestamp',
+  'action',
+  'actor_type',
+  'actor_id',
+  'actor_name',
+  'actor_email',
+  'target_type',
+  'target_id',
+  'target_label',
+  'ip_address',
+  'user_agent',
+  'request_id',
+  'metadata',
+  'hash',
+] as const;
+
+// Quotes where needed, and defuses values a spreadsheet would run as a
+// formula; names and labels come from users.
+function csvField(value: unknown) {
+  if (value === null || value === undefined) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvLine(event: AuditEvent) {
+  return `${[
+    event.id,
+    event.seq,
+    event.timestamp,
+    event.action,
+    event.actor.type,
+    event.actor.id,
+    event.actor.name,
+    event.actor.email,
+    event.target?.type,
+    event.target?.id,
+    event.target?.label,
+    event.ipAddress,
+    event.userAgent,
+    event.requestId,
+    event.metadata,
+    event.hash,
+  ]
+    .map(csvField)
+    .join(',')}\r\n`;
+}
+
+export function toNdjsonLine(event: AuditEvent) {
+  return `${JSON.stringify(event)}\n`;
+}
@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { ActivityType } from '@/lib/db/schema';
+import type { ActivityLogFilters } from '@/lib/db/queries';
+
+// The audit log's filters as they appear in a URL: the activity page's form
+// and its export links share them.
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const ACTIVITY_TYPES = Object.values(ActivityType) as ActivityType[];
+
+// Bad values are dropped rather than reported; the form only produces good
+// ones, so anything else came from an edited URL.
+export const auditSearchSchema = z.object({
+  actor: z.coerce.number().int().positive().optional().catch(undefined),
+  action: z
+    .string()
+    .refine((value) => ACTIVITY_TYPES.includes(value as ActivityType))
+    .optional()
+    .catch(undefined),
+  from: z.string().regex(DATE).optional().catch(undefined),
+  to: z.string().regex(DATE).optional().catch(undefined),
+  ip: z.string().trim().max(45).optional().catch(undefined),
+  cursor: z.coerce.number().int().positive().optional().catch(undefined),
+});
+
+export type AuditSearch = z.infer<typeof auditSearchSchema>;
+
+export function toActivityLogFilters(search: AuditSearch): ActivityLogFilters {
+  return {
+    actorId: search.actor,
+    action: search.action as ActivityType | undefined,
+    from: search.from ? new Date(`${search.from}T00:00:00Z`) : undefined,
+    // The end date is inclusive.
+    to: search.to
+      ? new Date(Date.parse(`${search.to}T00:00:00Z`) + DAY_MS)
+      : undefined,
+    ip: search.ip || undefined,
+  };
+}
+
+export function auditSearchParams(search: AuditSearch) {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(search)) {
+    if (value) params.set(key, String(value));
+  }
+  return params;
+}
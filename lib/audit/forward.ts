@@ -0,0 +1,251 @@
+import { after } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import type { AuditEvent } from './events';
+
+// Forwards activity events to the sinks listed in AUDIT_SINKS, e.g. a SIEM:
+//
+//   AUDIT_SINKS='[
+//     {"type":"http","url":"https://siem.example.com/ingest","headers":{"Authorization":"Bearer ..."}},
+//     {"type":"syslog","host":"siem.example.com","transport":"tls"},
+//     {"type":"file","path":"/var/log/app/audit.ndjson"}
+//   ]'
+//
+// Each sink also takes `name`, `batchSize` and `maxAttempts`; see ./sinks for
+// the rest. Other types can be plugged in with
+// registerAuditSinkType('name', factory) at startup.
+//
+// logActivity hands each event to the sinks in `after()`, once the response
+// has been sent, so a slow or unreachable sink never holds up the action
+// being logged. Serverless instances are frozen or recycled between
+// requests, so nothing is retried in memory: an event a sink didn't take is
+// saved to `audit_outbox`, and /api/cron/audit-forwarding sends it again
+// with backoff. After `maxAttempts` it is dropped, and says so in the server
+// log; it is still in the database log, which the export can backfill.
+export interface AuditSink {
+  send(events: AuditEvent[]): Promise<void>;
+}
+
+export type AuditSinkConfig = {
+  type: string;
+  name?: string;
+  batchSize?: number;
+  maxAttempts?: number;
+  [option: string]: unknown;
+};
+
+export type AuditSinkFactory = (config: AuditSinkConfig) => AuditSink;
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_MAX_ATTEMPTS = 8;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+const MAX_RETRIES_PER_RUN = 1000;
+
+const sinkTypes = new Map<string, AuditSinkFactory>();
+
+export function registerAuditSinkType(type: string, factory: AuditSinkFactory) {
+  sinkTypes.set(type, factory);
+}
+
+type NamedSink = {
+  name: string;
+  sink: AuditSink;
+  batchSize: number;
+  maxAttempts: number;
+};
+
+// A minute, two, four... up to six hours, with jitter so sinks recovering
+// from an outage aren't hit by every retry at once.
+function backoffMs(attempt: number) {
+  const base = Math.min(MAX_BACKOFF_MS, 60_000 * 2 ** (attempt - 1));
+  return base / 2 + Math.random() * (base / 2);
+}
+
+async function loadSinks(): Promise<NamedSink[]> {
+  const configs: AuditSinkConfig[] = process.env.AUDIT_SINKS
+    ? JSON.parse(process.env.AUDIT_SINKS)
+    : [];
+
+  // The built-in sinks need Node's network and file APIs, so entries logged
+  // from the Edge middleware aren't forwarded.
+  if (configs.length === 0 || process.env.NEXT_RUNTIME !== 'nodejs') {
+    return [];
+  }
+
+  const { builtInSinkTypes } = await import('./sinks');
+  return configs.map((config, index) => {
+    const factory =
+      sinkTypes.get(config.type) ?? builtInSinkTypes.get(config.type);
+    if (!factory) {
+      throw new Error(`Unknown audit sink type "${config.type}"`);
+    }
+    return {
+      name: config.name ?? `${config.type}-${index}`,
+      sink: factory(config),
+      batchSize: config.batchSize ?? DEFAULT_BATCH_SIZE,
+      maxAttempts: config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    };
+  });
+}
+
+let sinks: Promise<NamedSink[]> | null = null;
+
+function getSinks() {
+  sinks ??= loadSinks();
+  return sinks;
+}
+
+function describeError(error: unknown) {
+  return error instanceof Error ? error.message : String(error);
+}
+
+async function saveForRetry(sink: NamedSink, event: AuditEvent, error: unknown) {
+  const { error: insertErr } = await supabaseAdmin.from('audit_outbox').insert({
+    sink: sink.name,
+    event,
+    attempts: 1,
+    next_attempt_at: new Date(Date.now() + backoffMs(1)).toISOString(),
+    last_error: describeError(error),
+  });
+  if (insertErr) {
+    console.error(
+      `Audit sink "${sink.name}" lost event ${event.id}; it couldn't be saved for retry:`,
+      insertErr
+    );
+  }
+}
+
+async function deliver(event: AuditEvent) {
+  const all = await getSinks();
+  await Promise.all(
+    all.map(async (sink) => {
+      try {
+        await sink.sink.send([event]);
+      } catch (error) {
+        await saveForRetry(sink, event, error);
+      }
+    })
+  );
+}
+
+// Sends the event to every sink once the response is out, and returns
+// straight away.
+export function forwardAuditEvent(event: AuditEvent) {
+  const delivery = deliver(event).catch((error) =>
+    console.error('AUDIT_SINKS is misconfigured:', error)
+  );
+  try {
+    after(delivery);
+  } catch {
+    // Outside a request (a script, the cron itself): the delivery is already
+    // under way and finishes on its own.
+  }
+}
+
+//
+// Retries
+//
+type OutboxRow = {
+  id: number;
+  sink: string;
+  event: AuditEvent;
+  attempts: number;
+};
+
+export type ForwardingRetryRun = {
+  delivered: number;
+  retrying: number;
+  dropped: number;
+};
+
+async function removeFromOutbox(rows: OutboxRow[]) {
+  const { error } = await supabaseAdmin
+    .from('audit_outbox')
+    .delete()
+    .in(
+      'id',
+      rows.map((row) => row.id)
+    );
+  if (error) throw error;
+}
+
+async function rescheduleOrDrop(
+  sink: NamedSink,
+  rows: OutboxRow[],
+  error: unknown
+) {
+  const expired = rows.filter((row) => row.attempts + 1 >= sink.maxAttempts);
+  if (expired.length > 0) {
+    console.error(
+      `Audit sink "${sink.name}" gave up on ${expired.length} events:`,
+      error
+    );
+    await removeFromOutbox(expired);
+  }
+
+  const retrying = rows.filter((row) => row.attempts + 1 < sink.maxAttempts);
+  await Promise.all(
+    retrying.map(async (row) => {
+      const { error: updateErr } = await supabaseAdmin
+        .from('audit_outbox')
+        .update({
+          attempts: row.attempts + 1,
+          next_attempt_at: new Date(
+            Date.now() + backoffMs(row.attempts + 1)
+          ).toISOString(),
+          last_error: describeError(error),
+        })
+        .eq('id', row.id);
+      if (updateErr) throw updateErr;
+    })
+  );
+
+  return { retrying: retrying.length, dropped: expired.length };
+}
+
+// Sends the events in `audit_outbox` that are due, a batch at a time per
+// sink. Events for a sink no longer in AUDIT_SINKS are dropped.
+export async function retryAuditForwarding(): Promise<ForwardingRetryRun> {
+  const run: ForwardingRetryRun = { delivered: 0, retrying: 0, dropped: 0 };
+  const { data, error } = await supabaseAdmin
+    .from('audit_outbox')
+    .select('id, sink, event, attempts')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('id', { ascending: true })
+    .limit(MAX_RETRIES_PER_RUN)
+    .overrideTypes<OutboxRow[], { merge: false }>();
+  if (error) throw error;
+
+  const sinksByName = new Map((await getSinks()).map((sink) => [sink.name, sink]));
+  const rowsBySink = new Map<string, OutboxRow[]>();
+  for (const row of data) {
+    rowsBySink.set(row.sink, [...(rowsBySink.get(row.sink) ?? []), row]);
+  }
+
+  for (const [name, rows] of rowsBySink) {
+    const sink = sinksByName.get(name);
+    if (!sink) {
+      console.warn(
+        `Dropping ${rows.length} events for audit sink "${name}", which is no longer configured`
+      );
+      await removeFromOutbox(rows);
+      run.dropped += rows.length;
+      continue;
+    }
+
+    for (let i = 0; i < rows.length; i += sink.batchSize) {
+      const batch = rows.slice(i, i + sink.batchSize);
+      try {
+        await sink.sink.send(batch.map((row) => row.event));
+      } catch (sendError) {
+        const failed = await rescheduleOrDrop(sink, batch, sendError);
+        run.retrying += failed.retrying;
+        run.dropped += failed.dropped;
+        continue;
+      }
+      await removeFromOutbox(batch);
+      run.delivered += batch.length;
+    }
+  }
+
+  return run;
+}
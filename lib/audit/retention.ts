@@ -0,0 +1,322 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { logActivity } from '@/lib/db/queries';
+import { ActivityType } from '@/lib/db/schema';
+import type { ChainCheckpoint } from './chain';
+import { getChainCheckpoint, sealActivityLog } from './seal';
+
+// Each team chooses how long its activity log is kept and how long entries
+// keep full IP addresses; both default to forever. The retention job
+// (/api/cron/activity-retention, run daily) deletes entries past the first
+// window and truncates addresses past the second, IPv4 to /24 and IPv6 to
+// /48. Entries logged before addresses were sealed as salted digests keep
+// theirs until they are deleted: their hash covers the address itself, so
+// shortening it would break the chain. Each run records what it did in the
+// team's log, checkpoint included, before it deletes anything, so a run cut
+// short is finished by the next one and never leaves a gap in the chain that
+// no checkpoint explains.
+export type RetentionPolicy = {
+  retentionDays: number | null;
+  ipRetentionDays: number | null;
+};
+
+export type RetentionRun = {
+  teamId: number;
+  dryRun: boolean;
+  purged: number;
+  anonymized: number;
+  // Old enough to shorten, but sealed before digests existed.
+  keptAddresses: number;
+  // Set when the run moves the chain's starting point.
+  checkpoint: ChainCheckpoint | null;
+};
+
+export const MAX_RETENTION_DAYS = 3650;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ANONYMIZE_PAGE = 500;
+
+export async function getRetentionPolicy(
+  teamId: number
+): Promise<RetentionPolicy> {
+  const { data, error } = await supabaseAdmin
+    .from('teams')
+    .select('activity_retention_days, activity_ip_retention_days')
+    .eq('id', teamId)
+    .single();
+  if (error) throw error;
+
+  return {
+    retentionDays: data.activity_retention_days,
+    ipRetentionDays: data.activity_ip_retention_days,
+  };
+}
+
+export async function updateRetentionPolicy(
+  teamId: number,
+  policy: RetentionPolicy
+) {
+  const { error } = await supabaseAdmin
+    .from('teams')
+    .update({
+      activity_retention_days: policy.retentionDays,
+      activity_ip_retention_days: policy.ipRetentionDays,
+    })
+    .eq('id', teamId);
+  if (error) throw error;
+}
+
+// "203.0.113.42" -> "203.0.113.0", "2001:db8:85a3::8a2e:370:7334" ->
+// "2001:db8:85a3::". Anything unrecognised is dropped rather than kept whole.
+function truncateIp(ip: string) {
+  const v4 = ip.match(/^(?:::ffff:)?(\d{1,3}\.\d{1,3}\.\d{1,3})\.\d{1,3}$/i);
+  if (v4) return `${v4[1]}.0`;
+
+  const halves = ip.split('::');
+  if (halves.length > 2) return null;
+  const [head, tail] = halves;
+  const headGroups = head ? head.split(':') : [];
+  const tailGroups = tail ? tail.split(':') : [];
+  const groups =
+    tail === undefined
+      ? headGroups
+      : [
+          ...headGroups,
+          ...Array(
+            Math.max(0, 8 - headGroups.length - tailGroups.length)
+          ).fill('0'),
+          ...tailGroups,
+        ];
+  const prefix = groups.slice(0, 3);
+  if (
+    groups.length !== 8 ||
+    !prefix.every((group) => /^[0-9a-f]{1,4}$/i.test(group))
+  ) {
+    return null;
+  }
+  return `${prefix.map((group) => group.toLowerCase()).join(':')}::`;
+}
+
+function daysAgo(now: Date, days: number) {
+  return new Date(now.getTime() - days * DAY_MS).toISOString();
+}
+
+// The newest sealed entry older than `before`; it and everything before it
+// go.
+async function getPurgeBoundary(teamId: number, before: string) {
+  const { data, error } = await supabaseAdmin
+    .from('activity_logs')
+    .select('seq, hash')
+    .eq('team_id', teamId)
+    .not('seq', 'is', null)
+    .lt('timestamp', before)
+    .order('seq', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+
+  return data as ChainCheckpoint | null;
+}
+
+// Entries older than `before` that still hold a full address and can lose
+// it: those with a salt, whose hash covers the digest instead.
+function fullAddresses(
+  teamId: number,
+  afterSeq: number,
+  before: string,
+  options?: { count: 'exact'; head: true }
+) {
+  return supabaseAdmin
+    .from('activity_logs')
+    .select('id, seq, hash, ip_address', options)
+    .eq('team_id', teamId)
+    .gt('seq', afterSeq)
+    .lt('timestamp', before)
+    .not('ip_address', 'is', null)
+    .not('ip_salt', 'is', null);
+}
+
+async function countLegacyAddresses(
+  teamId: number,
+  afterSeq: number,
+  before: string
+) {
+  const { count, error } = await supabaseAdmin
+    .from('activity_logs')
+    .select('id', { count: 'exact', head: true })
+    .eq('team_id', teamId)
+    .gt('seq', afterSeq)
+    .lt('timestamp', before)
+    .not('ip_address', 'is', null)
+    .is('ip_digest', null);
+  if (error) throw error;
+  return count ?? 0;
+}
+
+async function anonymizeAddresses(
+  teamId: number,
+  afterSeq: number,
+  before: string
+) {
+  for (let cursor = afterSeq; ; ) {
+    const { data, error } = await fullAddresses(teamId, cursor, before)
+      .order('seq')
+      .limit(ANONYMIZE_PAGE);
+    if (error) throw error;
+    if (data.length === 0) return;
+
+    const idsByAddress = new Map<string | null, number[]>();
+    for (const row of data) {
+      const truncated = truncateIp(row.ip_address);
+      idsByAddress.set(truncated, [
+        ...(idsByAddress.get(truncated) ?? []),
+        row.id,
+      ]);
+    }
+    for (const [ipAddress, ids] of idsByAddress) {
+      const { error: updateError } = await supabaseAdmin
+        .from('activity_logs')
+        .update({ ip_address: ipAddress, ip_salt: null })
+        .in('id', ids);
+      if (updateError) throw updateError;
+    }
+    cursor = data[data.length - 1].seq;
+  }
+}
+
+// Applies the team's policy as of `now`. A dry run reports what would change
+// and changes nothing.
+export async function applyRetentionPolicy(
+  teamId: number,
+  policy: RetentionPolicy,
+  { dryRun = false, now = new Date() } = {}
+): Promise<RetentionRun> {
+  await sealActivityLog(teamId);
+  const current = await getChainCheckpoint(teamId);
+
+  // Entries up to the checkpoint may be left over from a run cut short, so
+  // the purge boundary is found without it.
+  const purgeBefore = policy.retentionDays
+    ? daysAgo(now, policy.retentionDays)
+    : null;
+  const boundary = purgeBefore
+    ? await getPurgeBoundary(teamId, purgeBefore)
+    : null;
+  let purged = 0;
+  if (boundary) {
+    const { count, error } = await supabaseAdmin
+      .from('activity_logs')
+      .select('id', { count: 'exact', head: true })
+      .eq('team_id', teamId)
+      .lte('seq', boundary.seq);
+    if (error) throw error;
+    purged = count ?? 0;
+  }
+
+  const anonymizeBefore = policy.ipRetentionDays
+    ? daysAgo(now, policy.ipRetentionDays)
+    : null;
+  const keptAfter = Math.max(current?.seq ?? 0, boundary?.seq ?? 0);
+  let anonymized = 0;
+  let keptAddresses = 0;
+  if (anonymizeBefore) {
+    const { count, error } = await fullAddresses(
+      teamId,
+      keptAfter,
+      anonymizeBefore,
+      { count: 'exact', head: true }
+    );
+    if (error) throw error;
+    anonymized = count ?? 0;
+    keptAddresses = await countLegacyAddresses(
+      teamId,
+      keptAfter,
+      anonymizeBefore
+    );
+  }
+
+  const run: RetentionRun = {
+    teamId,
+    dryRun,
+    purged,
+    anonymized,
+    keptAddresses,
+    checkpoint:
+      boundary && boundary.seq > (current?.seq ?? 0)
+        ? { seq: boundary.seq, hash: boundary.hash }
+        : null,
+  };
+  if (dryRun || (purged === 0 && anonymized === 0)) return run;
+
+  // Addresses go first: shortening them doesn't touch the chain, so a run
+  // that stops before the summary is written loses nothing.
+  if (anonymizeBefore) {
+    await anonymizeAddresses(teamId, keptAfter, anonymizeBefore);
+  }
+
+  const summary = await logActivity(
+    teamId,
+    null,
+    ActivityType.APPLY_RETENTION,
+    {
+      actorType: 'system',
+      metadata: {
+        retentionDays: policy.retentionDays,
+        ipRetentionDays: policy.ipRetentionDays,
+        purged,
+        anonymized,
+        ...(keptAddresses > 0 && { keptAddresses }),
+        ...(run.checkpoint && { checkpoint: run.checkpoint }),
+      },
+    }
+  );
+  if (!summary) {
+    throw new Error(`Could not record the retention run for team ${teamId}`);
+  }
+
+  if (boundary) {
+    const { error } = await supabaseAdmin
+      .from('activity_logs')
+      .delete()
+      .eq('team_id', teamId)
+      .lte('seq', boundary.seq);
+    if (error) throw error;
+  }
+  return run;
+}
+
+// Runs every team that has a policy, one at a time. A team that fails is
+// reported and left for the next run; the others carry on.
+export async function applyRetentionPolicies({
+  dryRun = false,
+  now = new Date(),
+} = {}) {
+  const { data: teams, error } = await supabaseAdmin
+    .from('teams')
+    .select('id, activity_retention_days, activity_ip_retention_days')
+    .or(
+      'activity_retention_days.not.is.null,activity_ip_retention_days.not.is.null'
+    )
+    .order('id');
+  if (error) throw error;
+
+  const runs: RetentionRun[] = [];
+  const failed: number[] = [];
+  for (const team of teams) {
+    try {
+      runs.push(
+        await applyRetentionPolicy(
+          team.id,
+          {
+            retentionDays: team.activity_retention_days,
+            ipRetentionDays: team.activity_ip_retention_days,
+          },
+          { dryRun, now }
+        )
+      );
+    } catch (runError) {
+      console.error(`Retention failed for team ${team.id}:`, runError);
+      failed.push(team.id);
+    }
+  }
+  return { runs, failed };
+}
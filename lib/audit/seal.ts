@@ -0,0 +1,175 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { ActivityType } from '@/lib/db/schema';
+import {
+  hashEntry,
+  verifyEntries,
+  type ChainCheckpoint,
+  type ChainedEntry,
+  type ChainVerification,
+} from './chain';
+
+// Rows are inserted unsealed and linked into the chain right after, oldest
+// first. Two sealers racing for the same link collide on the unique
+// (team_id, seq) index or find the row already sealed; the loser re-reads
+// the head and carries on.
+const CHAIN_COLUMNS =
+  'id, team_id, seq, prev_hash, hash, user_id, actor_type, action, timestamp, target_type, target_id, target_label, metadata, ip_address, ip_salt, ip_digest, user_agent, request_id';
+
+const SEAL_BATCH = 100;
+const MAX_SEAL_CONFLICTS = 5;
+const READ_PAGE = 1000;
+
+// Unsealed rows have no seq or hash yet; the sealer supplies both before it
+// hashes one.
+type ChainedEntryRow = {
+  id: number;
+  team_id: number;
+  seq: number;
+  prev_hash: string | null;
+  hash: string;
+  user_id: number | null;
+  actor_type: string;
+  action: string;
+  timestamp: string;
+  target_type: string | null;
+  target_id: string | null;
+  target_label: string | null;
+  metadata: unknown;
+  ip_address: string | null;
+  ip_salt: string | null;
+  ip_digest: string | null;
+  user_agent: string | null;
+  request_id: string | null;
+};
+
+function toChainedEntry(row: ChainedEntryRow): ChainedEntry {
+  return {
+    id: row.id,
+    teamId: row.team_id,
+    seq: row.seq,
+    prevHash: row.prev_hash,
+    hash: row.hash,
+    userId: row.user_id,
+    actorType: row.actor_type,
+    action: row.action,
+    timestamp: row.timestamp,
+    targetType: row.target_type,
+    targetId: row.target_id,
+    targetLabel: row.target_label,
+    metadata: row.metadata,
+    ipAddress: row.ip_address,
+    ipSalt: row.ip_salt,
+    ipDigest: row.ip_digest,
+    userAgent: row.user_agent,
+    requestId: row.request_id,
+  };
+}
+
+async function getChainHead(teamId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('activity_logs')
+    .select('seq, hash')
+    .eq('team_id', teamId)
+    .not('seq', 'is', null)
+    .order('seq', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+
+  return data ? { seq: data.seq as number, hash: data.hash as string } : null;
+}
+
+// Links every unsealed entry of the team into its chain, returning the
+// position each entry sealed by this call got.
+export async function sealActivityLog(teamId: number) {
+  const sealedEntries = new Map<number, { seq: number; hash: string }>();
+  let conflicts = 0;
+
+  while (conflicts < MAX_SEAL_CONFLICTS) {
+    const { data: pending, error } = await supabaseAdmin
+      .from('activity_logs')
+      .select(CHAIN_COLUMNS)
+      .eq('team_id', teamId)
+      .is('seq', null)
+      .order('id')
+      .limit(SEAL_BATCH);
+    if (error) throw error;
+    if (pending.length === 0) return sealedEntries;
+
+    let head = await getChainHead(teamId);
+    let collided = false;
+    for (const row of pending) {
+      const seq = (head?.seq ?? 0) + 1;
+      const prevHash = head?.hash ?? null;
+      const hash = await hashEntry({ ...toChainedEntry(row), seq, prevHash });
+
+      const { data: sealed, error: sealError } = await supabaseAdmin
+        .from('activity_logs')
+        .update({ seq, prev_hash: prevHash, hash })
+        .eq('id', row.id)
+        .is('seq', null)
+        .select('id');
+      if (sealError?.code === '23505' || (!sealError && sealed.length === 0)) {
+        collided = true;
+        break;
+      }
+      if (sealError) throw sealError;
+      head = { seq, hash };
+      sealedEntries.set(row.id, head);
+    }
+    if (collided) conflicts++;
+  }
+
+  throw new Error(`Gave up sealing the activity log of team ${teamId}`);
+}
+
+// Where the chain now starts: the checkpoint recorded by the latest
+// retention run that purged entries, or null if none has.
+export async function getChainCheckpoint(
+  teamId: number
+): Promise<ChainCheckpoint | null> {
+  const { data, error } = await supabaseAdmin
+    .from('activity_logs')
+    .select('metadata')
+    .eq('team_id', teamId)
+    .eq('action', ActivityType.APPLY_RETENTION)
+    .not('seq', 'is', null)
+    .not('metadata->checkpoint', 'is', null)
+    .order('seq', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+
+  return data?.metadata.checkpoint ?? null;
+}
+
+// The team's sealed entries after `afterSeq` in chain order, read a page at
+// a time.
+export async function getChainedEntries(teamId: number, afterSeq = 0) {
+  const entries: ChainedEntry[] = [];
+  for (let from = 0; ; from += READ_PAGE) {
+    const { data, error } = await supabaseAdmin
+      .from('activity_logs')
+      .select(CHAIN_COLUMNS)
+      .eq('team_id', teamId)
+      .gt('seq', afterSeq)
+      .order('seq')
+      .range(from, from + READ_PAGE - 1);
+    if (error) throw error;
+
+    entries.push(...data.map(toChainedEntry));
+    if (data.length < READ_PAGE) return entries;
+  }
+}
+
+// Seals anything still pending, then checks the chain from its checkpoint.
+export async function verifyActivityChain(
+  teamId: number
+): Promise<ChainVerification> {
+  await sealActivityLog(teamId);
+  const checkpoint = await getChainCheckpoint(teamId);
+  return verifyEntries(
+    await getChainedEntries(teamId, checkpoint?.seq),
+    checkpoint
+  );
+}
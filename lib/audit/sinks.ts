@@ -0,0 +1,190 @@
+import dgram from 'dgram';
+import { appendFile, mkdir } from 'fs/promises';
+import net from 'net';
+import os from 'os';
+import path from 'path';
+import tls from 'tls';
+import { z } from 'zod';
+import { toNdjsonLine, type AuditEvent } from './events';
+import type { AuditSink, AuditSinkConfig, AuditSinkFactory } from './forward';
+
+// The built-in sink types. Node only: ./forward loads this lazily and never
+// from the Edge runtime.
+
+//
+// http
+//
+// POSTs each batch as a JSON array: { type: 'http', url, headers?, timeoutMs? }
+const httpSinkSchema = z.object({
+  url: z.string().url(),
+  headers: z.record(z.string()).default({}),
+  timeoutMs: z.number().int().positive().default(10_000),
+});
+
+function httpSink(config: AuditSinkConfig): AuditSink {
+  const options = httpSinkSchema.parse(config);
+  return {
+    async send(events) {
+      const response = await fetch(options.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...options.headers },
+        body: JSON.stringify(events),
+        signal: AbortSignal.timeout(options.timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`${new URL(options.url).host} answered ${response.status}`);
+      }
+    },
+  };
+}
+
+//
+// syslog
+//
+// RFC 5424 messages over UDP (RFC 5426), TCP or TLS (RFC 5425, octet-counted
+// framing): { type: 'syslog', host, port?, transport?, appName?, facility? }.
+// The event is the message body as JSON, with the fields SIEMs usually index
+// on repeated as structured data.
+const SD_ID = 'audit@32473';
+const DEFAULT_PORTS = { udp: 514, tcp: 601, tls: 6514 } as const;
+const SEVERITY_WARNING = 4;
+const SEVERITY_NOTICE = 5;
+const WARNING_ACTIONS = new Set(['ACCOUNT_LOCKED']);
+
+const syslogSinkSchema = z.object({
+  host: z.string().min(1),
+  port: z.number().int().positive().optional(),
+  transport: z.enum(['udp', 'tcp', 'tls']).default('udp'),
+  appName: z
+    .string()
+    .regex(/^[!-~]{1,48}$/)
+    .default('saas-starter'),
+  facility: z.number().int().min(0).max(23).default(13),
+  timeoutMs: z.number().int().positive().default(10_000),
+});
+
+type SyslogOptions = z.infer<typeof syslogSinkSchema>;
+
+// Header fields are printable ASCII without spaces, or '-' when empty.
+function headerField(value: string, maxLength: number) {
+  return value.replace(/[^!-~]/g, '').slice(0, maxLength) || '-';
+}
+
+function paramValue(value: unknown) {
+  return String(value).replace(/["\\\]]/g, '\\$&');
+}
+
+function formatSyslogMessage(
+  event: AuditEvent,
+  options: Pick<SyslogOptions, 'appName' | 'facility'>
+) {
+  const severity = WARNING_ACTIONS.has(event.action)
+    ? SEVERITY_WARNING
+    : SEVERITY_NOTICE;
+  const params = {
+    id: event.id,
+    team: event.teamId,
+    seq: event.seq,
+    actorType: event.actor.type,
+    actor: event.actor.id,
+    targetType: event.target?.type,
+    target: event.target?.id,
+    ip: event.ipAddress,
+    requestId: event.requestId,
+  };
+  const data = Object.entries(params)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([name, value]) => `${name}="${paramValue(value)}"`)
+    .join(' ');
+
+  return [
+    `<${options.facility * 8 + severity}>1`,
+    event.timestamp,
+    headerField(os.hostname(), 255),
+    options.appName,
+    String(process.pid),
+    headerField(event.action, 32),
+    `[${SD_ID} ${data}]`,
+    // The BOM marks the body as UTF-8; names in it needn't be ASCII.
+    `\uFEFF${JSON.stringify(event)}`,
+  ].join(' ');
+}
+
+async function sendDatagrams(options: SyslogOptions, messages: Buffer[]) {
+  const socket = dgram.createSocket(net.isIPv6(options.host) ? 'udp6' : 'udp4');
+  const port = options.port ?? DEFAULT_PORTS.udp;
+  try {
+    for (const message of messages) {
+      await new Promise<void>((resolve, reject) =>
+        socket.send(message, port, options.host, (error) =>
+          error ? reject(error) : resolve()
+        )
+      );
+    }
+  } finally {
+    socket.close();
+  }
+}
+
+function sendStream(options: SyslogOptions, messages: Buffer[]) {
+  const port = options.port ?? DEFAULT_PORTS[options.transport];
+  const frames = Buffer.concat(
+    messages.flatMap((message) => [Buffer.from(`${message.length} `), message])
+  );
+
+  return new Promise<void>((resolve, reject) => {
+    const socket =
+      options.transport === 'tls'
+        ? tls.connect({ host: options.host, port, servername: options.host })
+        : net.connect({ host: options.host, port });
+    socket.setTimeout(options.timeoutMs, () =>
+      socket.destroy(new Error(`Timed out sending to ${options.host}:${port}`))
+    );
+    socket.once('error', reject);
+    socket.once(
+      options.transport === 'tls' ? 'secureConnect' : 'connect',
+      () => socket.end(frames, () => resolve())
+    );
+  });
+}
+
+function syslogSink(config: AuditSinkConfig): AuditSink {
+  const options = syslogSinkSchema.parse(config);
+  return {
+    async send(events) {
+      const messages = events.map((event) =>
+        Buffer.from(formatSyslogMessage(event, options))
+      );
+      if (options.transport === 'udp') {
+        await sendDatagrams(options, messages);
+      } else {
+        await sendStream(options, messages);
+      }
+    },
+  };
+}
+
+//
+// file
+//
+// Appends NDJSON, one event per line: { type: 'file', path }. Meant for a log
+// shipper to tail; rotating the file is left to it.
+const fileSinkSchema = z.object({
+  path: z.string().min(1),
+});
+
+function fileSink(config: AuditSinkConfig): AuditSink {
+  const file = path.resolve(fileSinkSchema.parse(config).path);
+  return {
+    async send(events) {
+      await mkdir(path.dirname(file), { recursive: true });
+      await appendFile(file, events.map(toNdjsonLine).join(''));
+    },
+  };
+}
+
+export const builtInSinkTypes = new Map<string, AuditSinkFactory>([
+  ['http', httpSink],
+  ['syslog', syslogSink],
+  ['file', fileSink],
+]);
@@ -0,0 +1,179 @@
+import { createHash, randomBytes } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import type { Grantor, Permission } from './permissions';
+
+// Bearer tokens for calling the API without a browser session. A personal
+// token acts as the user who created it; a team token acts for the team and
+// isn't tied to anyone's account. Either way it can only do what its scopes
+// allow. As with one-time tokens, only the SHA-256 is stored and the token
+// itself is shown once, at creation.
+export const API_SCOPES = {
+  'team:read': 'Read team details',
+  'members:read': 'List team members',
+  'members:write': 'Add and remove team members',
+  'billing:read': 'Read the subscription and plan',
+  'audit:read': 'Verify and export the tamper-evident activity log',
+  'scim:provision': 'Provision members from an identity provider (SCIM)',
+} as const;
+
+export type ApiScope = keyof typeof API_SCOPES;
+
+export const API_SCOPE_NAMES = Object.keys(API_SCOPES) as [
+  ApiScope,
+  ...ApiScope[]
+];
+
+// What the creator must hold to put each scope in a token. A team token
+// carries no one's permissions when it is used, so it can't be allowed to do
+// more than whoever minted it; SCIM can move anyone between roles, so only
+// owners can hand it out.
+const SCOPE_REQUIREMENTS: Record<ApiScope, Permission | 'owner' | null> = {
+  'team:read': null,
+  'members:read': null,
+  'members:write': 'members.remove',
+  'billing:read': null,
+  'audit:read': 'audit.read',
+  'scim:provision': 'owner',
+};
+
+export function canMintScope(grantor: Grantor, scope: ApiScope) {
+  const required = SCOPE_REQUIREMENTS[scope];
+  if (required === 'owner') return grantor.role === 'owner';
+  return !required || grantor.permissions.includes(required);
+}
+
+const TOKEN_PREFIX = 'mdb_';
+
+export type ApiToken = {
+  id: number;
+  name: string;
+  userId: number | null;
+  teamId: number | null;
+  createdBy: number;
+  tokenPrefix: string;
+  scopes: ApiScope[];
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+};
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+const API_TOKEN_COLUMNS =
+  'id, name, user_id, team_id, created_by, token_prefix, scopes, created_at, expires_at, last_used_at';
+
+type ApiTokenRow = {
+  id: number;
+  name: string;
+  user_id: number | null;
+  team_id: number | null;
+  created_by: number;
+  token_prefix: string;
+  scopes: ApiScope[];
+  created_at: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+};
+
+function toApiToken(row: ApiTokenRow): ApiToken {
+  return {
+    id: row.id,
+    name: row.name,
+    userId: row.user_id,
+    teamId: row.team_id,
+    createdBy: row.created_by,
+    tokenPrefix: row.token_prefix,
+    scopes: row.scopes,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    lastUsedAt: row.last_used_at,
+  };
+}
+
+// Exactly one of `userId` / `teamId` owns the token. Returns the plaintext,
+// which can't be recovered afterwards.
+export async function createApiToken(options: {
+  name: string;
+  owner: { userId: number } | { teamId: number };
+  createdBy: number;
+  scopes: ApiScope[];
+  expiresAt: Date | null;
+}) {
+  const token = TOKEN_PREFIX + randomBytes(32).toString('base64url');
+
+  const { error } = await supabaseAdmin.from('api_tokens').insert({
+    name: options.name,
+    user_id: 'userId' in options.owner ? options.owner.userId : null,
+    team_id: 'teamId' in options.owner ? options.owner.teamId : null,
+    created_by: options.createdBy,
+    token_prefix: token.slice(0, TOKEN_PREFIX.length + 6),
+    token_hash: hashToken(token),
+    scopes: options.scopes,
+    expires_at: options.expiresAt?.toISOString() ?? null,
+  });
+  if (error) throw error;
+
+  return token;
+}
+
+// Looks up a presented token, returning null if it is unknown, revoked or
+// expired, and records the use.
+export async function findApiToken(token: string) {
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('api_tokens')
+    .select(API_TOKEN_COLUMNS)
+    .eq('token_hash', hashToken(token))
+    .is('revoked_at', null)
+    .maybeSingle();
+  if (error || !data) return null;
+  if (data.expires_at && Date.parse(data.expires_at) <= Date.now()) {
+    return null;
+  }
+
+  await supabaseAdmin
+    .from('api_tokens')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', data.id);
+
+  return toApiToken(data);
+}
+
+// The user's personal tokens plus, if given, their team's tokens.
+export async function getApiTokens(userId: number, teamId: number | null) {
+  const owners = teamId
+    ? `user_id.eq.${userId},team_id.eq.${teamId}`
+    : `user_id.eq.${userId}`;
+
+  const { data, error } = await supabaseAdmin
+    .from('api_tokens')
+    .select(API_TOKEN_COLUMNS)
+    .or(owners)
+    .is('revoked_at', null)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+
+  return data.map(toApiToken);
+}
+
+export async function revokeApiToken(
+  tokenId: number,
+  owner: { userId: number } | { teamId: number }
+) {
+  const query = supabaseAdmin
+    .from('api_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', tokenId)
+    .is('revoked_at', null);
+
+  const { data, error } = await ('userId' in owner
+    ? query.eq('user_id', owner.userId)
+    : query.eq('team_id', owner.teamId)
+  ).select('id');
+  if (error) throw error;
+
+  return data.length > 0;
+}
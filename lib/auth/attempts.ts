@@ -0,0 +1,200 @@
+import { getClientIp } from '@/lib/auth/session';
+import {
+  consumeOneTimeToken,
+  createOneTimeToken,
+  revokeOneTimeTokens
+} from '@/lib/auth/tokens';
+import { getUserByEmail, getUserWithTeam, logActivity } from '@/lib/db/queries';
+import { ActivityType } from '@/lib/db/schema';
+import { sendMail } from '@/lib/mail';
+import { accountLockedEmail } from '@/lib/mail/templates';
+import { supabaseAdmin } from '@/lib/supabaseClient';
+
+// Failed-attempt tracking shared by the unauthenticated auth forms: sign-in,
+// sign-up, password reset and invitation acceptance. Failures are counted per
+// client IP for all of them, and per email address for password guesses.
+// Forms that send mail to an address count every request against the IP and
+// against that address's inbox, which slows down but never locks.
+// After a few free attempts every further failure doubles the wait before the
+// next one, and enough failures against one address lock it for a while.
+//
+// Addresses are tracked whether or not an account exists for them, so the
+// responses look the same either way.
+const ACCOUNT_FREE_ATTEMPTS = 3;
+const IP_FREE_ATTEMPTS = 10;
+const MAIL_FREE_ATTEMPTS = 3;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+const LOCKOUT_THRESHOLD = 10;
+const LOCKOUT_MS = 30 * 60 * 1000;
+// Failures older than this are forgotten instead of compounding forever.
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export type AttemptCheck =
+  | { allowed: true }
+  | { allowed: false; retryAfterMs: number; locked: boolean };
+
+function accountKey(email: string) {
+  return `account:${email.trim().toLowerCase()}`;
+}
+
+function mailKey(email: string) {
+  return `mail:${email.trim().toLowerCase()}`;
+}
+
+// Requests without a client IP (e.g. local development without a proxy) are
+// only limited per account rather than all sharing one bucket.
+async function attemptKeys(addressKey?: string) {
+  const ipAddress = await getClientIp();
+  const keys: string[] = [];
+  if (ipAddress) keys.push(`ip:${ipAddress}`);
+  if (addressKey) keys.push(addressKey);
+  return keys;
+}
+
+function freeAttempts(key: string) {
+  if (key.startsWith('account:')) return ACCOUNT_FREE_ATTEMPTS;
+  if (key.startsWith('mail:')) return MAIL_FREE_ATTEMPTS;
+  return IP_FREE_ATTEMPTS;
+}
+
+function backoffMs(failures: number, freeAttempts: number) {
+  if (failures <= freeAttempts) return 0;
+  return Math.min(1000 * 2 ** (failures - freeAttempts - 1), MAX_BACKOFF_MS);
+}
+
+// Call before doing any work for the request; a refused check shouldn't count
+// as another failure.
+export async function checkAttempts(email?: string): Promise<AttemptCheck> {
+  return checkKeys(await attemptKeys(email && accountKey(email)));
+}
+
+// The same for forms that email an address, e.g. a sign-in link.
+export async function checkMailAttempts(email: string): Promise<AttemptCheck> {
+  return checkKeys(await attemptKeys(mailKey(email)));
+}
+
+async function checkKeys(keys: string[]): Promise<AttemptCheck> {
+  if (keys.length === 0) return { allowed: true };
+
+  const { data, error } = await supabaseAdmin
+    .from('auth_attempts')
+    .select('blocked_until, locked_until')
+    .in('key', keys);
+  if (error) throw error;
+
+  const now = Date.now();
+  let retryAfterMs = 0;
+  let locked = false;
+  for (const row of data) {
+    const lockedUntil = row.locked_until ? Date.parse(row.locked_until) : 0;
+    const blockedUntil = row.blocked_until ? Date.parse(row.blocked_until) : 0;
+    if (lockedUntil > now) locked = true;
+    retryAfterMs = Math.max(retryAfterMs, lockedUntil - now, blockedUntil - now);
+  }
+
+  return retryAfterMs > 0
+    ? { allowed: false, retryAfterMs, locked }
+    : { allowed: true };
+}
+
+export function describeRefusedAttempt(
+  check: Extract<AttemptCheck, { allowed: false }>
+) {
+  const minutes = Math.ceil(check.retryAfterMs / 60000);
+  const wait =
+    check.retryAfterMs < 60000
+      ? `${Math.ceil(check.retryAfterMs / 1000)} seconds`
+      : `${minutes} minute${minutes === 1 ? '' : 's'}`;
+
+  return check.locked
+    ? `This account is temporarily locked. Try again in ${wait}, or use the link we emailed to unlock it.`
+    : `Too many attempts. Please try again in ${wait}.`;
+}
+
+export async function recordFailedAttempt(email?: string) {
+  await recordKeys(await attemptKeys(email && accountKey(email)), email);
+}
+
+// Every request counts, whether or not an account exists for the address.
+export async function recordMailSent(email: string) {
+  await recordKeys(await attemptKeys(mailKey(email)));
+}
+
+async function recordKeys(keys: string[], email?: string) {
+  const now = Date.now();
+
+  for (const key of keys) {
+    const isAccount = key.startsWith('account:');
+    const { data: row, error } = await supabaseAdmin
+      .from('auth_attempts')
+      .select('failures, last_failure_at')
+      .eq('key', key)
+      .maybeSingle();
+    if (error) throw error;
+
+    const recent =
+      row && now - Date.parse(row.last_failure_at) < FAILURE_WINDOW_MS;
+    const failures = (recent ? row.failures : 0) + 1;
+    const lockedOut = isAccount && failures >= LOCKOUT_THRESHOLD;
+    const delay = backoffMs(failures, freeAttempts(key));
+
+    // A lockout starts the count again, so each lock is followed by a fresh
+    // round of attempts rather than an immediate relock.
+    const { error: upsertErr } = await supabaseAdmin
+      .from('auth_attempts')
+      .upsert(
+        {
+          key,
+          failures: lockedOut ? 0 : failures,
+          last_failure_at: new Date(now).toISOString(),
+          blocked_until: delay ? new Date(now + delay).toISOString() : null,
+          locked_until: lockedOut
+            ? new Date(now + LOCKOUT_MS).toISOString()
+            : null,
+        },
+        { onConflict: 'key' }
+      );
+    if (upsertErr) throw upsertErr;
+
+    if (lockedOut && email) await notifyLockout(email);
+  }
+}
+
+// A successful sign-in forgets the account's failures. The IP's are kept, so
+// one valid login can't be used to reset guessing against other accounts.
+export async function clearFailedAttempts(email: string) {
+  await supabaseAdmin
+    .from('auth_attempts')
+    .delete()
+    .eq('key', accountKey(email));
+}
+
+async function notifyLockout(email: string) {
+  const user = await getUserByEmail(email);
+  if (!user) return;
+
+  const uwt = await getUserWithTeam(user.id);
+  await logActivity(uwt?.teamId, null, ActivityType.ACCOUNT_LOCKED, {
+    actorType: 'system',
+    target: { type: 'user', id: user.id },
+  });
+
+  await revokeOneTimeTokens(user.id, 'account_unlock');
+  const token = await createOneTimeToken(user.id, 'account_unlock', LOCKOUT_MS, {
+    email: user.email,
+  });
+  const link = `${process.env.BASE_URL}/api/auth/unlock?token=${token}`;
+  await sendMail({ to: user.email, ...accountLockedEmail(link) });
+}
+
+// Self-service unlock from the link in the lockout email.
+export async function unlockAccount(token: string) {
+  const unlock = await consumeOneTimeToken(token, 'account_unlock');
+  if (!unlock?.data?.email) return false;
+
+  await clearFailedAttempts(unlock.data.email);
+
+  const uwt = await getUserWithTeam(unlock.userId);
+  await logActivity(uwt?.teamId, unlock.userId, ActivityType.ACCOUNT_UNLOCKED);
+  return true;
+}
@@ -0,0 +1,15 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+// Cron routes are called by a scheduler (see vercel.json) with
+// `Authorization: Bearer $CRON_SECRET`. Without CRON_SECRET nothing gets in.
+export function isCronRequest(request: NextRequest) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(
+    digest(request.headers.get('authorization') ?? ''),
+    digest(`Bearer ${secret}`)
+  );
+}
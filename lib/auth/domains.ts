@@ -0,0 +1,263 @@
+import { randomBytes } from 'crypto';
+import { resolveTxt } from 'dns/promises';
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { createJoinRequest } from '@/lib/auth/join-requests';
+import { addTeamMember, logActivity } from '@/lib/db/queries';
+import { ActivityType } from '@/lib/db/schema';
+import { syncSubscriptionSeats } from '@/lib/payments/stripe';
+
+// A team can claim an email domain and prove it controls it with a DNS TXT
+// record. Once verified, people who sign up with an address on the domain
+// and confirm it are joined to the team automatically, or ask to join,
+// depending on the domain's policy.
+export type DomainJoinPolicy = 'auto' | 'request';
+
+export type TeamDomain = {
+  id: number;
+  teamId: number;
+  domain: string;
+  verificationRecord: string;
+  verifiedAt: string | null;
+  joinPolicy: DomainJoinPolicy;
+  defaultRole: string;
+  createdAt: string;
+};
+
+const TXT_RECORD_PREFIX = 'saas-domain-verification=';
+
+// Addresses anyone can get; claiming these would let a team collect strangers.
+const PUBLIC_EMAIL_DOMAINS = new Set([
+  'gmail.com',
+  'googlemail.com',
+  'outlook.com',
+  'hotmail.com',
+  'live.com',
+  'yahoo.com',
+  'icloud.com',
+  'me.com',
+  'aol.com',
+  'proton.me',
+  'protonmail.com',
+  'gmx.com',
+]);
+
+export interface DomainVerifier {
+  // Whether `domain` publishes a TXT record with exactly this value.
+  hasTxtRecord(domain: string, record: string): Promise<boolean>;
+}
+
+const dnsVerifier: DomainVerifier = {
+  async hasTxtRecord(domain, record) {
+    try {
+      const records = await resolveTxt(domain);
+      return records.some((chunks) => chunks.join('') === record);
+    } catch {
+      return false;
+    }
+  },
+};
+
+// For local development, where the domains being claimed aren't real: every
+// record is reported as published, so verification always succeeds.
+const mockVerifier: DomainVerifier = {
+  async hasTxtRecord() {
+    return true;
+  },
+};
+
+// Verifiers are picked by name through DOMAIN_VERIFIER, like mail transports.
+// Tests or other resolvers can be plugged in with registerDomainVerifier.
+const verifiers = new Map<string, DomainVerifier>([
+  ['dns', dnsVerifier],
+  ['mock', mockVerifier],
+]);
+
+export function registerDomainVerifier(name: string, verifier: DomainVerifier) {
+  verifiers.set(name, verifier);
+}
+
+function getVerifier() {
+  const name = process.env.DOMAIN_VERIFIER || 'dns';
+  const verifier = verifiers.get(name);
+  if (!verifier) {
+    throw new Error(`Unknown domain verifier "${name}"`);
+  }
+  return verifier;
+}
+
+export function normalizeDomain(input: string) {
+  return input.trim().toLowerCase().replace(/^@/, '').replace(/\.$/, '');
+}
+
+export function isPublicEmailDomain(domain: string) {
+  return PUBLIC_EMAIL_DOMAINS.has(normalizeDomain(domain));
+}
+
+function emailDomain(email: string) {
+  return normalizeDomain(email.split('@').pop() ?? '');
+}
+
+type TeamDomainRow = {
+  id: number;
+  team_id: number;
+  domain: string;
+  verification_token: string;
+  verified_at: string | null;
+  join_policy: DomainJoinPolicy;
+  default_role: string;
+  created_at: string;
+};
+
+function toTeamDomain(row: TeamDomainRow): TeamDomain {
+  return {
+    id: row.id,
+    teamId: row.team_id,
+    domain: row.domain,
+    verificationRecord: `${TXT_RECORD_PREFIX}${row.verification_token}`,
+    verifiedAt: row.verified_at,
+    joinPolicy: row.join_policy,
+    defaultRole: row.default_role,
+    createdAt: row.created_at,
+  };
+}
+
+export async function getTeamDomains(teamId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('team_domains')
+    .select('*')
+    .eq('team_id', teamId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+
+  return data.map(toTeamDomain);
+}
+
+// Several teams may claim the same domain; only one can verify it. Returns
+// false if it is already verified by someone.
+export async function claimDomain(teamId: number, domain: string) {
+  const { data: verified, error } = await supabaseAdmin
+    .from('team_domains')
+    .select('id')
+    .eq('domain', domain)
+    .not('verified_at', 'is', null)
+    .limit(1);
+  if (error) throw error;
+  if (verified.length > 0) return false;
+
+  const { error: insertErr } = await supabaseAdmin.from('team_domains').insert({
+    team_id: teamId,
+    domain,
+    verification_token: randomBytes(16).toString('hex'),
+  });
+  if (insertErr) throw insertErr;
+  return true;
+}
+
+// Looks up the TXT record and marks the domain verified if it is there.
+// Returns the domain, or null if it wasn't found or the record is missing.
+export async function verifyDomain(teamId: number, domainId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('team_domains')
+    .select('*')
+    .eq('id', domainId)
+    .eq('team_id', teamId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+
+  const domain = toTeamDomain(data);
+  if (domain.verifiedAt) return domain;
+
+  const published = await getVerifier().hasTxtRecord(
+    domain.domain,
+    domain.verificationRecord
+  );
+  if (!published) return null;
+
+  // The partial unique index on verified domains makes this fail if another
+  // team verified it first.
+  const { error: updateErr } = await supabaseAdmin
+    .from('team_domains')
+    .update({ verified_at: new Date().toISOString() })
+    .eq('id', domainId);
+  if (updateErr) return null;
+
+  return { ...domain, verifiedAt: new Date().toISOString() };
+}
+
+export async function updateDomainPolicy(
+  teamId: number,
+  domainId: number,
+  policy: { joinPolicy: DomainJoinPolicy; defaultRole: string }
+) {
+  const { data, error } = await supabaseAdmin
+    .from('team_domains')
+    .update({
+      join_policy: policy.joinPolicy,
+      default_role: policy.defaultRole,
+    })
+    .eq('id', domainId)
+    .eq('team_id', teamId)
+    .select('id');
+  if (error) throw error;
+
+  return data.length > 0;
+}
+
+export async function removeDomain(teamId: number, domainId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('team_domains')
+    .delete()
+    .eq('id', domainId)
+    .eq('team_id', teamId)
+    .select('domain');
+  if (error) throw error;
+
+  return data[0]?.domain ?? null;
+}
+
+// The verified domain an address belongs to, if any.
+export async function findVerifiedDomain(email: string) {
+  const { data, error } = await supabaseAdmin
+    .from('team_domains')
+    .select('*, teams(name)')
+    .eq('domain', emailDomain(email))
+    .not('verified_at', 'is', null)
+    .maybeSingle();
+  if (error || !data) return null;
+
+  return { ...toTeamDomain(data), teamName: data.teams.name as string };
+}
+
+// Whether an address is on a domain this team has verified: the only
+// addresses the team, or its identity provider, can vouch for.
+export async function isTeamVerifiedAddress(teamId: number, email: string) {
+  return (await findVerifiedDomain(email))?.teamId === teamId;
+}
+
+// Called once a user has confirmed their address. Joins them to the team that
+// verified its domain, or asks to, per the domain's policy. Returns what was
+// done, or null if the address isn't on a verified domain.
+export async function joinVerifiedDomainTeam(userId: number, email: string) {
+  const domain = await findVerifiedDomain(email);
+  if (!domain) return null;
+
+  if (domain.joinPolicy === 'auto') {
+    if (await addTeamMember(domain.teamId, userId, domain.defaultRole)) {
+      await logActivity(domain.teamId, userId, ActivityType.JOIN_VIA_DOMAIN);
+      await syncSubscriptionSeats(domain.teamId);
+    }
+    return { action: 'joined' as const, teamId: domain.teamId };
+  }
+
+  const result = await createJoinRequest({
+    teamId: domain.teamId,
+    userId,
+    source: 'domain',
+    role: domain.defaultRole,
+  });
+  if (result === 'created') {
+    await logActivity(domain.teamId, userId, ActivityType.REQUEST_TO_JOIN);
+  }
+  return { action: 'requested' as const, teamId: domain.teamId };
+}
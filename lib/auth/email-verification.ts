@@ -0,0 +1,63 @@
+import { createOneTimeToken, revokeOneTimeTokens } from '@/lib/auth/tokens';
+import { getUserByEmail } from '@/lib/db/queries';
+import { sendMail } from '@/lib/mail';
+import {
+  emailChangeEmail,
+  emailInUseEmail,
+  signUpAttemptEmail,
+  verifyEmailEmail
+} from '@/lib/mail/templates';
+
+// The links that prove someone reads an address: confirming the address an
+// account signed up (or was provisioned) with, and moving an account to a
+// new one. Both are handled by /api/auth/verify-email.
+export const EMAIL_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+function verifyEmailLink(token: string) {
+  return `${process.env.BASE_URL}/api/auth/verify-email?token=${token}`;
+}
+
+export async function sendVerificationEmail(userId: number, email: string) {
+  await revokeOneTimeTokens(userId, 'email_verification');
+  const token = await createOneTimeToken(
+    userId,
+    'email_verification',
+    EMAIL_TOKEN_TTL_MS
+  );
+  await sendMail({ to: email, ...verifyEmailEmail(verifyEmailLink(token)) });
+}
+
+// A new address only replaces the current one once it is confirmed from the
+// new inbox; until then it lives as an email_change token. An address that
+// is already taken gets a notice instead, so callers can answer the same
+// either way.
+export async function requestEmailChange(userId: number, email: string) {
+  await revokeOneTimeTokens(userId, 'email_change');
+  if (await getUserByEmail(email)) {
+    await sendMail({ to: email, ...emailInUseEmail(email) });
+    return;
+  }
+
+  const token = await createOneTimeToken(
+    userId,
+    'email_change',
+    EMAIL_TOKEN_TTL_MS,
+    { email }
+  );
+  await sendMail({
+    to: email,
+    ...emailChangeEmail(verifyEmailLink(token), email),
+  });
+}
+
+// Sign-up doesn't tell the visitor that an address is taken; its owner hears
+// about the attempt in their inbox instead.
+export async function sendSignUpAttemptNotice(email: string) {
+  await sendMail({
+    to: email,
+    ...signUpAttemptEmail(
+      `${process.env.BASE_URL}/sign-in`,
+      `${process.env.BASE_URL}/forgot-password`
+    ),
+  });
+}
@@ -0,0 +1,154 @@
+import { cookies } from 'next/headers';
+import {
+  getSession,
+  revokeSession,
+  setImpersonationSession,
+  verifyToken
+} from '@/lib/auth/session';
+import { getUserWithTeam, logActivity } from '@/lib/db/queries';
+import { ActivityType } from '@/lib/db/schema';
+import { supabaseAdmin } from '@/lib/supabaseClient';
+
+// Lets a superadmin (users.is_superadmin, granted directly in the database)
+// see the app as a customer does. The impersonation session is marked with
+// the superadmin's ID, expires after IMPERSONATION_TTL_MS without being
+// extended, and can't run server actions (unless they opt in with
+// `allowWhileImpersonating`) or use the API's write scopes.
+// The superadmin's own session is parked in a cookie and restored when the
+// impersonation ends. Start and end go in the target's team activity log,
+// attributed to the superadmin.
+const IMPERSONATION_TTL_MS = 30 * 60 * 1000;
+export const PARKED_SESSION_COOKIE = 'impersonator_session';
+
+export type Impersonation = {
+  user: { id: number; name: string | null; email: string };
+  impersonator: { id: number; name: string | null; email: string };
+  expires: string;
+};
+
+async function logImpersonation(
+  targetUserId: number,
+  impersonatorId: number,
+  type: ActivityType
+) {
+  const target = await getUserWithTeam(targetUserId);
+  await logActivity(target?.teamId, impersonatorId, type, {
+    target: { type: 'user', id: targetUserId },
+  });
+}
+
+export async function startImpersonation(
+  impersonatorId: number,
+  targetUserId: number
+) {
+  const cookieStore = await cookies();
+  const current = cookieStore.get('session')?.value;
+  const session = current ? await verifyToken(current) : null;
+  if (!session || session.impersonator) {
+    throw new Error('Impersonation must start from your own session');
+  }
+
+  cookieStore.set(PARKED_SESSION_COOKIE, current!, {
+    expires: new Date(session.expires),
+    httpOnly: true,
+    secure: true,
+    sameSite: 'lax',
+  });
+  await setImpersonationSession(
+    targetUserId,
+    impersonatorId,
+    new Date(Date.now() + IMPERSONATION_TTL_MS)
+  );
+  await logImpersonation(
+    targetUserId,
+    impersonatorId,
+    ActivityType.IMPERSONATION_STARTED
+  );
+}
+
+// Ends the current impersonation and puts the superadmin's own session back.
+// Returns false if the current session isn't an impersonation.
+export async function endImpersonation() {
+  const session = await getSession().catch(() => null);
+  if (!session?.impersonator) return false;
+
+  await revokeSession(session.sid);
+  await logImpersonation(
+    session.user.id,
+    session.impersonator.id,
+    ActivityType.IMPERSONATION_ENDED
+  );
+
+  const cookieStore = await cookies();
+  const parked = cookieStore.get(PARKED_SESSION_COOKIE)?.value;
+  cookieStore.delete(PARKED_SESSION_COOKIE);
+
+  const restored = parked && (await verifyToken(parked).catch(() => null));
+  if (restored) {
+    cookieStore.set('session', parked, {
+      expires: new Date(restored.expires),
+      httpOnly: true,
+      secure: true,
+      sameSite: 'lax',
+    });
+  } else {
+    cookieStore.delete('session');
+  }
+  return true;
+}
+
+// Called by the root middleware when a session cookie stops verifying while
+// a parked session exists. If the dead session was an impersonation (looked
+// up by `sid` in the registry, not trusted from the token) its end is logged.
+// The caller restores the parked cookie.
+export async function recordExpiredImpersonation(sid: string | undefined) {
+  if (!sid) return;
+
+  const { data, error } = await supabaseAdmin
+    .from('sessions')
+    .select('user_id, impersonator_id, revoked_at')
+    .eq('id', sid)
+    .maybeSingle();
+  if (error || !data?.impersonator_id || data.revoked_at) return;
+
+  await revokeSession(sid);
+  await logImpersonation(
+    data.user_id,
+    data.impersonator_id,
+    ActivityType.IMPERSONATION_ENDED
+  );
+}
+
+// For the banner: who is being impersonated, by whom, and until when.
+export async function getImpersonation(): Promise<Impersonation | null> {
+  const session = await getSession().catch(() => null);
+  if (!session?.impersonator) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('id, name, email')
+    .in('id', [session.user.id, session.impersonator.id]);
+  if (error) throw error;
+
+  const user = data.find((row) => row.id === session.user.id);
+  const impersonator = data.find((row) => row.id === session.impersonator!.id);
+  if (!user || !impersonator) return null;
+
+  return { user, impersonator, expires: session.expires };
+}
+
+// Superadmins can impersonate anyone except other superadmins.
+export async function canImpersonate(impersonatorId: number, targetId: number) {
+  if (impersonatorId === targetId) return false;
+
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('id, is_superadmin')
+    .in('id', [impersonatorId, targetId])
+    .is('deleted_at', null);
+  if (error) throw error;
+
+  const impersonator = data.find((row) => row.id === impersonatorId);
+  const target = data.find((row) => row.id === targetId);
+  return !!impersonator?.is_superadmin && !!target && !target.is_superadmin;
+}
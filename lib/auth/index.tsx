@@ -2,9 +2,11 @@
 
 import { createContext, useContext, ReactNode } from 'react';
 import { User } from '@/lib/db/schema';
+import type { TeamMembershipSummary } from '@/lib/db/queries';
 
 type UserContextType = {
   userPromise: Promise<User | null>;
+  teamsPromise: Promise<TeamMembershipSummary[]>;
 };
 
 const UserContext = createContext<UserContextType | null>(null);
@@ -19,13 +21,15 @@ export function useUser(): UserContextType {
 
 export function UserProvider({
   children,
-  userPromise
+  userPromise,
+  teamsPromise
 }: {
   children: ReactNode;
   userPromise: Promise<User | null>;
+  teamsPromise: Promise<TeamMembershipSummary[]>;
 }) {
   return (
-    <UserContext.Provider value={{ userPromise }}>
+    <UserContext.Provider value={{ userPromise, teamsPromise }}>
       {children}
     </UserContext.Provider>
   );
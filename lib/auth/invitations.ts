@@ -0,0 +1,254 @@
+import { createHash, randomBytes } from 'crypto';
+import { signKeyringToken, verifyKeyringToken } from '@/lib/auth/keys';
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { addTeamMember } from '@/lib/db/queries';
+import { sendMail } from '@/lib/mail';
+import { invitationEmail } from '@/lib/mail/templates';
+import { syncSubscriptionSeats } from '@/lib/payments/stripe';
+
+// Invitation links carry a JWT, signed with the session keyring under its own
+// `typ`, that names the invitation and a random nonce. The row stores only the nonce's SHA-256:
+// resending replaces it so earlier links stop working, and accepting or
+// revoking moves the row out of 'pending' so a link works at most once.
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type Invitation = {
+  id: number;
+  teamId: number;
+  teamName: string;
+  email: string;
+  name: string | null;
+  role: string;
+  invitedBy: { name: string | null; email: string };
+  invitedAt: string;
+  expiresAt: string;
+  lastSentAt: string | null;
+};
+
+function hashNonce(nonce: string) {
+  return createHash('sha256').update(nonce).digest('hex');
+}
+
+// Each invitation has one team and one inviter, though supabase-js can't
+// tell without generated types, hence the overrideTypes calls below.
+type InvitationRow = {
+  id: number;
+  team_id: number;
+  email: string;
+  name: string | null;
+  role: string;
+  invited_at: string;
+  expires_at: string;
+  last_sent_at: string | null;
+  teams: { name: string };
+  users: { name: string | null; email: string };
+};
+
+function toInvitation(row: InvitationRow): Invitation {
+  return {
+    id: row.id,
+    teamId: row.team_id,
+    teamName: row.teams.name,
+    email: row.email,
+    name: row.name,
+    role: row.role,
+    invitedBy: { name: row.users.name, email: row.users.email },
+    invitedAt: row.invited_at,
+    expiresAt: row.expires_at,
+    lastSentAt: row.last_sent_at,
+  };
+}
+
+const INVITATION_COLUMNS =
+  'id, team_id, email, name, role, invited_at, expires_at, last_sent_at, teams(name), users!invitations_invited_by_users_id_fk(name, email)';
+
+// Gives a pending invitation a fresh link and expiry, invalidating any link
+// sent before. Returns null if the invitation is no longer pending.
+async function issueInvitationToken(invitationId: number) {
+  const nonce = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + INVITATION_TTL_MS);
+
+  const { data, error } = await supabaseAdmin
+    .from('invitations')
+    .update({
+      token_hash: hashNonce(nonce),
+      expires_at: expiresAt.toISOString(),
+      last_sent_at: new Date().toISOString(),
+    })
+    .eq('id', invitationId)
+    .eq('status', 'pending')
+    .select('id');
+  if (error) throw error;
+  if (data.length === 0) return null;
+
+  return signKeyringToken(
+    { sub: String(invitationId), nonce },
+    'invitation',
+    expiresAt
+  );
+}
+
+export type NewInvitation = {
+  email: string;
+  role: string;
+  name?: string | null;
+};
+
+export async function createInvitation(
+  options: NewInvitation & { teamId: number; invitedBy: number }
+) {
+  const [created] = await createInvitations(options.teamId, options.invitedBy, [
+    options,
+  ]);
+  return created;
+}
+
+// Inserts the invitations in one statement, then gives each its link.
+export async function createInvitations(
+  teamId: number,
+  invitedBy: number,
+  invitees: NewInvitation[]
+) {
+  if (invitees.length === 0) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from('invitations')
+    .insert(
+      invitees.map((invitee) => ({
+        team_id: teamId,
+        email: invitee.email.toLowerCase(),
+        name: invitee.name ?? null,
+        role: invitee.role,
+        invited_by: invitedBy,
+        status: 'pending',
+      }))
+    )
+    .select(INVITATION_COLUMNS)
+    .overrideTypes<InvitationRow[], { merge: false }>();
+  if (error) throw error;
+
+  return await Promise.all(
+    data.map(async (row) => ({
+      invitation: toInvitation(row),
+      token: (await issueInvitationToken(row.id))!,
+    }))
+  );
+}
+
+export async function sendInvitationEmail(
+  invitation: Invitation,
+  token: string,
+  inviter: { name: string | null; email: string }
+) {
+  const link = `${process.env.BASE_URL}/invitation?token=${token}`;
+  await sendMail({
+    to: invitation.email,
+    ...invitationEmail(link, invitation.teamName, inviter.name || inviter.email),
+  });
+}
+
+async function getInvitation(invitationId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('invitations')
+    .select(INVITATION_COLUMNS)
+    .eq('id', invitationId)
+    .eq('status', 'pending')
+    .maybeSingle()
+    .overrideTypes<InvitationRow, { merge: false }>();
+  if (error) throw error;
+
+  return data ? toInvitation(data) : null;
+}
+
+// A new link for one of the team's pending invitations, or null.
+export async function resendInvitation(teamId: number, invitationId: number) {
+  const invitation = await getInvitation(invitationId);
+  if (!invitation || invitation.teamId !== teamId) return null;
+
+  const token = await issueInvitationToken(invitationId);
+  return token ? { invitation, token } : null;
+}
+
+// The pending invitation a link points to, or null if the signature doesn't
+// verify, the link was superseded, or the invitation expired or was used.
+export async function findInvitation(token: string) {
+  const payload = await verifyKeyringToken<{ sub?: string; nonce?: unknown }>(
+    token,
+    'invitation'
+  );
+  if (!payload?.sub || typeof payload.nonce !== 'string') return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('invitations')
+    .select(INVITATION_COLUMNS)
+    .eq('id', Number(payload.sub))
+    .eq('status', 'pending')
+    .eq('token_hash', hashNonce(payload.nonce))
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle()
+    .overrideTypes<InvitationRow, { merge: false }>();
+  if (error || !data) return null;
+
+  return toInvitation(data);
+}
+
+// Marks the invitation accepted and adds the user to the team with the
+// invited role. Filtering the update on 'pending' keeps a link from being
+// used twice. Returns false if it was no longer pending.
+export async function acceptInvitation(invitation: Invitation, userId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('invitations')
+    .update({ status: 'accepted' })
+    .eq('id', invitation.id)
+    .eq('status', 'pending')
+    .select('id');
+  if (error) throw error;
+  if (data.length === 0) return false;
+
+  await addTeamMember(invitation.teamId, userId, invitation.role);
+  await syncSubscriptionSeats(invitation.teamId);
+  return true;
+}
+
+// Includes invitations whose link has expired, so they can be resent.
+export async function getPendingInvitations(teamId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('invitations')
+    .select(INVITATION_COLUMNS)
+    .eq('team_id', teamId)
+    .eq('status', 'pending')
+    .order('invited_at', { ascending: true })
+    .overrideTypes<InvitationRow[], { merge: false }>();
+  if (error) throw error;
+
+  return data.map(toInvitation);
+}
+
+// Whether `email` already has a pending invitation to the team, expired or
+// not; an expired one is renewed by resending it.
+export async function hasPendingInvitation(teamId: number, email: string) {
+  const { data, error } = await supabaseAdmin
+    .from('invitations')
+    .select('id')
+    .eq('team_id', teamId)
+    .eq('email', email.toLowerCase())
+    .eq('status', 'pending')
+    .limit(1);
+  if (error) throw error;
+
+  return data.length > 0;
+}
+
+// Returns the invitee's email, or null if there was nothing pending to revoke.
+export async function revokeInvitation(teamId: number, invitationId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('invitations')
+    .update({ status: 'revoked' })
+    .eq('id', invitationId)
+    .eq('team_id', teamId)
+    .eq('status', 'pending')
+    .select('email');
+  if (error) throw error;
+
+  return data[0]?.email ?? null;
+}
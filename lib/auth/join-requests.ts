@@ -0,0 +1,193 @@
+import { randomBytes } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { addTeamMember } from '@/lib/db/queries';
+import { syncSubscriptionSeats } from '@/lib/payments/stripe';
+
+// Requests from users to be let into a team, made from the team's shareable
+// join link or by signing up on a domain the team verified. Someone with
+// members.invite approves or rejects them. The rules:
+// - a user has at most one open request per team; asking again is a no-op,
+// - requests nobody answers expire after JOIN_REQUEST_TTL_MS,
+// - after a rejection the user can't ask again for REJECTION_COOLDOWN_MS.
+const JOIN_REQUEST_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+const REJECTION_COOLDOWN_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type JoinRequestSource = 'link' | 'domain';
+
+export type JoinRequest = {
+  id: number;
+  teamId: number;
+  user: { id: number; name: string | null; email: string };
+  source: JoinRequestSource;
+  role: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+const JOIN_REQUEST_COLUMNS =
+  'id, team_id, source, role, created_at, expires_at, users!join_requests_user_id_users_id_fk(id, name, email)';
+
+// One user per request, though supabase-js can't tell without generated
+// types.
+type JoinRequestRow = {
+  id: number;
+  team_id: number;
+  source: JoinRequestSource;
+  role: string;
+  created_at: string;
+  expires_at: string;
+  users: JoinRequest['user'];
+};
+
+function toJoinRequest(row: JoinRequestRow): JoinRequest {
+  return {
+    id: row.id,
+    teamId: row.team_id,
+    user: row.users,
+    source: row.source,
+    role: row.role,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+// Closes pending requests past their expiry so they no longer block a new one.
+async function expireJoinRequests(teamId: number) {
+  const { error } = await supabaseAdmin
+    .from('join_requests')
+    .update({ status: 'expired' })
+    .eq('team_id', teamId)
+    .eq('status', 'pending')
+    .lte('expires_at', new Date().toISOString());
+  if (error) throw error;
+}
+
+export type CreateJoinRequestResult =
+  | 'created'
+  | 'already_requested'
+  | 'recently_rejected';
+
+export async function createJoinRequest(options: {
+  teamId: number;
+  userId: number;
+  source: JoinRequestSource;
+  role?: string;
+}): Promise<CreateJoinRequestResult> {
+  await expireJoinRequests(options.teamId);
+
+  const { data: previous, error } = await supabaseAdmin
+    .from('join_requests')
+    .select('status, decided_at')
+    .eq('team_id', options.teamId)
+    .eq('user_id', options.userId)
+    .in('status', ['pending', 'rejected'])
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (previous?.status === 'pending') return 'already_requested';
+  if (
+    previous?.status === 'rejected' &&
+    Date.parse(previous.decided_at) > Date.now() - REJECTION_COOLDOWN_MS
+  ) {
+    return 'recently_rejected';
+  }
+
+  const { error: insertErr } = await supabaseAdmin
+    .from('join_requests')
+    .insert({
+      team_id: options.teamId,
+      user_id: options.userId,
+      source: options.source,
+      role: options.role ?? 'member',
+      expires_at: new Date(Date.now() + JOIN_REQUEST_TTL_MS).toISOString(),
+    });
+  if (insertErr) throw insertErr;
+  return 'created';
+}
+
+export async function getPendingJoinRequests(teamId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('join_requests')
+    .select(JOIN_REQUEST_COLUMNS)
+    .eq('team_id', teamId)
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at', { ascending: true })
+    .overrideTypes<JoinRequestRow[], { merge: false }>();
+  if (error) throw error;
+
+  return data.map(toJoinRequest);
+}
+
+// Records the decision on an open request and, if approved, adds the user
+// with the request's role. Filtering on 'pending' keeps two people from
+// deciding the same request. Returns the request, or null if it's gone.
+export async function decideJoinRequest(
+  teamId: number,
+  requestId: number,
+  decidedBy: number,
+  approve: boolean
+) {
+  const { data, error } = await supabaseAdmin
+    .from('join_requests')
+    .update({
+      status: approve ? 'approved' : 'rejected',
+      decided_by: decidedBy,
+      decided_at: new Date().toISOString(),
+    })
+    .eq('id', requestId)
+    .eq('team_id', teamId)
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+    .select(JOIN_REQUEST_COLUMNS)
+    .maybeSingle()
+    .overrideTypes<JoinRequestRow, { merge: false }>();
+  if (error) throw error;
+  if (!data) return null;
+
+  const request = toJoinRequest(data);
+  if (approve) {
+    await addTeamMember(teamId, request.user.id, request.role);
+    await syncSubscriptionSeats(teamId);
+  }
+  return request;
+}
+
+// The code in the team's shareable join link, or null while it's turned off.
+export async function getJoinCode(teamId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('teams')
+    .select('join_code')
+    .eq('id', teamId)
+    .maybeSingle();
+  if (error) throw error;
+
+  return (data?.join_code as string | null) ?? null;
+}
+
+// Replaces the team's join link, so the old one stops working, or turns it
+// off when `enabled` is false.
+export async function resetJoinCode(teamId: number, enabled = true) {
+  const joinCode = enabled ? randomBytes(12).toString('base64url') : null;
+  const { error } = await supabaseAdmin
+    .from('teams')
+    .update({ join_code: joinCode, updated_at: new Date().toISOString() })
+    .eq('id', teamId);
+  if (error) throw error;
+
+  return joinCode;
+}
+
+export async function findTeamByJoinCode(joinCode: string) {
+  const { data, error } = await supabaseAdmin
+    .from('teams')
+    .select('id, name')
+    .eq('join_code', joinCode)
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (error || !data) return null;
+
+  return { id: data.id as number, name: data.name as string };
+}
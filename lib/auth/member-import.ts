@@ -0,0 +1,191 @@
+import { z } from 'zod';
+import { getTeamWithMembers } from '@/lib/db/queries';
+import { getPendingInvitations } from '@/lib/auth/invitations';
+
+// Bulk invitations from a CSV of `email,role,name` rows. An optional header
+// row may name the columns in any order; without one they are taken in that
+// order. Every row is checked before anything is sent, so the preview and the
+// import agree on which rows go through.
+export const MAX_IMPORT_ROWS = 500;
+export const MAX_IMPORT_BYTES = 256 * 1024;
+
+const COLUMNS = ['email', 'role', 'name'] as const;
+
+const importRowSchema = z.object({
+  email: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .min(1, 'Email is missing.')
+    .email('Not a valid email address.'),
+  role: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .transform((role) => role || 'member'),
+  name: z
+    .string()
+    .trim()
+    .max(100, 'Name is longer than 100 characters.')
+    .transform((name) => name || null),
+});
+
+export type ImportRowStatus = 'ready' | 'invalid' | 'duplicate';
+
+export type ImportRow = {
+  line: number;
+  email: string;
+  role: string;
+  name: string | null;
+  status: ImportRowStatus;
+  problem?: string;
+};
+
+// RFC 4180: fields may be quoted, quotes inside them are doubled, and quoted
+// fields may span lines.
+export function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Maps column names to positions using the header row, if the first row is
+// one. Returns the mapping and whether the first row should be skipped.
+function readHeader(first: string[] | undefined) {
+  const names = (first ?? []).map((cell) => cell.trim().toLowerCase());
+  if (!names.includes('email')) {
+    return { positions: [0, 1, 2], hasHeader: false };
+  }
+  return {
+    positions: COLUMNS.map((column) => names.indexOf(column)),
+    hasHeader: true,
+  };
+}
+
+// Checks every row of the file against the team: the role must exist and be
+// one the importer may grant, and the address must not already be a member,
+// have a pending invitation, or appear earlier in the file.
+export async function previewMemberImport(
+  teamId: number,
+  csv: string,
+  options: {
+    roles: string[];
+    canAssignRoles: boolean;
+    assignableRoles: string[];
+  }
+): Promise<{ rows: ImportRow[] } | { error: string }> {
+  const records = parseCsv(csv.replace(/^\uFEFF/, ''));
+  const { positions, hasHeader } = readHeader(records[0]);
+  const lines = records
+    .map((cells, index) => ({ cells, line: index + 1 }))
+    .slice(hasHeader ? 1 : 0)
+    .filter(({ cells }) => cells.some((cell) => cell.trim() !== ''));
+
+  if (lines.length === 0) return { error: 'The file has no rows to import.' };
+  if (lines.length > MAX_IMPORT_ROWS) {
+    return {
+      error: `The file has ${lines.length} rows; import at most ${MAX_IMPORT_ROWS} at a time.`,
+    };
+  }
+
+  const [team, invitations] = await Promise.all([
+    getTeamWithMembers(teamId),
+    getPendingInvitations(teamId),
+  ]);
+  const members = new Set(
+    team?.members.map((member) => member.email.toLowerCase())
+  );
+  const invited = new Set(invitations.map((invitation) => invitation.email));
+  const seen = new Set<string>();
+
+  const rows = lines.map(({ cells, line }): ImportRow => {
+    const [email, role, name] = positions.map((position) =>
+      position >= 0 ? cells[position] ?? '' : ''
+    );
+    const parsed = importRowSchema.safeParse({ email, role, name });
+    if (!parsed.success) {
+      return {
+        line,
+        email: email.trim(),
+        role: role.trim(),
+        name: name.trim() || null,
+        status: 'invalid',
+        problem: parsed.error.errors[0].message,
+      };
+    }
+
+    const row = { line, ...parsed.data };
+    if (!options.roles.includes(row.role)) {
+      return { ...row, status: 'invalid', problem: `Unknown role "${row.role}".` };
+    }
+    if (row.role !== 'member' && !options.canAssignRoles) {
+      return {
+        ...row,
+        status: 'invalid',
+        problem: 'You can only invite members with the member role.',
+      };
+    }
+    if (!options.assignableRoles.includes(row.role)) {
+      return {
+        ...row,
+        status: 'invalid',
+        problem:
+          row.role === 'owner'
+            ? 'Only owners can invite owners.'
+            : "You can't invite someone with permissions you don't have.",
+      };
+    }
+    if (members.has(row.email)) {
+      return { ...row, status: 'duplicate', problem: 'Already a member.' };
+    }
+    if (invited.has(row.email)) {
+      return { ...row, status: 'duplicate', problem: 'Already invited.' };
+    }
+    if (seen.has(row.email)) {
+      return {
+        ...row,
+        status: 'duplicate',
+        problem: 'Appears earlier in the file.',
+      };
+    }
+
+    seen.add(row.email);
+    return { ...row, status: 'ready' };
+  });
+
+  return { rows };
+}
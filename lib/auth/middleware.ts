@@ -1,7 +1,19 @@
 import { z } from 'zod';
 import { TeamDataWithMembers, User } from '@/lib/db/schema';
-import { getTeamForUser, getUser } from '@/lib/db/queries';
+import {
+  getTeamForUser,
+  getUser,
+  getUserWithTeam
+} from '@/lib/db/queries';
 import { redirect } from 'next/navigation';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  API_SCOPE_NAMES,
+  findApiToken,
+  type ApiScope
+} from '@/lib/auth/api-tokens';
+import { getSession } from '@/lib/auth/session';
+import { hasPermission, type Permission } from '@/lib/auth/permissions';
 
 export type ActionState = {
   error?: string;
@@ -34,9 +46,41 @@ type ValidatedActionWithUserFunction<S extends z.ZodType<any, any>, T> = (
   user: User
 ) => Promise<T>;
 
+// Declares what the caller must be allowed to do in their active team.
+// Actions are refused to an impersonating superadmin unless they opt in with
+// `allowWhileImpersonating`, which only actions that change nothing on the
+// user's behalf should do.
+type AuthorizationOptions = {
+  permission?: Permission;
+  allowWhileImpersonating?: boolean;
+};
+
+const PERMISSION_DENIED = "You don't have permission to do that.";
+const IMPERSONATION_BLOCKED =
+  'This action is disabled while impersonating a user.';
+
+async function isImpersonating() {
+  const session = await getSession().catch(() => null);
+  return !!session?.impersonator;
+}
+
+async function isBlocked(options: AuthorizationOptions) {
+  return !options.allowWhileImpersonating && (await isImpersonating());
+}
+
+async function isAuthorized(userId: number, options: AuthorizationOptions) {
+  if (!options.permission) return true;
+
+  const uwt = await getUserWithTeam(userId);
+  return (
+    !!uwt?.teamId && (await hasPermission(userId, uwt.teamId, options.permission))
+  );
+}
+
 export function validatedActionWithUser<S extends z.ZodType<any, any>, T>(
   schema: S,
-  action: ValidatedActionWithUserFunction<S, T>
+  action: ValidatedActionWithUserFunction<S, T>,
+  options: AuthorizationOptions = {}
 ) {
   return async (prevState: ActionState, formData: FormData): Promise<T> => {
     const user = await getUser();
@@ -44,6 +88,13 @@ export function validatedActionWithUser<S extends z.ZodType<any, any>, T>(
       throw new Error('User is not authenticated');
     }
 
+    if (await isBlocked(options)) {
+      return { error: IMPERSONATION_BLOCKED } as T;
+    }
+    if (!(await isAuthorized(user.id, options))) {
+      return { error: PERMISSION_DENIED } as T;
+    }
+
     const result = schema.safeParse(Object.fromEntries(formData));
     if (!result.success) {
       return { error: result.error.errors[0].message } as T;
@@ -58,13 +109,25 @@ type ActionWithTeamFunction<T> = (
   team: TeamDataWithMembers
 ) => Promise<T>;
 
-export function withTeam<T>(action: ActionWithTeamFunction<T>) {
+export function withTeam<T>(
+  action: ActionWithTeamFunction<T>,
+  options: AuthorizationOptions = {}
+) {
   return async (formData: FormData): Promise<T> => {
     const user = await getUser();
     if (!user) {
       redirect('/sign-in');
     }
 
+    // withTeam actions are plain form actions with no state to return an
+    // error into.
+    if (await isBlocked(options)) {
+      throw new Error(IMPERSONATION_BLOCKED);
+    }
+    if (!(await isAuthorized(user.id, options))) {
+      throw new Error(PERMISSION_DENIED);
+    }
+
     const team = await getTeamForUser(user.id);
     if (!team) {
       throw new Error('Team not found');
@@ -73,3 +136,134 @@ export function withTeam<T>(action: ActionWithTeamFunction<T>) {
     return action(formData, team);
   };
 }
+
+// Who an API request is acting as. Sessions carry every scope, or only the
+// read scopes while impersonating; tokens only the ones they were created
+// with. Team tokens have no user, but remember who created them.
+export type ApiPrincipal = {
+  via: 'session' | 'token';
+  userId: number | null;
+  teamId: number | null;
+  scopes: ApiScope[] | 'all';
+  tokenId?: number;
+  createdBy?: number;
+};
+
+const READ_SCOPES = API_SCOPE_NAMES.filter((scope) => scope.endsWith(':read'));
+
+export function hasScope(principal: ApiPrincipal, scope: ApiScope) {
+  return principal.scopes === 'all' || principal.scopes.includes(scope);
+}
+
+// Accepts `Authorization: Bearer <token>` and falls back to the session
+// cookie, so the same route serves scripts and the dashboard.
+export async function authenticateRequest(
+  request: NextRequest
+): Promise<ApiPrincipal | null> {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.toLowerCase().startsWith('bearer ')) {
+    const token = await findApiToken(authorization.slice(7).trim());
+    if (!token) return null;
+
+    if (token.teamId) {
+      return {
+        via: 'token',
+        userId: null,
+        teamId: token.teamId,
+        scopes: token.scopes,
+        tokenId: token.id,
+        createdBy: token.createdBy,
+      };
+    }
+
+    const uwt = await getUserWithTeam(token.userId!);
+    if (!uwt || uwt.user.deleted_at) return null;
+    return {
+      via: 'token',
+      userId: uwt.user.id,
+      teamId: uwt.teamId,
+      scopes: token.scopes,
+      tokenId: token.id,
+    };
+  }
+
+  const user = await getUser();
+  if (!user) return null;
+
+  // An impersonating superadmin can look but not change anything, here as in
+  // server actions.
+  const uwt = await getUserWithTeam(user.id);
+  return {
+    via: 'session',
+    userId: user.id,
+    teamId: uwt?.teamId ?? null,
+    scopes: (await isImpersonating()) ? READ_SCOPES : 'all',
+  };
+}
+
+type ApiRouteHandler<C> = (
+  request: NextRequest,
+  principal: ApiPrincipal,
+  context: C
+) => Promise<Response>;
+
+// Declares what the caller must be allowed to do in their team, on top of
+// the scopes. A token acting as a user can't do more than that user could
+// from the dashboard, and a team token can't do more than whoever created
+// it still can.
+type ApiAuthorizationOptions = {
+  permission?: Permission;
+};
+
+// The user whose permissions bound the request.
+export function getApiActor(principal: ApiPrincipal) {
+  return principal.userId ?? principal.createdBy ?? null;
+}
+
+async function hasApiPermission(
+  principal: ApiPrincipal,
+  teamId: number,
+  permission: Permission
+) {
+  const actor = getApiActor(principal);
+  return !!actor && (await hasPermission(actor, teamId, permission));
+}
+
+export function withApiAuth<C = unknown>(
+  scopes: ApiScope[],
+  handler: ApiRouteHandler<C>,
+  options: ApiAuthorizationOptions = {}
+) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const principal = await authenticateRequest(request);
+    if (!principal) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+      );
+    }
+
+    const missing = scopes.filter((scope) => !hasScope(principal, scope));
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: 'Insufficient scope', required: missing },
+        { status: 403 }
+      );
+    }
+
+    if (options.permission) {
+      if (!principal.teamId) {
+        return NextResponse.json({ error: 'Team not found' }, { status: 404 });
+      }
+      const { teamId } = principal;
+      if (!(await hasApiPermission(principal, teamId, options.permission))) {
+        return NextResponse.json(
+          { error: `Missing permission ${options.permission}` },
+          { status: 403 }
+        );
+      }
+    }
+
+    return handler(request, principal, context);
+  };
+}
@@ -0,0 +1,344 @@
+import { createHash, randomBytes } from 'crypto';
+import { createRemoteJWKSet, jwtVerify, type JWTPayload } from 'jose';
+import { cookies } from 'next/headers';
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { signKeyringToken, verifyKeyringToken } from '@/lib/auth/keys';
+
+const FLOW_TTL_MS = 10 * 60 * 1000;
+
+// Providers are configured entirely through the environment:
+//
+//   OIDC_PROVIDERS=google,acme
+//   OIDC_GOOGLE_ISSUER=https://accounts.google.com
+//   OIDC_GOOGLE_CLIENT_ID=...
+//   OIDC_GOOGLE_CLIENT_SECRET=...
+//   OIDC_GOOGLE_NAME=Google            (optional, defaults to the id)
+//   OIDC_GOOGLE_SCOPES=openid email    (optional)
+//
+// Any issuer that publishes /.well-known/openid-configuration works, including
+// a mock IdP on localhost for development and tests.
+export type OidcProvider = {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+};
+
+type ProviderMetadata = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+};
+
+// Carried through the redirect to the IdP in a signed cookie.
+type FlowData = {
+  provider: string;
+  state: string;
+  nonce: string;
+  verifier: string;
+  mode: 'sign-in' | 'link';
+  redirect?: string;
+  priceId?: string;
+};
+
+// An identity whose email matched an existing account, waiting for that
+// account's owner to sign in before it is linked.
+type PendingLinkData = {
+  provider: string;
+  subject: string;
+  email: string;
+  userId: number;
+};
+
+export type OidcClaims = {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+};
+
+export type LinkedIdentity = {
+  id: number;
+  provider: string;
+  email: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+export function getOidcProviders(): OidcProvider[] {
+  const ids = (process.env.OIDC_PROVIDERS || '')
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter(Boolean);
+
+  return ids.flatMap((id) => {
+    const prefix = `OIDC_${id.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_`;
+    const issuer = process.env[`${prefix}ISSUER`];
+    const clientId = process.env[`${prefix}CLIENT_ID`];
+    const clientSecret = process.env[`${prefix}CLIENT_SECRET`];
+    if (!issuer || !clientId || !clientSecret) {
+      console.error(`OIDC provider "${id}" is missing configuration`);
+      return [];
+    }
+
+    return [
+      {
+        id,
+        name: process.env[`${prefix}NAME`] || id,
+        issuer: issuer.replace(/\/$/, ''),
+        clientId,
+        clientSecret,
+        scopes: process.env[`${prefix}SCOPES`] || 'openid email profile',
+      },
+    ];
+  });
+}
+
+export function getOidcProvider(id: string) {
+  return getOidcProviders().find((provider) => provider.id === id) ?? null;
+}
+
+const metadataCache = new Map<string, Promise<ProviderMetadata>>();
+
+function discover(provider: OidcProvider) {
+  let metadata = metadataCache.get(provider.issuer);
+  if (!metadata) {
+    metadata = fetch(
+      `${provider.issuer}/.well-known/openid-configuration`
+    ).then(async (res) => {
+      if (!res.ok) {
+        metadataCache.delete(provider.issuer);
+        throw new Error(`OIDC discovery failed for ${provider.issuer}`);
+      }
+      return res.json();
+    });
+    metadataCache.set(provider.issuer, metadata);
+  }
+  return metadata;
+}
+
+const jwksCache = new Map<string, ReturnType<typeof createRemoteJWKSet>>();
+
+function getJwks(jwksUri: string) {
+  let jwks = jwksCache.get(jwksUri);
+  if (!jwks) {
+    jwks = createRemoteJWKSet(new URL(jwksUri));
+    jwksCache.set(jwksUri, jwks);
+  }
+  return jwks;
+}
+
+function redirectUri(provider: OidcProvider) {
+  return `${process.env.BASE_URL}/api/auth/oidc/${provider.id}/callback`;
+}
+
+function randomString() {
+  return randomBytes(32).toString('base64url');
+}
+
+async function signCookie(name: string, payload: JWTPayload, ttlMs: number) {
+  const expires = new Date(Date.now() + ttlMs);
+  // The cookie's name is its `typ`, so a flow can't stand in for a link.
+  const token = await signKeyringToken(payload, name, expires);
+
+  (await cookies()).set(name, token, {
+    expires,
+    httpOnly: true,
+    secure: true,
+    sameSite: 'lax',
+  });
+}
+
+// Reads and deletes a signed cookie, returning null if it's missing or bad.
+async function takeCookie<T>(name: string) {
+  const cookieStore = await cookies();
+  const token = cookieStore.get(name)?.value;
+  cookieStore.delete(name);
+  if (!token) return null;
+
+  return await verifyKeyringToken<T>(token, name);
+}
+
+//
+// Authorization code + PKCE
+//
+
+export async function createAuthorizationUrl(
+  provider: OidcProvider,
+  options: Pick<FlowData, 'mode' | 'redirect' | 'priceId'>
+) {
+  const metadata = await discover(provider);
+  const flow: FlowData = {
+    provider: provider.id,
+    state: randomString(),
+    nonce: randomString(),
+    verifier: randomString(),
+    ...options,
+  };
+  await signCookie('oidc_flow', flow, FLOW_TTL_MS);
+
+  const challenge = createHash('sha256')
+    .update(flow.verifier)
+    .digest('base64url');
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: provider.clientId,
+    redirect_uri: redirectUri(provider),
+    scope: provider.scopes,
+    state: flow.state,
+    nonce: flow.nonce,
+    code_challenge: challenge,
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return url;
+}
+
+// Exchanges the authorization code and validates the ID token (signature via
+// the provider's JWKS, issuer, audience, expiry and nonce). Returns null for
+// anything that doesn't check out.
+export async function handleAuthorizationResponse(
+  provider: OidcProvider,
+  params: URLSearchParams
+) {
+  const flow = await takeCookie<FlowData>('oidc_flow');
+  const code = params.get('code');
+  if (
+    !flow ||
+    !code ||
+    flow.provider !== provider.id ||
+    flow.state !== params.get('state')
+  ) {
+    return null;
+  }
+
+  const metadata = await discover(provider);
+  const res = await fetch(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: redirectUri(provider),
+      client_id: provider.clientId,
+      client_secret: provider.clientSecret,
+      code_verifier: flow.verifier,
+    }),
+  });
+  if (!res.ok) {
+    console.error('OIDC token exchange failed:', res.status, await res.text());
+    return null;
+  }
+
+  const { id_token: idToken } = await res.json();
+  if (typeof idToken !== 'string') return null;
+
+  try {
+    const { payload } = await jwtVerify(idToken, getJwks(metadata.jwks_uri), {
+      issuer: metadata.issuer,
+      audience: provider.clientId,
+    });
+    if (payload.nonce !== flow.nonce || !payload.sub) return null;
+
+    const claims: OidcClaims = {
+      subject: payload.sub,
+      email:
+        typeof payload.email === 'string' ? payload.email.toLowerCase() : null,
+      emailVerified: payload.email_verified === true,
+      name: typeof payload.name === 'string' ? payload.name : null,
+    };
+    return { flow, claims };
+  } catch (error) {
+    console.error('OIDC ID token validation failed:', error);
+    return null;
+  }
+}
+
+//
+// Pending account link
+//
+
+export async function setPendingIdentityLink(link: PendingLinkData) {
+  await signCookie('oidc_pending_link', link, FLOW_TTL_MS);
+}
+
+// Links the waiting identity if the user who just signed in is the account
+// it matched. Anyone else signing in simply discards it.
+export async function completePendingIdentityLink(userId: number) {
+  const link = await takeCookie<PendingLinkData>('oidc_pending_link');
+  if (!link || link.userId !== userId) return;
+
+  await linkIdentity(userId, link.provider, {
+    subject: link.subject,
+    email: link.email,
+  });
+}
+
+//
+// Persistence
+//
+
+export async function findIdentity(provider: string, subject: string) {
+  const { data, error } = await supabaseAdmin
+    .from('user_identities')
+    .select('id, user_id')
+    .eq('provider', provider)
+    .eq('subject', subject)
+    .maybeSingle();
+  if (error || !data) return null;
+
+  return { id: data.id as number, userId: data.user_id as number };
+}
+
+export async function linkIdentity(
+  userId: number,
+  provider: string,
+  claims: Pick<OidcClaims, 'subject' | 'email'>
+) {
+  const { error } = await supabaseAdmin.from('user_identities').insert({
+    user_id: userId,
+    provider,
+    subject: claims.subject,
+    email: claims.email,
+  });
+  if (error) throw error;
+}
+
+export async function touchIdentity(identityId: number) {
+  await supabaseAdmin
+    .from('user_identities')
+    .update({ last_used_at: new Date().toISOString() })
+    .eq('id', identityId);
+}
+
+export async function getIdentitiesForUser(
+  userId: number
+): Promise<LinkedIdentity[]> {
+  const { data, error } = await supabaseAdmin
+    .from('user_identities')
+    .select('id, provider, email, created_at, last_used_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+
+  return data.map((row) => ({
+    id: row.id,
+    provider: row.provider,
+    email: row.email,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+  }));
+}
+
+export async function unlinkIdentity(userId: number, identityId: number) {
+  const { error } = await supabaseAdmin
+    .from('user_identities')
+    .delete()
+    .eq('id', identityId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
@@ -0,0 +1,191 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { cancelSubscription } from '@/lib/payments/stripe';
+import { getTeamRole, updateTeamMemberRole } from '@/lib/db/queries';
+
+// Ownership only changes hands with both sides agreeing: an owner offers it,
+// confirming with their password, and the recipient accepts. The offering
+// owner steps down to member at that point. Together with the last-owner
+// checks in the team actions, this keeps every team with at least one owner.
+const TRANSFER_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+type TransferUser = { id: number; name: string | null; email: string };
+
+export type OwnershipTransfer = {
+  id: number;
+  teamId: number;
+  from: TransferUser;
+  to: TransferUser;
+  createdAt: string;
+  expiresAt: string;
+};
+
+const TRANSFER_COLUMNS =
+  'id, team_id, created_at, expires_at, from:users!ownership_transfers_from_user_id_users_id_fk(id, name, email), to:users!ownership_transfers_to_user_id_users_id_fk(id, name, email)';
+
+// Each end is one user, though supabase-js can't tell without generated
+// types.
+type TransferRow = {
+  id: number;
+  team_id: number;
+  created_at: string;
+  expires_at: string;
+  from: TransferUser;
+  to: TransferUser;
+};
+
+function toTransfer(row: TransferRow): OwnershipTransfer {
+  return {
+    id: row.id,
+    teamId: row.team_id,
+    from: row.from,
+    to: row.to,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+// A team has at most one pending offer; making a new one replaces it.
+export async function requestOwnershipTransfer(
+  teamId: number,
+  fromUserId: number,
+  toUserId: number
+) {
+  await cancelOwnershipTransfer(teamId);
+
+  const { error } = await supabaseAdmin.from('ownership_transfers').insert({
+    team_id: teamId,
+    from_user_id: fromUserId,
+    to_user_id: toUserId,
+    expires_at: new Date(Date.now() + TRANSFER_TTL_MS).toISOString(),
+  });
+  if (error) throw error;
+}
+
+export async function getPendingTransfer(teamId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('ownership_transfers')
+    .select(TRANSFER_COLUMNS)
+    .eq('team_id', teamId)
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle()
+    .overrideTypes<TransferRow, { merge: false }>();
+  if (error) throw error;
+
+  return data ? toTransfer(data) : null;
+}
+
+// Closes the pending offer addressed to `userId`. Filtering on 'pending'
+// keeps an offer from being answered twice. Returns the offer, or null.
+async function respondToTransfer(
+  teamId: number,
+  transferId: number,
+  userId: number,
+  status: 'accepted' | 'declined'
+) {
+  const { data, error } = await supabaseAdmin
+    .from('ownership_transfers')
+    .update({ status, responded_at: new Date().toISOString() })
+    .eq('id', transferId)
+    .eq('team_id', teamId)
+    .eq('to_user_id', userId)
+    .eq('status', 'pending')
+    .gt('expires_at', new Date().toISOString())
+    .select(TRANSFER_COLUMNS)
+    .maybeSingle()
+    .overrideTypes<TransferRow, { merge: false }>();
+  if (error) throw error;
+
+  return data ? toTransfer(data) : null;
+}
+
+// Makes the recipient an owner and the offering owner a member. Returns null
+// if the offer is gone, or if whoever made it is no longer an owner.
+export async function acceptOwnershipTransfer(
+  teamId: number,
+  transferId: number,
+  userId: number
+) {
+  // Checked before the offer is closed, so one that can't go through stays
+  // open rather than being marked accepted.
+  const pending = await getPendingTransfer(teamId);
+  if (pending?.id !== transferId || pending.to.id !== userId) return null;
+  if ((await getTeamRole(pending.from.id, teamId)) !== 'owner') return null;
+  if (!(await getTeamRole(userId, teamId))) return null;
+
+  const transfer = await respondToTransfer(teamId, transferId, userId, 'accepted');
+  if (!transfer) return null;
+
+  // Promote first, so the team has an owner at every step.
+  await updateTeamMemberRole(teamId, userId, 'owner');
+  await updateTeamMemberRole(teamId, transfer.from.id, 'member');
+  return transfer;
+}
+
+export async function declineOwnershipTransfer(
+  teamId: number,
+  transferId: number,
+  userId: number
+) {
+  return !!(await respondToTransfer(teamId, transferId, userId, 'declined'));
+}
+
+export async function cancelOwnershipTransfer(teamId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('ownership_transfers')
+    .update({ status: 'cancelled', responded_at: new Date().toISOString() })
+    .eq('team_id', teamId)
+    .eq('status', 'pending')
+    .select('id');
+  if (error) throw error;
+
+  return data.length > 0;
+}
+
+// Deletes a team for good: cancels its subscription, removes every member,
+// turns off its join link and closes outstanding invitations, join requests,
+// offers and team tokens. The row itself is kept (with deleted_at) so its
+// activity log still resolves.
+export async function deleteTeam(teamId: number) {
+  const { data: team, error } = await supabaseAdmin
+    .from('teams')
+    .select('stripe_subscription_id')
+    .eq('id', teamId)
+    .is('deleted_at', null)
+    .maybeSingle();
+  if (error) throw error;
+  if (!team) return false;
+
+  if (team.stripe_subscription_id) {
+    await cancelSubscription(team.stripe_subscription_id);
+  }
+
+  const now = new Date().toISOString();
+  await cancelOwnershipTransfer(teamId);
+  const results = await Promise.all([
+    supabaseAdmin
+      .from('invitations')
+      .update({ status: 'revoked' })
+      .eq('team_id', teamId)
+      .eq('status', 'pending'),
+    supabaseAdmin
+      .from('api_tokens')
+      .update({ revoked_at: now })
+      .eq('team_id', teamId)
+      .is('revoked_at', null),
+    supabaseAdmin
+      .from('join_requests')
+      .update({ status: 'expired' })
+      .eq('team_id', teamId)
+      .eq('status', 'pending'),
+    supabaseAdmin.from('team_members').delete().eq('team_id', teamId),
+    supabaseAdmin
+      .from('teams')
+      .update({ deleted_at: now, updated_at: now, join_code: null })
+      .eq('id', teamId),
+  ]);
+  const failed = results.find((result) => result.error);
+  if (failed) throw failed.error;
+
+  return true;
+}
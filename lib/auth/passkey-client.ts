@@ -0,0 +1,86 @@
+import {
+  startAuthentication,
+  startRegistration,
+  WebAuthnAbortService,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON
+} from '@simplewebauthn/browser';
+import { ActionState } from '@/lib/auth/middleware';
+
+type PasskeyAction = (
+  prevState: ActionState,
+  formData: FormData
+) => Promise<ActionState | void>;
+
+function toFormData(fields: Record<string, string>) {
+  const formData = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    formData.set(name, value);
+  }
+  return formData;
+}
+
+// Runs one browser ceremony between a pair of server actions: `start` returns
+// the options (and stores the challenge), `finish` verifies the response.
+async function runCeremony<
+  Options extends
+    | PublicKeyCredentialCreationOptionsJSON
+    | PublicKeyCredentialRequestOptionsJSON
+>(
+  start: PasskeyAction,
+  finish: PasskeyAction,
+  ceremony: (options: Options) => Promise<unknown>,
+  fields: Record<string, string>
+): Promise<ActionState> {
+  const started = await start({}, new FormData());
+  if (!started?.options) {
+    return { error: started?.error || 'Could not start passkey request.' };
+  }
+
+  let response: unknown;
+  try {
+    response = await ceremony(started.options as Options);
+  } catch (error) {
+    WebAuthnAbortService.cancelCeremony();
+    return {
+      error:
+        error instanceof Error && error.name === 'NotAllowedError'
+          ? 'Passkey request was cancelled.'
+          : 'Your browser could not complete the passkey request.'
+    };
+  }
+
+  // A successful sign-in redirects from inside `finish`, so it may not
+  // return at all.
+  const finished = await finish(
+    {},
+    toFormData({ ...fields, response: JSON.stringify(response) })
+  );
+  return finished ?? {};
+}
+
+export function authenticateWithPasskey(
+  start: PasskeyAction,
+  finish: PasskeyAction,
+  fields: Record<string, string> = {}
+) {
+  return runCeremony<PublicKeyCredentialRequestOptionsJSON>(
+    start,
+    finish,
+    (optionsJSON) => startAuthentication({ optionsJSON }),
+    fields
+  );
+}
+
+export function registerPasskey(
+  start: PasskeyAction,
+  finish: PasskeyAction,
+  fields: Record<string, string> = {}
+) {
+  return runCeremony<PublicKeyCredentialCreationOptionsJSON>(
+    start,
+    finish,
+    (optionsJSON) => startRegistration({ optionsJSON }),
+    fields
+  );
+}
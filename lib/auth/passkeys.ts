@@ -0,0 +1,304 @@
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type AuthenticatorTransportFuture,
+  type RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+import { isoBase64URL, isoUint8Array } from '@simplewebauthn/server/helpers';
+import { cookies } from 'next/headers';
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { signKeyringToken, verifyKeyringToken } from '@/lib/auth/keys';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+// Read when a ceremony runs rather than at import, so modules that only
+// pull in a type or a query from here work without BASE_URL.
+function relyingParty() {
+  return {
+    rpName: process.env.WEBAUTHN_RP_NAME || 'ACME',
+    rpID: process.env.WEBAUTHN_RP_ID || new URL(process.env.BASE_URL!).hostname,
+    expectedOrigin: process.env.BASE_URL!,
+  };
+}
+
+// What a ceremony is for. The challenge cookie is bound to one purpose so a
+// challenge issued for step-up can't be replayed to sign in, and vice versa.
+export type PasskeyPurpose = 'register' | 'sign-in' | 'second-factor' | 'step-up';
+
+type ChallengeData = {
+  challenge: string;
+  purpose: PasskeyPurpose;
+  userId?: number;
+};
+
+export type Passkey = {
+  id: number;
+  userId: number;
+  credentialId: string;
+  publicKey: string;
+  counter: number;
+  transports: AuthenticatorTransportFuture[];
+  name: string | null;
+  deviceType: string | null;
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+};
+
+type PasskeyRow = {
+  id: number;
+  user_id: number;
+  credential_id: string;
+  public_key: string;
+  // bigint, which may arrive as a string.
+  counter: number | string;
+  transports: string | null;
+  name: string | null;
+  device_type: string | null;
+  backed_up: boolean;
+  created_at: string;
+  last_used_at: string | null;
+};
+
+function toPasskey(row: PasskeyRow): Passkey {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    credentialId: row.credential_id,
+    publicKey: row.public_key,
+    counter: Number(row.counter),
+    transports: row.transports
+      ? (row.transports.split(',') as AuthenticatorTransportFuture[])
+      : [],
+    name: row.name,
+    deviceType: row.device_type,
+    backedUp: row.backed_up,
+    createdAt: row.created_at,
+    lastUsedAt: row.last_used_at,
+  };
+}
+
+//
+// Challenge cookie
+//
+
+async function saveChallenge(data: ChallengeData) {
+  const expires = new Date(Date.now() + CHALLENGE_TTL_MS);
+  const token = await signKeyringToken(data, 'webauthn-challenge', expires);
+
+  (await cookies()).set('webauthn_challenge', token, {
+    expires,
+    httpOnly: true,
+    secure: true,
+    sameSite: 'strict',
+  });
+}
+
+// Reads and clears the challenge so every ceremony is single-use.
+async function takeChallenge(purpose: PasskeyPurpose) {
+  const cookieStore = await cookies();
+  const token = cookieStore.get('webauthn_challenge')?.value;
+  cookieStore.delete('webauthn_challenge');
+  if (!token) return null;
+
+  const data = await verifyKeyringToken<ChallengeData>(
+    token,
+    'webauthn-challenge'
+  );
+  return data?.purpose === purpose ? data : null;
+}
+
+//
+// Registration
+//
+
+export async function createRegistrationOptions(user: {
+  id: number;
+  email: string;
+  name?: string | null;
+}) {
+  const { rpName, rpID } = relyingParty();
+  const existing = await getPasskeysForUser(user.id);
+  const options = await generateRegistrationOptions({
+    rpName,
+    rpID,
+    userName: user.email,
+    userDisplayName: user.name || user.email,
+    userID: isoUint8Array.fromUTF8String(String(user.id)),
+    attestationType: 'none',
+    excludeCredentials: existing.map((passkey) => ({
+      id: passkey.credentialId,
+      transports: passkey.transports,
+    })),
+    authenticatorSelection: {
+      residentKey: 'required',
+      userVerification: 'preferred',
+    },
+  });
+
+  await saveChallenge({
+    challenge: options.challenge,
+    purpose: 'register',
+    userId: user.id,
+  });
+  return options;
+}
+
+export async function verifyRegistration(
+  userId: number,
+  response: RegistrationResponseJSON,
+  name: string | null
+) {
+  const challenge = await takeChallenge('register');
+  if (!challenge || challenge.userId !== userId) return null;
+
+  const { rpID, expectedOrigin } = relyingParty();
+  let verification;
+  try {
+    verification = await verifyRegistrationResponse({
+      response,
+      expectedChallenge: challenge.challenge,
+      expectedOrigin,
+      expectedRPID: rpID,
+      requireUserVerification: false,
+    });
+  } catch (error) {
+    console.error('Passkey registration failed:', error);
+    return null;
+  }
+  if (!verification.verified) return null;
+
+  const { credential, credentialDeviceType, credentialBackedUp } =
+    verification.registrationInfo;
+
+  const { data, error } = await supabaseAdmin
+    .from('passkeys')
+    .insert({
+      user_id: userId,
+      credential_id: credential.id,
+      public_key: isoBase64URL.fromBuffer(credential.publicKey),
+      counter: credential.counter,
+      transports: (credential.transports ?? []).join(','),
+      name,
+      device_type: credentialDeviceType,
+      backed_up: credentialBackedUp,
+    })
+    .select('*')
+    .single();
+  if (error) throw error;
+
+  return toPasskey(data);
+}
+
+//
+// Authentication
+//
+
+// Without a user this asks for a discoverable credential (passwordless
+// sign-in); with one, only that user's credentials are allowed.
+export async function createAuthenticationOptions(
+  purpose: Exclude<PasskeyPurpose, 'register'>,
+  userId?: number
+) {
+  const allowCredentials = userId
+    ? (await getPasskeysForUser(userId)).map((passkey) => ({
+        id: passkey.credentialId,
+        transports: passkey.transports,
+      }))
+    : undefined;
+
+  const options = await generateAuthenticationOptions({
+    rpID: relyingParty().rpID,
+    allowCredentials,
+    userVerification: purpose === 'sign-in' ? 'required' : 'preferred',
+  });
+
+  await saveChallenge({ challenge: options.challenge, purpose, userId });
+  return options;
+}
+
+// Returns the passkey that signed the challenge, or null. A counter that
+// fails to increase points to a cloned authenticator and is rejected by
+// verifyAuthenticationResponse.
+export async function verifyAuthentication(
+  purpose: Exclude<PasskeyPurpose, 'register'>,
+  response: AuthenticationResponseJSON
+) {
+  const challenge = await takeChallenge(purpose);
+  if (!challenge) return null;
+
+  const passkey = await getPasskeyByCredentialId(response.id);
+  if (!passkey) return null;
+  if (challenge.userId && challenge.userId !== passkey.userId) return null;
+
+  const { rpID, expectedOrigin } = relyingParty();
+  let verification;
+  try {
+    verification = await verifyAuthenticationResponse({
+      response,
+      expectedChallenge: challenge.challenge,
+      expectedOrigin,
+      expectedRPID: rpID,
+      credential: {
+        id: passkey.credentialId,
+        publicKey: isoBase64URL.toBuffer(passkey.publicKey),
+        counter: passkey.counter,
+        transports: passkey.transports,
+      },
+      requireUserVerification: purpose === 'sign-in',
+    });
+  } catch (error) {
+    console.error('Passkey verification failed:', error);
+    return null;
+  }
+  if (!verification.verified) return null;
+
+  const { error } = await supabaseAdmin
+    .from('passkeys')
+    .update({
+      counter: verification.authenticationInfo.newCounter,
+      last_used_at: new Date().toISOString(),
+    })
+    .eq('id', passkey.id);
+  if (error) throw error;
+
+  return passkey;
+}
+
+//
+// Persistence
+//
+
+export async function getPasskeysForUser(userId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('passkeys')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+
+  return data.map(toPasskey);
+}
+
+async function getPasskeyByCredentialId(credentialId: string) {
+  const { data, error } = await supabaseAdmin
+    .from('passkeys')
+    .select('*')
+    .eq('credential_id', credentialId)
+    .maybeSingle();
+  if (error || !data) return null;
+
+  return toPasskey(data);
+}
+
+export async function deletePasskey(userId: number, passkeyId: number) {
+  const { error } = await supabaseAdmin
+    .from('passkeys')
+    .delete()
+    .eq('id', passkeyId)
+    .eq('user_id', userId);
+  if (error) throw error;
+}
@@ -0,0 +1,185 @@
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { getTeamRole } from '@/lib/db/queries';
+
+// Everything a team role can allow. Server actions declare the permission
+// they need (see `validatedActionWithUser` and `withTeam`), and pages pass the
+// caller's permissions down so the UI can hide what they can't use.
+export const PERMISSIONS = {
+  'members.invite': 'Invite new members',
+  'members.remove': 'Remove members',
+  'roles.manage': 'Create roles and change members’ roles',
+  'billing.manage': 'Manage the subscription',
+  'audit.read': 'Read the team activity log',
+  'audit.manage': 'Choose how long the activity log is kept',
+  'api_tokens.manage': 'Create and revoke team API tokens',
+  'domains.manage': 'Claim and verify email domains',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_NAMES = Object.keys(PERMISSIONS) as [
+  Permission,
+  ...Permission[]
+];
+
+// Built-in roles exist in every team. Teams add their own alongside them in
+// `team_roles`; a member's `role` column holds the role's name either way.
+export const BUILT_IN_ROLES: Record<string, Permission[]> = {
+  owner: PERMISSION_NAMES,
+  member: [],
+};
+
+export function isBuiltInRole(role: string) {
+  return Object.hasOwn(BUILT_IN_ROLES, role);
+}
+
+export type TeamRole = {
+  id: number | null;
+  name: string;
+  permissions: Permission[];
+  builtIn: boolean;
+};
+
+// Built-in roles first, then the team's custom roles by name.
+export async function getTeamRoles(teamId: number): Promise<TeamRole[]> {
+  const { data, error } = await supabaseAdmin
+    .from('team_roles')
+    .select('id, name, permissions')
+    .eq('team_id', teamId)
+    .order('name', { ascending: true });
+  if (error) throw error;
+
+  return [
+    ...Object.entries(BUILT_IN_ROLES).map(([name, permissions]) => ({
+      id: null,
+      name,
+      permissions,
+      builtIn: true,
+    })),
+    ...data.map((row) => ({
+      id: row.id,
+      name: row.name,
+      permissions: row.permissions,
+      builtIn: false,
+    })),
+  ];
+}
+
+export async function getRolePermissions(
+  teamId: number,
+  role: string
+): Promise<Permission[]> {
+  if (isBuiltInRole(role)) return BUILT_IN_ROLES[role];
+
+  const { data, error } = await supabaseAdmin
+    .from('team_roles')
+    .select('permissions')
+    .eq('team_id', teamId)
+    .eq('name', role)
+    .maybeSingle();
+  if (error) throw error;
+
+  return data?.permissions ?? [];
+}
+
+export async function getPermissions(
+  userId: number,
+  teamId: number
+): Promise<Permission[]> {
+  const role = await getTeamRole(userId, teamId);
+  return role ? getRolePermissions(teamId, role) : [];
+}
+
+export async function hasPermission(
+  userId: number,
+  teamId: number,
+  permission: Permission
+) {
+  return (await getPermissions(userId, teamId)).includes(permission);
+}
+
+// What someone may hand out: never more than they hold themselves, and
+// ownership only if they are an owner. Without this, roles.manage alone
+// would be enough to give yourself every other permission.
+export type Grantor = {
+  role: string | null;
+  permissions: Permission[];
+};
+
+export async function getGrantor(
+  userId: number,
+  teamId: number
+): Promise<Grantor> {
+  const role = await getTeamRole(userId, teamId);
+  return {
+    role,
+    permissions: role ? await getRolePermissions(teamId, role) : [],
+  };
+}
+
+export function canGrant(grantor: Grantor, permissions: Permission[]) {
+  return permissions.every((permission) =>
+    grantor.permissions.includes(permission)
+  );
+}
+
+export function canAssignRole(
+  grantor: Grantor,
+  role: Pick<TeamRole, 'name' | 'permissions'>
+) {
+  return role.name === 'owner'
+    ? grantor.role === 'owner'
+    : canGrant(grantor, role.permissions);
+}
+
+// Removing someone takes the same as changing their role: at least every
+// permission their current role holds, and only owners remove owners.
+export async function canManageMember(
+  grantor: Grantor,
+  teamId: number,
+  role: string
+) {
+  return canAssignRole(grantor, {
+    name: role,
+    permissions: await getRolePermissions(teamId, role),
+  });
+}
+
+export async function createTeamRole(
+  teamId: number,
+  name: string,
+  permissions: Permission[]
+) {
+  const { error } = await supabaseAdmin
+    .from('team_roles')
+    .insert({ team_id: teamId, name, permissions });
+  if (error) throw error;
+}
+
+// Refuses (returns false) while any member still holds the role, so nobody
+// is silently left without permissions.
+export async function deleteTeamRole(teamId: number, roleId: number) {
+  const { data: role, error } = await supabaseAdmin
+    .from('team_roles')
+    .select('name')
+    .eq('id', roleId)
+    .eq('team_id', teamId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!role) return false;
+
+  const { count, error: countErr } = await supabaseAdmin
+    .from('team_members')
+    .select('id', { count: 'exact', head: true })
+    .eq('team_id', teamId)
+    .eq('role', role.name);
+  if (countErr) throw countErr;
+  if (count) return false;
+
+  const { error: deleteErr } = await supabaseAdmin
+    .from('team_roles')
+    .delete()
+    .eq('id', roleId);
+  if (deleteErr) throw deleteErr;
+  return true;
+}
@@ -1,10 +1,22 @@
 import { compare, hash } from 'bcryptjs';
 import { SignJWT, jwtVerify } from 'jose';
-import { cookies } from 'next/headers';
+import { cookies, headers } from 'next/headers';
 import { NewUser } from '@/lib/db/schema';
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import {
+  getActiveSigningKey,
+  resolveVerificationKey,
+  signKeyringToken,
+  verifyKeyringToken
+} from '@/lib/auth/keys';
 
-const key = new TextEncoder().encode(process.env.AUTH_SECRET);
 const SALT_ROUNDS = 10;
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const PENDING_MFA_TTL_MS = 5 * 60 * 1000;
+const STEP_UP_TTL_MS = 5 * 60 * 1000;
+
+// Set by the root middleware on every request, keeping one sent by a proxy.
+export const REQUEST_ID_HEADER = 'x-request-id';
 
 export async function hashPassword(password: string) {
   return hash(password, SALT_ROUNDS);
@@ -17,24 +29,37 @@ export async function comparePasswords(
   return compare(plainTextPassword, hashedPassword);
 }
 
-type SessionData = {
+// `impersonator` is set on sessions a superadmin opened as another user;
+// see lib/auth/impersonation.ts.
+export type SessionData = {
   user: { id: number };
+  sid: string;
   expires: string;
+  impersonator?: { id: number };
 };
 
+// Signs with the keyring's active key; see lib/auth/keys.ts for rotation.
 export async function signToken(payload: SessionData) {
+  const { kid, alg, key: signingKey } = await getActiveSigningKey();
   return await new SignJWT(payload)
-    .setProtectedHeader({ alg: 'HS256' })
+    .setProtectedHeader({ alg, kid })
     .setIssuedAt()
-    .setExpirationTime('1 day from now')
-    .sign(key);
+    .setExpirationTime(new Date(payload.expires))
+    .sign(signingKey);
 }
 
+// Verifies the signature and then checks the session registry, so a token
+// whose session was revoked (or never registered) is rejected even though
+// its signature and expiry are still valid.
 export async function verifyToken(input: string) {
-  const { payload } = await jwtVerify(input, key, {
-    algorithms: ['HS256'],
-  });
-  return payload as SessionData;
+  const { payload } = await jwtVerify(input, resolveVerificationKey);
+  const session = payload as SessionData;
+
+  if (!session.sid || !(await isSessionActive(session.sid, session.user.id))) {
+    throw new Error('Session has been revoked');
+  }
+
+  return session;
 }
 
 export async function getSession() {
@@ -43,17 +68,315 @@ export async function getSession() {
   return await verifyToken(session);
 }
 
-export async function setSession(user: NewUser) {
-  const expiresInOneDay = new Date(Date.now() + 24 * 60 * 60 * 1000);
-  const session: SessionData = {
+export async function setSession(user: NewUser, activeTeamId?: number) {
+  const expiresInOneDay = new Date(Date.now() + SESSION_TTL_MS);
+  const sid = await createSessionRecord(user.id!, expiresInOneDay, {
+    activeTeamId,
+  });
+  await setSessionCookie({
     user: { id: user.id! },
+    sid,
     expires: expiresInOneDay.toISOString(),
+  });
+}
+
+// A session for `userId` that records who opened it. Unlike setSession it
+// has a fixed lifetime: the middleware doesn't slide its expiry forward.
+export async function setImpersonationSession(
+  userId: number,
+  impersonatorId: number,
+  expiresAt: Date
+) {
+  const sid = await createSessionRecord(userId, expiresAt, { impersonatorId });
+  await setSessionCookie({
+    user: { id: userId },
+    sid,
+    expires: expiresAt.toISOString(),
+    impersonator: { id: impersonatorId },
+  });
+  return sid;
+}
+
+async function setSessionCookie(session: SessionData) {
+  (await cookies()).set('session', await signToken(session), {
+    expires: new Date(session.expires),
+    httpOnly: true,
+    secure: true,
+    sameSite: 'lax',
+  });
+}
+
+// Revokes the session behind the current cookie and clears it.
+export async function clearSession() {
+  const cookieStore = await cookies();
+  const token = cookieStore.get('session')?.value;
+  if (token) {
+    try {
+      const session = await verifyToken(token);
+      await revokeSession(session.sid);
+    } catch {
+      // Already invalid; nothing to revoke.
+    }
+  }
+  cookieStore.delete('session');
+}
+
+//
+// Pending second factor
+//
+
+// Issued once the password has been verified for an account with two-factor
+// enabled. It is not a session: verifyToken rejects it (no `sid`) and it only
+// carries what is needed to finish signing in.
+export type SecondFactor = 'totp' | 'passkey';
+
+type PendingMfaData = {
+  user: { id: number };
+  purpose: 'mfa';
+  methods: SecondFactor[];
+  redirect?: string;
+  priceId?: string;
+  invite?: string;
+  join?: string;
+};
+
+export async function setPendingMfa(
+  userId: number,
+  methods: SecondFactor[],
+  handoff: {
+    redirect?: string;
+    priceId?: string;
+    invite?: string;
+    join?: string;
+  } = {}
+) {
+  const expires = new Date(Date.now() + PENDING_MFA_TTL_MS);
+  const payload: PendingMfaData = {
+    user: { id: userId },
+    purpose: 'mfa',
+    methods,
+    ...handoff,
   };
-  const encryptedSession = await signToken(session);
-  (await cookies()).set('session', encryptedSession, {
-    expires: expiresInOneDay,
+  const token = await signKeyringToken(payload, 'mfa-pending', expires);
+
+  (await cookies()).set('mfa_pending', token, {
+    expires,
     httpOnly: true,
     secure: true,
     sameSite: 'lax',
   });
 }
+
+export async function getPendingMfa() {
+  const token = (await cookies()).get('mfa_pending')?.value;
+  if (!token) return null;
+
+  const pending = await verifyKeyringToken<PendingMfaData>(
+    token,
+    'mfa-pending'
+  );
+  return pending?.purpose === 'mfa' ? pending : null;
+}
+
+export async function clearPendingMfa() {
+  (await cookies()).delete('mfa_pending');
+}
+
+//
+// Session registry
+//
+
+export function describeDevice(userAgent: string | null) {
+  if (!userAgent) return 'Unknown device';
+
+  const browser = /Edg\//.test(userAgent)
+    ? 'Edge'
+    : /Firefox\//.test(userAgent)
+      ? 'Firefox'
+      : /Chrome\//.test(userAgent)
+        ? 'Chrome'
+        : /Safari\//.test(userAgent)
+          ? 'Safari'
+          : null;
+  const os = /iPhone|iPad/.test(userAgent)
+    ? 'iOS'
+    : /Android/.test(userAgent)
+      ? 'Android'
+      : /Mac OS X/.test(userAgent)
+        ? 'macOS'
+        : /Windows/.test(userAgent)
+          ? 'Windows'
+          : /Linux/.test(userAgent)
+            ? 'Linux'
+            : null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? 'Unknown device';
+}
+
+// Each proxy appends the address it received the request from to
+// X-Forwarded-For, and anything to the left of what our own proxies added
+// came from the client and can't be trusted. TRUSTED_PROXY_HOPS is how many
+// proxies sit in front of the app (default 1, as on Vercel); the client is
+// the entry the outermost of them appended.
+function trustedProxyHops() {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS || 1);
+  return Number.isInteger(hops) && hops > 0 ? hops : 1;
+}
+
+export async function getClientIp() {
+  const headerList = await headers();
+  const forwarded = headerList
+    .get('x-forwarded-for')
+    ?.split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (forwarded?.length) {
+    return forwarded[Math.max(0, forwarded.length - trustedProxyHops())];
+  }
+  return headerList.get('x-real-ip');
+}
+
+// Where the current request came from, for the activity log. Work done
+// outside a request (a script, a scheduled job) has no headers to read.
+export async function getRequestContext() {
+  try {
+    const headerList = await headers();
+    return {
+      ipAddress: (await getClientIp()) ?? null,
+      userAgent: headerList.get('user-agent'),
+      requestId: headerList.get(REQUEST_ID_HEADER),
+    };
+  } catch {
+    return { ipAddress: null, userAgent: null, requestId: null };
+  }
+}
+
+async function createSessionRecord(
+  userId: number,
+  expiresAt: Date,
+  options: { impersonatorId?: number; activeTeamId?: number } = {}
+) {
+  const headerList = await headers();
+  const userAgent = headerList.get('user-agent');
+  const ipAddress = await getClientIp();
+  const sid = crypto.randomUUID();
+
+  const { error } = await supabaseAdmin.from('sessions').insert({
+    id: sid,
+    user_id: userId,
+    device: describeDevice(userAgent),
+    ip_address: ipAddress ?? null,
+    user_agent: userAgent,
+    expires_at: expiresAt.toISOString(),
+    impersonator_id: options.impersonatorId ?? null,
+    active_team_id: options.activeTeamId ?? null,
+  });
+  if (error) throw error;
+
+  return sid;
+}
+
+async function isSessionActive(sid: string, userId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('sessions')
+    .select('id')
+    .eq('id', sid)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  return !error && !!data;
+}
+
+// Called by the root middleware when it slides the cookie expiry forward.
+export async function touchSession(sid: string, expiresAt: Date) {
+  const { error } = await supabaseAdmin
+    .from('sessions')
+    .update({
+      last_seen_at: new Date().toISOString(),
+      expires_at: expiresAt.toISOString(),
+    })
+    .eq('id', sid)
+    .is('revoked_at', null);
+  if (error) throw error;
+}
+
+// Returns the revoked session's device, or null if there was nothing to revoke.
+export async function revokeSession(sid: string, userId?: number) {
+  let query = supabaseAdmin
+    .from('sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', sid)
+    .is('revoked_at', null);
+  if (userId !== undefined) query = query.eq('user_id', userId);
+
+  const { data, error } = await query.select('device');
+  if (error) throw error;
+  return (data[0]?.device as string | undefined) ?? null;
+}
+
+// Revokes every session for the user, optionally keeping one (the caller's).
+// Returns how many were revoked.
+export async function revokeUserSessions(userId: number, exceptSid?: string) {
+  let query = supabaseAdmin
+    .from('sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('revoked_at', null);
+  if (exceptSid) query = query.neq('id', exceptSid);
+
+  const { data, error } = await query.select('id');
+  if (error) throw error;
+  return data.length;
+}
+
+// Records that the current session just re-confirmed its identity (passkey
+// step-up), which sensitive actions accept in place of the password.
+export async function markSessionSteppedUp(sid: string) {
+  const { error } = await supabaseAdmin
+    .from('sessions')
+    .update({ step_up_at: new Date().toISOString() })
+    .eq('id', sid)
+    .is('revoked_at', null);
+  if (error) throw error;
+}
+
+export async function hasRecentStepUp(sid: string) {
+  const { data, error } = await supabaseAdmin
+    .from('sessions')
+    .select('step_up_at')
+    .eq('id', sid)
+    .is('revoked_at', null)
+    .maybeSingle();
+  if (error || !data?.step_up_at) return false;
+
+  return Date.now() - new Date(data.step_up_at).getTime() < STEP_UP_TTL_MS;
+}
+
+// The team the current session is working in, when it has picked one with the
+// team switcher. Only answers for the signed-in user; anyone else (or no
+// session) gets null and callers fall back to the user's first team.
+export async function getActiveTeamId(userId: number) {
+  const session = await getSession().catch(() => null);
+  if (!session || session.user.id !== userId) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('sessions')
+    .select('active_team_id')
+    .eq('id', session.sid)
+    .maybeSingle();
+  if (error || !data) return null;
+
+  return data.active_team_id as number | null;
+}
+
+export async function setActiveTeam(sid: string, teamId: number) {
+  const { error } = await supabaseAdmin
+    .from('sessions')
+    .update({ active_team_id: teamId })
+    .eq('id', sid)
+    .is('revoked_at', null);
+  if (error) throw error;
+}
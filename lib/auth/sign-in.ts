@@ -0,0 +1,64 @@
+import { redirect } from 'next/navigation';
+import { setSession, type SecondFactor } from '@/lib/auth/session';
+import { getTotpState } from '@/lib/auth/totp';
+import { getPasskeysForUser } from '@/lib/auth/passkeys';
+import { completePendingIdentityLink } from '@/lib/auth/oidc';
+import { createCheckoutSession } from '@/lib/payments/stripe';
+import {
+  getTeamForUser,
+  getUserWithTeam,
+  logActivity
+} from '@/lib/db/queries';
+import { ActivityType } from '@/lib/db/schema';
+
+// Shared by the sign-in server actions and the OIDC callback route. Kept out
+// of app/(login)/actions.ts so these aren't exposed as callable actions.
+
+export async function getSecondFactors(userId: number) {
+  const [totp, passkeys] = await Promise.all([
+    getTotpState(userId),
+    getPasskeysForUser(userId),
+  ]);
+  const methods: SecondFactor[] = [];
+  if (totp.enabledAt) methods.push('totp');
+  if (passkeys.length > 0) methods.push('passkey');
+  return methods;
+}
+
+// Issues the session once every required factor has been checked, and keeps
+// the pricing-page handoff to Stripe Checkout and the return to an invitation
+// or a team's join link.
+export async function completeSignIn(
+  userId: number,
+  handoff: {
+    redirect?: string | null;
+    priceId?: string | null;
+    invite?: string | null;
+    join?: string | null;
+  }
+) {
+  const uwt = await getUserWithTeam(userId);
+  if (!uwt) redirect('/sign-in');
+
+  await Promise.all([
+    setSession(uwt.user),
+    logActivity(uwt.teamId, userId, ActivityType.SIGN_IN),
+  ]);
+
+  // Signing in is how an owner proves an OIDC identity with their email
+  // belongs to them.
+  await completePendingIdentityLink(userId);
+
+  if (handoff.redirect === 'checkout' && handoff.priceId) {
+    const team = await getTeamForUser(userId);
+    return createCheckoutSession({ team, priceId: handoff.priceId });
+  }
+  if (handoff.redirect === 'invitation' && handoff.invite) {
+    redirect(`/invitation?token=${encodeURIComponent(handoff.invite)}`);
+  }
+  if (handoff.redirect === 'join' && handoff.join) {
+    redirect(`/join/${encodeURIComponent(handoff.join)}`);
+  }
+
+  redirect('/dashboard');
+}
@@ -0,0 +1,96 @@
+import { createHash, randomBytes } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabaseClient';
+
+// Single-use tokens sent to users by email. Only the SHA-256 of a token is
+// stored, so a leaked `auth_tokens` table can't be used to take over accounts.
+export type TokenPurpose =
+  | 'password_reset'
+  | 'email_verification'
+  | 'email_change'
+  | 'magic_link'
+  | 'account_unlock';
+
+export type OneTimeToken = {
+  id: number;
+  userId: number;
+  purpose: TokenPurpose;
+  data: Record<string, any> | null;
+  expiresAt: string;
+};
+
+function hashToken(token: string) {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export async function createOneTimeToken(
+  userId: number,
+  purpose: TokenPurpose,
+  ttlMs: number,
+  data: Record<string, any> | null = null
+) {
+  const token = randomBytes(32).toString('base64url');
+
+  const { error } = await supabaseAdmin.from('auth_tokens').insert({
+    user_id: userId,
+    purpose,
+    token_hash: hashToken(token),
+    data,
+    expires_at: new Date(Date.now() + ttlMs).toISOString(),
+  });
+  if (error) throw error;
+
+  return token;
+}
+
+// Marks the token used and returns it, or null if it is unknown, expired or
+// already used. Filtering the update on `used_at is null` keeps two
+// concurrent requests from both consuming it.
+export async function consumeOneTimeToken(
+  token: string,
+  purpose: TokenPurpose
+): Promise<OneTimeToken | null> {
+  const { data, error } = await supabaseAdmin
+    .from('auth_tokens')
+    .update({ used_at: new Date().toISOString() })
+    .eq('token_hash', hashToken(token))
+    .eq('purpose', purpose)
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .select('id, user_id, purpose, data, expires_at')
+    .maybeSingle();
+  if (error || !data) return null;
+
+  return {
+    id: data.id,
+    userId: data.user_id,
+    purpose: data.purpose,
+    data: data.data,
+    expiresAt: data.expires_at,
+  };
+}
+
+// Checks a token without consuming it, e.g. to render the page it links to.
+export async function findOneTimeToken(token: string, purpose: TokenPurpose) {
+  const { data, error } = await supabaseAdmin
+    .from('auth_tokens')
+    .select('id')
+    .eq('token_hash', hashToken(token))
+    .eq('purpose', purpose)
+    .is('used_at', null)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  return !error && !!data;
+}
+
+// Invalidates every outstanding token of a purpose, so only the latest email
+// sent to a user works.
+export async function revokeOneTimeTokens(userId: number, purpose: TokenPurpose) {
+  const { error } = await supabaseAdmin
+    .from('auth_tokens')
+    .update({ used_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .eq('purpose', purpose)
+    .is('used_at', null);
+  if (error) throw error;
+}
@@ -0,0 +1,266 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { supabaseAdmin } from '@/lib/supabaseClient';
+
+// RFC 6238 defaults, which is what every authenticator app expects.
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+// 80 bits each, shown as four groups of four base32 characters.
+const RECOVERY_CODE_BYTES = 10;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+function base32Encode(buffer: Buffer) {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string) {
+  const clean = input.replace(/=+$/, '').toUpperCase();
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 character');
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+// RFC 4226 HOTP with dynamic truncation.
+function hotp(secret: Buffer, counter: number) {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const digest = createHmac('sha1', secret).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary =
+    ((digest[offset] & 0x7f) << 24) |
+    (digest[offset + 1] << 16) |
+    (digest[offset + 2] << 8) |
+    digest[offset + 3];
+
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, '0');
+}
+
+export function generateTotpSecret() {
+  return base32Encode(randomBytes(20));
+}
+
+export function buildOtpauthUri(secret: string, accountName: string) {
+  const issuer = process.env.TOTP_ISSUER || 'ACME';
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Returns the matched time step, or null. Steps at or before `lastUsedStep`
+// are refused so a code can't be replayed within its validity window.
+export function verifyTotpCode(
+  secret: string,
+  code: string,
+  lastUsedStep: number | null = null
+) {
+  if (!new RegExp(`^\\d{${DIGITS}}$`).test(code)) return null;
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+
+  for (let drift = -DRIFT_STEPS; drift <= DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    const expected = Buffer.from(hotp(key, step));
+    if (timingSafeEqual(expected, Buffer.from(code))) return step;
+  }
+
+  return null;
+}
+
+// Each code has its own salt, so a leaked table can't be attacked with one
+// precomputed list. Codes stored before salts existed have none.
+function hashRecoveryCode(code: string, salt: string | null) {
+  return createHash('sha256')
+    .update(salt ?? '')
+    .update(code.replace(/[-\s]/g, '').toLowerCase())
+    .digest('hex');
+}
+
+export function generateRecoveryCodes() {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = base32Encode(randomBytes(RECOVERY_CODE_BYTES)).toLowerCase();
+    return raw.match(/.{4}/g)!.join('-');
+  });
+}
+
+//
+// Persistence
+//
+
+export type TotpState = {
+  secret: string | null;
+  enabledAt: string | null;
+  lastUsedStep: number | null;
+};
+
+export async function getTotpState(userId: number): Promise<TotpState> {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('totp_secret, totp_enabled_at, totp_last_used_step')
+    .eq('id', userId)
+    .maybeSingle();
+  if (error) throw error;
+
+  return {
+    secret: data?.totp_secret ?? null,
+    enabledAt: data?.totp_enabled_at ?? null,
+    lastUsedStep: data?.totp_last_used_step ?? null,
+  };
+}
+
+// Stores a not-yet-confirmed secret; it only takes effect in enableTotp.
+export async function savePendingTotpSecret(userId: number, secret: string) {
+  const { error } = await supabaseAdmin
+    .from('users')
+    .update({
+      totp_secret: secret,
+      totp_enabled_at: null,
+      totp_last_used_step: null,
+    })
+    .eq('id', userId);
+  if (error) throw error;
+}
+
+export async function enableTotp(
+  userId: number,
+  confirmedStep: number,
+  recoveryCodes: string[]
+) {
+  const { error } = await supabaseAdmin
+    .from('users')
+    .update({
+      totp_enabled_at: new Date().toISOString(),
+      totp_last_used_step: confirmedStep,
+    })
+    .eq('id', userId);
+  if (error) throw error;
+
+  await replaceRecoveryCodes(userId, recoveryCodes);
+}
+
+export async function disableTotp(userId: number) {
+  const { error } = await supabaseAdmin
+    .from('users')
+    .update({
+      totp_secret: null,
+      totp_enabled_at: null,
+      totp_last_used_step: null,
+    })
+    .eq('id', userId);
+  if (error) throw error;
+
+  await supabaseAdmin.from('recovery_codes').delete().eq('user_id', userId);
+}
+
+// Records the step a code was accepted for. Returns false if another request
+// got there first with this step or a later one, so two sign-ins racing with
+// the same code can't both succeed.
+export async function markTotpStepUsed(userId: number, step: number) {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .update({ totp_last_used_step: step })
+    .eq('id', userId)
+    .or(`totp_last_used_step.is.null,totp_last_used_step.lt.${step}`)
+    .select('id');
+  if (error) throw error;
+
+  return data.length > 0;
+}
+
+export async function replaceRecoveryCodes(userId: number, codes: string[]) {
+  const { error: delErr } = await supabaseAdmin
+    .from('recovery_codes')
+    .delete()
+    .eq('user_id', userId);
+  if (delErr) throw delErr;
+
+  const { error } = await supabaseAdmin.from('recovery_codes').insert(
+    codes.map((code) => {
+      const salt = randomBytes(16).toString('hex');
+      return {
+        user_id: userId,
+        salt,
+        code_hash: hashRecoveryCode(code, salt),
+      };
+    })
+  );
+  if (error) throw error;
+}
+
+// Marks a recovery code as used. The user's unused codes are few, so each is
+// checked against its own salt; the `used_at is null` filter on the update
+// then makes consumption single-use even under concurrent requests.
+export async function consumeRecoveryCode(userId: number, code: string) {
+  const { data: codes, error } = await supabaseAdmin
+    .from('recovery_codes')
+    .select('id, salt, code_hash')
+    .eq('user_id', userId)
+    .is('used_at', null);
+  if (error) throw error;
+
+  const match = codes.find((row) =>
+    timingSafeEqual(
+      Buffer.from(hashRecoveryCode(code, row.salt)),
+      Buffer.from(row.code_hash)
+    )
+  );
+  if (!match) return false;
+
+  const { data, error: updateError } = await supabaseAdmin
+    .from('recovery_codes')
+    .update({ used_at: new Date().toISOString() })
+    .eq('id', match.id)
+    .is('used_at', null)
+    .select('id');
+  if (updateError) throw updateError;
+
+  return data.length > 0;
+}
+
+export async function countRemainingRecoveryCodes(userId: number) {
+  const { count, error } = await supabaseAdmin
+    .from('recovery_codes')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('used_at', null);
+  if (error) throw error;
+
+  return count ?? 0;
+}
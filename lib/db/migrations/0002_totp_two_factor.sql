@@ -0,0 +1,21 @@
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "totp_secret" text;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "totp_enabled_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "totp_last_used_step" bigint;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "recovery_codes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"code_hash" varchar(64) NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"used_at" timestamp
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "recovery_codes_user_id_idx" ON "recovery_codes" ("user_id");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "recovery_codes" ADD CONSTRAINT "recovery_codes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS "user_identities" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"provider" varchar(50) NOT NULL,
+	"subject" varchar(255) NOT NULL,
+	"email" varchar(255),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"last_used_at" timestamp,
+	CONSTRAINT "user_identities_provider_subject_unique" UNIQUE("provider","subject")
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "user_identities_user_id_idx" ON "user_identities" ("user_id");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "user_identities" ADD CONSTRAINT "user_identities_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,7 @@
+CREATE TABLE IF NOT EXISTS "auth_attempts" (
+	"key" varchar(320) PRIMARY KEY NOT NULL,
+	"failures" integer DEFAULT 0 NOT NULL,
+	"last_failure_at" timestamp DEFAULT now() NOT NULL,
+	"blocked_until" timestamp,
+	"locked_until" timestamp
+);
@@ -0,0 +1,9 @@
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "is_superadmin" boolean DEFAULT false NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "impersonator_id" integer;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "sessions" ADD CONSTRAINT "sessions_impersonator_id_users_id_fk" FOREIGN KEY ("impersonator_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
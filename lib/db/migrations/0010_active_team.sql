@@ -0,0 +1,9 @@
+ALTER TABLE "sessions" ADD COLUMN IF NOT EXISTS "active_team_id" integer;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "team_members_user_id_idx" ON "team_members" ("user_id");
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "sessions" ADD CONSTRAINT "sessions_active_team_id_teams_id_fk" FOREIGN KEY ("active_team_id") REFERENCES "public"."teams"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "team_roles" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"team_id" integer NOT NULL,
+	"name" varchar(50) NOT NULL,
+	"permissions" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "team_roles_team_id_name_unique" UNIQUE("team_id","name")
+);
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "team_roles" ADD CONSTRAINT "team_roles_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,9 @@
+ALTER TABLE "invitations" ADD COLUMN IF NOT EXISTS "token_hash" varchar(64);
+--> statement-breakpoint
+ALTER TABLE "invitations" ADD COLUMN IF NOT EXISTS "expires_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "invitations" ADD COLUMN IF NOT EXISTS "last_sent_at" timestamp;
+--> statement-breakpoint
+UPDATE "invitations" SET "status" = 'expired' WHERE "status" = 'pending';
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "invitations_team_id_status_idx" ON "invitations" ("team_id","status");
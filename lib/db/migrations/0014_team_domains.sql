@@ -0,0 +1,52 @@
+CREATE TABLE IF NOT EXISTS "team_domains" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"team_id" integer NOT NULL,
+	"domain" varchar(255) NOT NULL,
+	"verification_token" varchar(64) NOT NULL,
+	"verified_at" timestamp,
+	"join_policy" varchar(20) DEFAULT 'request' NOT NULL,
+	"default_role" varchar(50) DEFAULT 'member' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "team_domains_team_id_domain_unique" UNIQUE("team_id","domain")
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "team_domains_verified_domain_idx" ON "team_domains" ("domain") WHERE "verified_at" IS NOT NULL;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "join_requests" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"team_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"source" varchar(20) NOT NULL,
+	"role" varchar(50) DEFAULT 'member' NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"expires_at" timestamp DEFAULT (now() + interval '14 days') NOT NULL,
+	"decided_by" integer,
+	"decided_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "join_requests_pending_idx" ON "join_requests" ("team_id","user_id") WHERE "status" = 'pending';
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "team_domains" ADD CONSTRAINT "team_domains_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "join_requests" ADD CONSTRAINT "join_requests_team_id_teams_id_fk" FOREIGN KEY ("team_id") REFERENCES "public"."teams"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "join_requests" ADD CONSTRAINT "join_requests_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+--> statement-breakpoint
+DO $$ BEGIN
+ ALTER TABLE "join_requests" ADD CONSTRAINT "join_requests_decided_by_users_id_fk" FOREIGN KEY ("decided_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
@@ -0,0 +1,3 @@
+ALTER TABLE "teams" ADD COLUMN IF NOT EXISTS "join_code" varchar(32);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "teams_join_code_idx" ON "teams" ("join_code");
@@ -0,0 +1 @@
+ALTER TABLE "invitations" ADD COLUMN IF NOT EXISTS "name" varchar(100);
@@ -0,0 +1,15 @@
+ALTER TABLE "activity_logs" ADD COLUMN IF NOT EXISTS "actor_type" varchar(20) DEFAULT 'user' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "activity_logs" ADD COLUMN IF NOT EXISTS "target_type" varchar(20);
+--> statement-breakpoint
+ALTER TABLE "activity_logs" ADD COLUMN IF NOT EXISTS "target_id" varchar(64);
+--> statement-breakpoint
+ALTER TABLE "activity_logs" ADD COLUMN IF NOT EXISTS "target_label" varchar(255);
+--> statement-breakpoint
+ALTER TABLE "activity_logs" ADD COLUMN IF NOT EXISTS "metadata" jsonb;
+--> statement-breakpoint
+ALTER TABLE "activity_logs" ADD COLUMN IF NOT EXISTS "user_agent" text;
+--> statement-breakpoint
+ALTER TABLE "activity_logs" ADD COLUMN IF NOT EXISTS "request_id" varchar(64);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "activity_logs_target_idx" ON "activity_logs" ("target_type","target_id");
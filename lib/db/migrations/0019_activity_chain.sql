@@ -0,0 +1,7 @@
+ALTER TABLE "activity_logs" ADD COLUMN IF NOT EXISTS "seq" integer;
+--> statement-breakpoint
+ALTER TABLE "activity_logs" ADD COLUMN IF NOT EXISTS "prev_hash" varchar(64);
+--> statement-breakpoint
+ALTER TABLE "activity_logs" ADD COLUMN IF NOT EXISTS "hash" varchar(64);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "activity_logs_team_id_seq_idx" ON "activity_logs" ("team_id","seq");
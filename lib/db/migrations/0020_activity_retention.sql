@@ -0,0 +1,9 @@
+ALTER TABLE "teams" ADD COLUMN IF NOT EXISTS "activity_retention_days" integer;
+--> statement-breakpoint
+ALTER TABLE "teams" ADD COLUMN IF NOT EXISTS "activity_ip_retention_days" integer;
+--> statement-breakpoint
+ALTER TABLE "activity_logs" ADD COLUMN IF NOT EXISTS "ip_salt" varchar(32);
+--> statement-breakpoint
+ALTER TABLE "activity_logs" ADD COLUMN IF NOT EXISTS "ip_digest" varchar(64);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "activity_logs_team_id_timestamp_idx" ON "activity_logs" ("team_id","timestamp");
@@ -0,0 +1 @@
+ALTER TABLE "recovery_codes" ADD COLUMN IF NOT EXISTS "salt" varchar(32);
@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS "audit_outbox" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"sink" varchar(100) NOT NULL,
+	"event" jsonb NOT NULL,
+	"attempts" integer DEFAULT 1 NOT NULL,
+	"next_attempt_at" timestamp NOT NULL,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "audit_outbox_next_attempt_at_idx" ON "audit_outbox" ("next_attempt_at");
@@ -1,7 +1,16 @@
 // lib/db/queries.ts
 import { cookies } from 'next/headers';
-import { verifyToken } from '@/lib/auth/session';
+import {
+    getActiveTeamId,
+    getRequestContext,
+    verifyToken,
+} from '@/lib/auth/session';
 import { supabaseAdmin } from '@/lib/supabaseClient';
+import { ActivityType } from '@/lib/db/schema';
+import { sealActivityLog } from '@/lib/audit/seal';
+import { commitIp } from '@/lib/audit/chain';
+import { toAuditEvent } from '@/lib/audit/events';
+import { forwardAuditEvent } from '@/lib/audit/forward';
 
 // --- getUser: reads session cookie, verifies it, and fetches the user row ---
 export async function getUser() {
@@ -65,6 +74,29 @@ export async function updateTeamSubscription(
     if (error) throw error;
 }
 
+// --- getSeatUsage: the team's subscription and how many seats it should bill ---
+// Every member takes a seat; invitations only once accepted.
+export async function getSeatUsage(teamId: number) {
+    const [{ data: team, error }, { count, error: countErr }] = await Promise.all([
+        supabaseAdmin
+            .from('teams')
+            .select('stripe_subscription_id')
+            .eq('id', teamId)
+            .maybeSingle(),
+        supabaseAdmin
+            .from('team_members')
+            .select('id', { count: 'exact', head: true })
+            .eq('team_id', teamId),
+    ]);
+    if (error) throw error;
+    if (countErr) throw countErr;
+
+    return {
+        subscriptionId: (team?.stripe_subscription_id as string | null) ?? null,
+        seats: Math.max(1, count ?? 0),
+    };
+}
+
 // --- getUserWithTeam: returns { user, teamId } for a given userId ---
 export async function getUserWithTeam(userId: number) {
     // fetch the user row
@@ -75,48 +107,299 @@ export async function getUserWithTeam(userId: number) {
         .maybeSingle();
     if (userErr || !user) return null;
 
-    // fetch their first team membership
-    const { data: membership, error: memErr } = await supabaseAdmin
+    return {
+        user,
+        teamId: await resolveTeamId(userId),
+    };
+}
+
+// --- resolveTeamId: the session's active team, else the user's first team ---
+export async function resolveTeamId(userId: number): Promise<number | null> {
+    const { data: memberships, error } = await supabaseAdmin
         .from('team_members')
         .select('team_id')
         .eq('user_id', userId)
-        .limit(1)
+        .order('joined_at', { ascending: true });
+    if (error) throw error;
+    if (memberships.length === 0) return null;
+
+    // Ignore an active team the user has since left.
+    const activeTeamId = await getActiveTeamId(userId);
+    return memberships.some((m) => m.team_id === activeTeamId)
+        ? activeTeamId
+        : memberships[0].team_id;
+}
+
+// --- getTeamsForUser: every team the user belongs to, for the switcher ---
+export type TeamMembershipSummary = {
+    id: number;
+    name: string;
+    role: string;
+    active: boolean;
+};
+
+// One team per membership, though supabase-js can't tell without generated
+// types.
+type MembershipRow = {
+    role: string;
+    teams: { id: number; name: string };
+};
+
+export async function getTeamsForUser(userId: number): Promise<TeamMembershipSummary[]> {
+    const [{ data, error }, activeTeamId] = await Promise.all([
+        supabaseAdmin
+            .from('team_members')
+            .select('role, teams(id, name)')
+            .eq('user_id', userId)
+            .order('joined_at', { ascending: true })
+            .overrideTypes<MembershipRow[], { merge: false }>(),
+        resolveTeamId(userId),
+    ]);
+    if (error) throw error;
+
+    return data.map((m) => ({
+        id: m.teams.id,
+        name: m.teams.name,
+        role: m.role,
+        active: m.teams.id === activeTeamId,
+    }));
+}
+
+// --- getCurrentUserTeams: the signed-in user's teams, or none ---
+export async function getCurrentUserTeams() {
+    const user = await getUser();
+    return user ? getTeamsForUser(user.id) : [];
+}
+
+// --- logActivity: append an entry to the team's activity log ---
+// `userId` is whoever acted. When that wasn't a signed-in member, `actorType`
+// says what did and `userId` is null (or the user a token acts for). Returns
+// the entry, or null when it couldn't be written.
+export type ActivityActorType = 'user' | 'api_token' | 'scim' | 'system';
+
+export type ActivityTargetType =
+    | 'user'
+    | 'invitation'
+    | 'role'
+    | 'domain'
+    | 'join_request'
+    | 'session'
+    | 'subscription';
+
+export type ActivityTarget = {
+    type: ActivityTargetType;
+    id: number | string;
+    // How the log names the target. Kept as it was at the time, so renames
+    // and deletions don't rewrite history; looked up for users when omitted.
+    label?: string | null;
+};
+
+export type ActivityDetails = {
+    actorType?: ActivityActorType;
+    target?: ActivityTarget;
+    metadata?: Record<string, unknown>;
+};
+
+export async function logActivity(
+    teamId: number | null | undefined,
+    userId: number | null,
+    type: ActivityType,
+    details: ActivityDetails = {}
+): Promise<ActivityLog | null> {
+    if (!teamId) return null;
+    const { target } = details;
+    const targetLabel =
+        target?.label ??
+        (target?.type === 'user' ? await getUserLabel(Number(target.id)) : null);
+    const context = await getRequestContext();
+    const { ipSalt, ipDigest } = await commitIp(context.ipAddress);
+
+    const { data: inserted, error } = await supabaseAdmin
+        .from('activity_logs')
+        .insert({
+        team_id: teamId,
+        user_id: userId,
+        action: type,
+        actor_type: details.actorType ?? 'user',
+        target_type: target?.type ?? null,
+        target_id: target ? String(target.id) : null,
+        target_label: targetLabel,
+        metadata: details.metadata ?? null,
+        ip_address: context.ipAddress,
+        ip_salt: ipSalt,
+        ip_digest: ipDigest,
+        user_agent: context.userAgent,
+        request_id: context.requestId,
+        })
+        .select(ACTIVITY_LOG_COLUMNS)
+        .single()
+        .overrideTypes<ActivityLogRow, { merge: false }>();
+    if (error) {
+        console.error('logActivity error:', error);
+        return null;
+    }
+
+    // An entry left unsealed here is picked up by the next one, or by
+    // verification; the action it records has already happened.
+    let sealed: Awaited<ReturnType<typeof sealActivityLog>> | null = null;
+    try {
+        sealed = await sealActivityLog(teamId);
+    } catch (sealError) {
+        console.error('sealActivityLog error:', sealError);
+    }
+
+    // Sent to the configured sinks after the response; never waits on them.
+    const log = { ...toActivityLog(inserted), ...sealed?.get(inserted.id) };
+    forwardAuditEvent(toAuditEvent(log));
+    return log;
+}
+
+async function getUserLabel(userId: number) {
+    const { data } = await supabaseAdmin
+        .from('users')
+        .select('name, email')
+        .eq('id', userId)
         .maybeSingle();
-    if (memErr) throw memErr;
+    return data ? data.name || data.email : null;
+}
+
+// --- activityDiff: the fields that changed, as { field: { from, to } } ---
+export function activityDiff<T extends Record<string, unknown>>(
+    before: T,
+    after: Partial<T>
+) {
+    const diff: Record<string, { from: unknown; to: unknown }> = {};
+    for (const [field, value] of Object.entries(after)) {
+        if (value !== undefined && value !== before[field]) {
+            diff[field] = { from: before[field] ?? null, to: value };
+        }
+    }
+    return diff;
+}
 
+export type ActivityLog = {
+    id: number;
+    teamId: number;
+    seq: number | null;
+    hash: string | null;
+    action: string;
+    timestamp: string;
+    ipAddress: string | null;
+    userAgent: string | null;
+    requestId: string | null;
+    actorType: ActivityActorType;
+    actor: { id: number; name: string | null; email: string } | null;
+    target: { type: ActivityTargetType; id: string; label: string | null } | null;
+    metadata: Record<string, any> | null;
+};
+
+const ACTIVITY_LOG_COLUMNS =
+    'id, team_id, seq, hash, action, timestamp, ip_address, user_agent, request_id, actor_type, target_type, target_id, target_label, metadata, users(id, name, email)';
+
+// The actor is one user, though supabase-js can't tell without generated
+// types.
+type ActivityLogRow = {
+    id: number;
+    team_id: number;
+    seq: number | null;
+    hash: string | null;
+    action: string;
+    timestamp: string;
+    ip_address: string | null;
+    user_agent: string | null;
+    request_id: string | null;
+    actor_type: ActivityActorType;
+    target_type: ActivityTargetType | null;
+    target_id: string | null;
+    target_label: string | null;
+    metadata: Record<string, any> | null;
+    users: ActivityLog['actor'];
+};
+
+function toActivityLog(row: ActivityLogRow): ActivityLog {
     return {
-        user,
-        teamId: membership?.team_id ?? null,
+        id: row.id,
+        teamId: row.team_id,
+        seq: row.seq,
+        hash: row.hash,
+        action: row.action,
+        timestamp: row.timestamp,
+        ipAddress: row.ip_address || null,
+        userAgent: row.user_agent,
+        requestId: row.request_id,
+        actorType: row.actor_type,
+        actor: row.users,
+        target: row.target_type && row.target_id !== null
+            ? { type: row.target_type, id: row.target_id, label: row.target_label }
+            : null,
+        metadata: row.metadata,
     };
 }
 
-// --- getActivityLogs: fetch last 10 logs for the currently authenticated user ---
-export async function getActivityLogs() {
+// --- getActivityLogs: the current user's last 10 entries, as actor or target ---
+export async function getActivityLogs(): Promise<ActivityLog[]> {
     const user = await getUser();
     if (!user) throw new Error('User not authenticated');
 
     const { data, error } = await supabaseAdmin
         .from('activity_logs')
-        .select(`
-      id,
-      action,
-      timestamp,
-      ip_address,
-      users ( name )
-    `)
-        .eq('user_id', user.id)
+        .select(ACTIVITY_LOG_COLUMNS)
+        .or(`user_id.eq.${user.id},and(target_type.eq.user,target_id.eq.${user.id})`)
         .order('timestamp', { ascending: false })
-        .limit(10);
+        .limit(10)
+        .overrideTypes<ActivityLogRow[], { merge: false }>();
 
     if (error) throw error;
-    // map to the shape you expect
-    return data.map((row) => ({
-        id: row.id,
-        action: row.action,
-        timestamp: row.timestamp,
-        ipAddress: row.ip_address,
-        userName: row.users.name,
-    }));
+    return data.map(toActivityLog);
+}
+
+// --- getTeamActivityLogs: a page of the team's log, newest first, with filters ---
+export type ActivityLogFilters = {
+    actorId?: number;
+    action?: ActivityType;
+    from?: Date;
+    to?: Date;
+    ip?: string;
+};
+
+export const ACTIVITY_PAGE_SIZE = 25;
+
+// `cursor` is the id of the last entry already shown; ids only grow, so
+// paging by id stays stable while new entries arrive.
+export async function getTeamActivityLogs(
+    teamId: number,
+    filters: ActivityLogFilters,
+    cursor?: number,
+    pageSize = ACTIVITY_PAGE_SIZE
+): Promise<{ logs: ActivityLog[]; nextCursor: number | null }> {
+    let query = supabaseAdmin
+        .from('activity_logs')
+        .select(ACTIVITY_LOG_COLUMNS)
+        .eq('team_id', teamId)
+        .order('id', { ascending: false })
+        .limit(pageSize + 1);
+    if (cursor) query = query.lt('id', cursor);
+    if (filters.actorId) query = query.eq('user_id', filters.actorId);
+    if (filters.action) query = query.eq('action', filters.action);
+    if (filters.from) query = query.gte('timestamp', filters.from.toISOString());
+    if (filters.to) query = query.lt('timestamp', filters.to.toISOString());
+    if (filters.ip) {
+        // Prefix match, so "10.0." finds a whole subnet.
+        const prefix = filters.ip.replace(/[\\%_]/g, '\\$&');
+        query = query.ilike('ip_address', `${prefix}%`);
+    }
+
+    const { data, error } = await query.overrideTypes<
+        ActivityLogRow[],
+        { merge: false }
+    >();
+    if (error) throw error;
+
+    const page = data.slice(0, pageSize);
+    return {
+        logs: page.map(toActivityLog),
+        nextCursor: data.length > pageSize ? page[page.length - 1].id : null,
+    };
 }
 
 // --- getTeamForUser: load the team plus its members for a given userId ---
@@ -135,20 +418,20 @@ export type TeamWithMembers = {
 };
 
 export async function getTeamForUser(userId: number): Promise<TeamWithMembers | null> {
-    // figure out which team they belong to
-    const { data: membership, error: memErr } = await supabaseAdmin
-        .from('team_members')
-        .select('team_id')
-        .eq('user_id', userId)
-        .limit(1)
-        .maybeSingle();
-    if (memErr || !membership) return null;
+    // figure out which team they're working in
+    const teamId = await resolveTeamId(userId);
+    if (!teamId) return null;
+
+    return getTeamWithMembers(teamId);
+}
 
+// --- getTeamWithMembers: load a team by id plus its members ---
+export async function getTeamWithMembers(teamId: number): Promise<TeamWithMembers | null> {
     // load the team row itself
     const { data: team, error: teamErr } = await supabaseAdmin
         .from('teams')
         .select('*')
-        .eq('id', membership.team_id)
+        .eq('id', teamId)
         .maybeSingle();
     if (teamErr || !team) return null;
 
@@ -156,7 +439,7 @@ export async function getTeamForUser(userId: number): Promise<TeamWithMembers |
     const { data: members, error: membersErr } = await supabaseAdmin
         .from('team_members')
         .select('role, users(id, name, email)')
-        .eq('team_id', membership.team_id);
+        .eq('team_id', teamId);
     if (membersErr) throw membersErr;
 
     return {
@@ -173,3 +456,279 @@ export async function getTeamForUser(userId: number): Promise<TeamWithMembers |
         })),
     };
 }
+
+// --- getActiveSessions: list the user's unrevoked, unexpired sessions ---
+export type ActiveSession = {
+    id: string;
+    device: string | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+    createdAt: string;
+    lastSeenAt: string;
+};
+
+export async function getActiveSessions(userId: number): Promise<ActiveSession[]> {
+    const { data, error } = await supabaseAdmin
+        .from('sessions')
+        .select('id, device, ip_address, user_agent, created_at, last_seen_at')
+        .eq('user_id', userId)
+        .is('revoked_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .order('last_seen_at', { ascending: false });
+
+    if (error) throw error;
+    return data.map((row) => ({
+        id: row.id,
+        device: row.device,
+        ipAddress: row.ip_address,
+        userAgent: row.user_agent,
+        createdAt: row.created_at,
+        lastSeenAt: row.last_seen_at,
+    }));
+}
+
+// --- getUserByEmail: find an active (not deleted) user by email ---
+export async function getUserByEmail(email: string) {
+    const { data: user, error } = await supabaseAdmin
+        .from('users')
+        .select('*')
+        .eq('email', email)
+        .is('deleted_at', null)
+        .maybeSingle();
+
+    return error ? null : user;
+}
+
+// --- updateUserPassword: store a new password hash for the user ---
+export async function updateUserPassword(userId: number, passwordHash: string) {
+    const { error } = await supabaseAdmin
+        .from('users')
+        .update({
+            password_hash: passwordHash,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', userId);
+
+    if (error) throw error;
+}
+
+// --- markEmailVerified: record that the user confirmed their address ---
+export async function markEmailVerified(userId: number) {
+    const { error } = await supabaseAdmin
+        .from('users')
+        .update({
+            email_verified_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', userId);
+
+    if (error) throw error;
+}
+
+// --- changeUserEmail: apply a confirmed email change (already verified) ---
+export async function changeUserEmail(userId: number, email: string) {
+    const { error } = await supabaseAdmin
+        .from('users')
+        .update({
+            email,
+            email_verified_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', userId);
+
+    if (error) throw error;
+}
+
+// --- createUserWithTeam: create an owner and their own team, as signUp does ---
+export async function createUserWithTeam(newUser: {
+    email: string;
+    name: string | null;
+    passwordHash: string;
+    emailVerified: boolean;
+}) {
+    const { data: user, error: userErr } = await supabaseAdmin
+        .from('users')
+        .insert({
+            email: newUser.email,
+            name: newUser.name,
+            password_hash: newUser.passwordHash,
+            role: 'owner',
+            email_verified_at: newUser.emailVerified ? new Date().toISOString() : null,
+        })
+        .select('*')
+        .single();
+    if (userErr) throw userErr;
+
+    const { data: team, error: teamErr } = await supabaseAdmin
+        .from('teams')
+        .insert({ name: `${newUser.email}'s Team` })
+        .select('*')
+        .single();
+    if (teamErr) throw teamErr;
+
+    const { error: memberErr } = await supabaseAdmin
+        .from('team_members')
+        .insert({ user_id: user.id, team_id: team.id, role: 'owner' });
+    if (memberErr) throw memberErr;
+
+    await logActivity(team.id, user.id, ActivityType.CREATE_TEAM);
+    await logActivity(team.id, user.id, ActivityType.SIGN_UP);
+
+    return { user, team };
+}
+
+// --- getTeamRole: the user's role in a team, or null if not a member ---
+export async function getTeamRole(userId: number, teamId: number) {
+    const { data, error } = await supabaseAdmin
+        .from('team_members')
+        .select('role')
+        .eq('user_id', userId)
+        .eq('team_id', teamId)
+        .maybeSingle();
+    if (error) throw error;
+
+    return (data?.role as string | undefined) ?? null;
+}
+
+// --- removeTeamMembership: take a user out of a team ---
+export async function removeTeamMembership(teamId: number, userId: number) {
+    const { data, error } = await supabaseAdmin
+        .from('team_members')
+        .delete()
+        .eq('team_id', teamId)
+        .eq('user_id', userId)
+        .select('id');
+    if (error) throw error;
+
+    return data.length > 0;
+}
+
+// --- updateTeamMemberRole: change a member's role within a team ---
+export async function updateTeamMemberRole(teamId: number, userId: number, role: string) {
+    const { data, error } = await supabaseAdmin
+        .from('team_members')
+        .update({ role })
+        .eq('team_id', teamId)
+        .eq('user_id', userId)
+        .select('id');
+    if (error) throw error;
+
+    return data.length > 0;
+}
+
+// --- getTeamMembership: a team_members row by its id, scoped to the team ---
+export async function getTeamMembership(teamId: number, membershipId: number) {
+    const { data, error } = await supabaseAdmin
+        .from('team_members')
+        .select('user_id, role')
+        .eq('id', membershipId)
+        .eq('team_id', teamId)
+        .maybeSingle();
+    if (error) throw error;
+
+    return data ? { userId: data.user_id as number, role: data.role as string } : null;
+}
+
+// --- isLastOwner: whether the team would be left without an owner without this user ---
+export async function isLastOwner(teamId: number, userId: number) {
+    const { data, error } = await supabaseAdmin
+        .from('team_members')
+        .select('user_id')
+        .eq('team_id', teamId)
+        .eq('role', 'owner');
+    if (error) throw error;
+
+    return data.length === 1 && data[0].user_id === userId;
+}
+
+// --- getSoleOwnedTeams: teams the user is the only owner of, with member counts ---
+export type SoleOwnedTeam = {
+    id: number;
+    name: string;
+    memberCount: number;
+};
+
+// One team per membership, though supabase-js can't tell without generated
+// types.
+type OwnedTeamMemberRow = {
+    role: string;
+    teams: { id: number; name: string };
+};
+
+export async function getSoleOwnedTeams(userId: number): Promise<SoleOwnedTeam[]> {
+    const { data: owned, error } = await supabaseAdmin
+        .from('team_members')
+        .select('team_id')
+        .eq('user_id', userId)
+        .eq('role', 'owner');
+    if (error) throw error;
+    if (owned.length === 0) return [];
+
+    const { data: members, error: membersErr } = await supabaseAdmin
+        .from('team_members')
+        .select('role, teams(id, name)')
+        .in('team_id', owned.map((m) => m.team_id))
+        .overrideTypes<OwnedTeamMemberRow[], { merge: false }>();
+    if (membersErr) throw membersErr;
+
+    const teams = new Map<number, SoleOwnedTeam & { owners: number }>();
+    for (const m of members) {
+        const team = teams.get(m.teams.id) ?? {
+            id: m.teams.id,
+            name: m.teams.name,
+            memberCount: 0,
+            owners: 0,
+        };
+        team.memberCount += 1;
+        if (m.role === 'owner') team.owners += 1;
+        teams.set(team.id, team);
+    }
+
+    return [...teams.values()]
+        .filter((team) => team.owners === 1)
+        .map(({ owners, ...team }) => team);
+}
+
+// --- addTeamMember: add a user to a team unless they're already in it ---
+export async function addTeamMember(teamId: number, userId: number, role: string) {
+    if (await getTeamRole(userId, teamId)) return false;
+
+    const { error } = await supabaseAdmin
+        .from('team_members')
+        .insert({ team_id: teamId, user_id: userId, role });
+    if (error) throw error;
+
+    return true;
+}
+
+// --- softDeleteUser: flag the account deleted, free its email and leave every team ---
+export async function softDeleteUser(user: { id: number; email: string }) {
+    const { error } = await supabaseAdmin
+        .from('users')
+        .update({
+            deleted_at: new Date().toISOString(),
+            email: `${user.email}-${user.id}-deleted`,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', user.id);
+    if (error) throw error;
+
+    const { error: memberErr } = await supabaseAdmin
+        .from('team_members')
+        .delete()
+        .eq('user_id', user.id);
+    if (memberErr) throw memberErr;
+}
+
+// --- restoreUser: undo softDeleteUser, giving the account its email back ---
+export async function restoreUser(userId: number, email: string) {
+    const { error } = await supabaseAdmin
+        .from('users')
+        .update({
+            deleted_at: null,
+            email,
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', userId);
+    if (error) throw error;
+}
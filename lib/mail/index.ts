@@ -0,0 +1,47 @@
+import { consoleTransport, fileTransport } from './transports';
+
+export type MailMessage = {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+};
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Transports are picked by name through MAIL_TRANSPORT. A real provider can be
+// plugged in with registerMailTransport('name', transport) at startup.
+// Production has no default: sign-in links written to the server log would
+// be readable by anyone with access to it, so an unset MAIL_TRANSPORT fails.
+const transports = new Map<string, MailTransport>([
+  ['console', consoleTransport],
+  ['file', fileTransport],
+]);
+
+export function registerMailTransport(name: string, transport: MailTransport) {
+  transports.set(name, transport);
+}
+
+function getTransport() {
+  const name =
+    process.env.MAIL_TRANSPORT ||
+    (process.env.NODE_ENV === 'production' ? null : 'console');
+  if (!name) {
+    throw new Error('MAIL_TRANSPORT must be set in production');
+  }
+  const transport = transports.get(name);
+  if (!transport) {
+    throw new Error(`Unknown mail transport "${name}"`);
+  }
+  return transport;
+}
+
+export async function sendMail(message: Omit<MailMessage, 'from'>) {
+  await getTransport().send({
+    from: process.env.MAIL_FROM || 'ACME <no-reply@localhost>',
+    ...message,
+  });
+}
@@ -0,0 +1,140 @@
+// Plain-text bodies for the emails the app sends. Each returns the subject and
+// text passed to sendMail.
+
+export function passwordResetEmail(link: string) {
+  return {
+    subject: 'Reset your password',
+    text: [
+      'Someone asked to reset the password for your account.',
+      '',
+      'Follow this link within the next hour to choose a new one:',
+      link,
+      '',
+      "If this wasn't you, you can ignore this email; your password won't change.",
+    ].join('\n'),
+  };
+}
+
+export function verifyEmailEmail(link: string) {
+  return {
+    subject: 'Confirm your email address',
+    text: [
+      'Thanks for signing up! Please confirm your email address:',
+      link,
+      '',
+      'The link is valid for 24 hours.',
+    ].join('\n'),
+  };
+}
+
+export function emailChangeEmail(link: string, newEmail: string) {
+  return {
+    subject: 'Confirm your new email address',
+    text: [
+      `You asked to change your account email to ${newEmail}.`,
+      'Confirm the change by following this link:',
+      link,
+      '',
+      "The link is valid for 24 hours. If this wasn't you, ignore this email and nothing will change.",
+    ].join('\n'),
+  };
+}
+
+// Sent instead of the confirmation link when the new address already has an
+// account, so the form doesn't tell anyone which addresses are registered.
+export function emailInUseEmail(newEmail: string) {
+  return {
+    subject: 'Your email address is already in use',
+    text: [
+      `Someone asked to change their account email to ${newEmail}, but this address already belongs to an account, so nothing was changed.`,
+      '',
+      "If this was you, sign in with this address instead. If it wasn't, you can ignore this email.",
+    ].join('\n'),
+  };
+}
+
+export function signUpAttemptEmail(signInLink: string, resetLink: string) {
+  return {
+    subject: 'Someone tried to sign up with your email address',
+    text: [
+      'Someone tried to create an account with this address, but you already have one, so no new account was made.',
+      '',
+      'If this was you, sign in instead:',
+      signInLink,
+      '',
+      'Forgot your password? Reset it here:',
+      resetLink,
+      '',
+      "If it wasn't you, you can ignore this email.",
+    ].join('\n'),
+  };
+}
+
+export function magicLinkEmail(link: string) {
+  return {
+    subject: 'Your sign-in link',
+    text: [
+      'Use this link to sign in. It works once and expires in 15 minutes:',
+      link,
+      '',
+      "If you didn't ask to sign in, you can ignore this email.",
+    ].join('\n'),
+  };
+}
+
+export function accountLockedEmail(link: string) {
+  return {
+    subject: 'Your account has been locked',
+    text: [
+      'We locked your account for 30 minutes after too many failed sign-in attempts.',
+      '',
+      'If that was you, follow this link to unlock it now:',
+      link,
+      '',
+      "If it wasn't you, someone may be guessing your password. Consider changing it once you're back in.",
+    ].join('\n'),
+  };
+}
+
+export function invitationEmail(
+  link: string,
+  teamName: string,
+  inviterName: string
+) {
+  return {
+    subject: `You've been invited to join ${teamName}`,
+    text: [
+      `${inviterName} invited you to join ${teamName}.`,
+      '',
+      'Follow this link to accept. It works once and expires in 7 days:',
+      link,
+      '',
+      "If you weren't expecting this, you can ignore this email.",
+    ].join('\n'),
+  };
+}
+
+export function joinRequestDecisionEmail(
+  teamName: string,
+  approved: boolean,
+  link: string
+) {
+  return approved
+    ? {
+        subject: `You've joined ${teamName}`,
+        text: [
+          `Your request to join ${teamName} was approved.`,
+          '',
+          'Sign in to get started:',
+          link,
+        ].join('\n'),
+      }
+    : {
+        subject: `Your request to join ${teamName}`,
+        text: [
+          `Your request to join ${teamName} was declined.`,
+          '',
+          'If you think this is a mistake, contact someone on the team directly.',
+        ].join('\n'),
+      };
+}
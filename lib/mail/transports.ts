@@ -0,0 +1,32 @@
+import { appendFile, mkdir } from 'fs/promises';
+import path from 'path';
+import type { MailMessage, MailTransport } from './index';
+
+function formatMessage(message: MailMessage) {
+  return [
+    `From: ${message.from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    '',
+    message.text,
+  ].join('\n');
+}
+
+// Prints every message to the server log. The default in development; in
+// production it has to be chosen explicitly.
+export const consoleTransport: MailTransport = {
+  async send(message) {
+    console.log(`\n----- mail -----\n${formatMessage(message)}\n----------------`);
+  },
+};
+
+// Appends every message to a local file (MAIL_FILE_PATH, default
+// `.mail/outbox.log`) so links can be copied out while developing.
+export const fileTransport: MailTransport = {
+  async send(message) {
+    const file = path.resolve(process.env.MAIL_FILE_PATH || '.mail/outbox.log');
+    await mkdir(path.dirname(file), { recursive: true });
+    await appendFile(file, `${formatMessage(message)}\n\n`);
+  },
+};
@@ -4,12 +4,18 @@ import { redirect } from 'next/navigation';
 import { createCheckoutSession, createCustomerPortalSession } from './stripe';
 import { withTeam } from '@/lib/auth/middleware';
 
-export const checkoutAction = withTeam(async (formData, team) => {
-  const priceId = formData.get('priceId') as string;
-  await createCheckoutSession({ team: team, priceId });
-});
+export const checkoutAction = withTeam(
+  async (formData, team) => {
+    const priceId = formData.get('priceId') as string;
+    await createCheckoutSession({ team: team, priceId });
+  },
+  { permission: 'billing.manage' }
+);
 
-export const customerPortalAction = withTeam(async (_, team) => {
-  const portalSession = await createCustomerPortalSession(team);
-  redirect(portalSession.url);
-});
+export const customerPortalAction = withTeam(
+  async (_, team) => {
+    const portalSession = await createCustomerPortalSession(team);
+    redirect(portalSession.url);
+  },
+  { permission: 'billing.manage' }
+);
@@ -1,9 +1,12 @@
 import Stripe from 'stripe';
 import { redirect } from 'next/navigation';
-import { Team } from '@/lib/db/schema';
+import { ActivityType, Team } from '@/lib/db/schema';
 import {
+  activityDiff,
+  getSeatUsage,
   getTeamByStripeCustomerId,
   getUser,
+  logActivity,
   updateTeamSubscription
 } from '@/lib/db/queries';
 
@@ -24,12 +27,18 @@ export async function createCheckoutSession({
     redirect(`/sign-up?redirect=checkout&priceId=${priceId}`);
   }
 
+  // Unverified accounts can't start a subscription.
+  if (!user.email_verified_at) {
+    redirect('/dashboard/general?verification=required');
+  }
+
+  const { seats } = await getSeatUsage(team.id);
   const session = await stripe.checkout.sessions.create({
     payment_method_types: ['card'],
     line_items: [
       {
         price: priceId,
-        quantity: 1
+        quantity: seats
       }
     ],
     mode: 'subscription',
@@ -37,6 +46,8 @@ export async function createCheckoutSession({
     cancel_url: `${process.env.BASE_URL}/pricing`,
     customer: team.stripeCustomerId || undefined,
     client_reference_id: user.id.toString(),
+    // Users can belong to several teams, so record which one is subscribing.
+    metadata: { team_id: team.id.toString() },
     allow_promotion_codes: true,
     subscription_data: {
       trial_period_days: 14
@@ -77,7 +88,8 @@ export async function createCustomerPortalSession(team: Team) {
       features: {
         subscription_update: {
           enabled: true,
-          default_allowed_updates: ['price', 'quantity', 'promotion_code'],
+          // Quantity follows the member count, so it isn't offered here.
+          default_allowed_updates: ['price', 'promotion_code'],
           proration_behavior: 'create_prorations',
           products: [
             {
@@ -114,6 +126,66 @@ export async function createCustomerPortalSession(team: Team) {
   });
 }
 
+// Ends a subscription immediately, e.g. when its team is deleted. The
+// resulting webhook clears the plan fields on the team.
+export async function cancelSubscription(subscriptionId: string) {
+  await stripe.subscriptions.cancel(subscriptionId);
+}
+
+// Billing changes come from Stripe or follow from membership changes, so
+// they're logged as the system's doing.
+function logBillingActivity(
+  teamId: number,
+  subscriptionId: string,
+  type: ActivityType,
+  metadata: Record<string, unknown>
+) {
+  return logActivity(teamId, null, type, {
+    actorType: 'system',
+    target: { type: 'subscription', id: subscriptionId },
+    metadata
+  });
+}
+
+// Sets the subscription's quantity to `seats`, prorating the difference.
+async function updateSeatQuantity(
+  teamId: number,
+  subscription: Stripe.Subscription,
+  seats: number
+) {
+  const item = subscription.items.data[0];
+  if (!item || item.quantity === seats) return;
+
+  await stripe.subscriptionItems.update(item.id, {
+    quantity: seats,
+    proration_behavior: 'create_prorations'
+  });
+  await logBillingActivity(teamId, subscription.id, ActivityType.UPDATE_SEATS, {
+    from: item.quantity ?? null,
+    seats
+  });
+}
+
+// Called after a team's membership changes. Billing must not get in the way
+// of adding or removing people, so failures are logged and left for the
+// next subscription webhook to reconcile.
+export async function syncSubscriptionSeats(teamId: number) {
+  try {
+    const { subscriptionId, seats } = await getSeatUsage(teamId);
+    if (!subscriptionId) return;
+
+    const subscription = await stripe.subscriptions.retrieve(subscriptionId);
+    if (
+      subscription.status === 'active' ||
+      subscription.status === 'trialing'
+    ) {
+      await updateSeatQuantity(teamId, subscription, seats);
+    }
+  } catch (error) {
+    console.error(`Failed to sync seats for team ${teamId}:`, error);
+  }
+}
+
 export async function handleSubscriptionChange(
   subscription: Stripe.Subscription
 ) {
@@ -130,12 +202,32 @@ export async function handleSubscriptionChange(
 
   if (status === 'active' || status === 'trialing') {
     const plan = subscription.items.data[0]?.plan;
+    const planName = (plan?.product as Stripe.Product).name;
     await updateTeamSubscription(team.id, {
       stripeSubscriptionId: subscriptionId,
       stripeProductId: plan?.product as string,
-      planName: (plan?.product as Stripe.Product).name,
+      planName,
       subscriptionStatus: status
     });
+
+    // Stripe sends updates for more than plan and status changes.
+    const changes = activityDiff(
+      { plan: team.plan_name, status: team.subscription_status },
+      { plan: planName, status }
+    );
+    if (Object.keys(changes).length > 0) {
+      await logBillingActivity(
+        team.id,
+        subscriptionId,
+        ActivityType.UPDATE_SUBSCRIPTION,
+        { plan: planName, status, changes }
+      );
+    }
+
+    // Catches up on any membership change whose sync failed, and undoes
+    // quantity changes made outside the app.
+    const { seats } = await getSeatUsage(team.id);
+    await updateSeatQuantity(team.id, subscription, seats);
   } else if (status === 'canceled' || status === 'unpaid') {
     await updateTeamSubscription(team.id, {
       stripeSubscriptionId: null,
@@ -143,6 +235,15 @@ export async function handleSubscriptionChange(
       planName: null,
       subscriptionStatus: status
     });
+
+    if (team.subscription_status !== status) {
+      await logBillingActivity(
+        team.id,
+        subscriptionId,
+        ActivityType.CANCEL_SUBSCRIPTION,
+        { plan: team.plan_name, status }
+      );
+    }
   }
 }
 
@@ -0,0 +1,201 @@
+import { NextRequest } from 'next/server';
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import {
+  createTeamRole,
+  deleteTeamRole,
+  getTeamRoles,
+  isBuiltInRole
+} from '@/lib/auth/permissions';
+import { updateTeamMemberRole } from '@/lib/db/queries';
+import { ActivityType } from '@/lib/db/schema';
+import { SCHEMAS, isRecord, scimBaseUrl } from './protocol';
+import { logScimActivity, type ScimFailure } from './users';
+
+// SCIM Groups are the team's roles, identified by name. A member holds exactly
+// one role, so adding someone to a group moves them out of their previous
+// one, and removing them from a group drops them back to `member`.
+export type ScimGroupRecord = {
+  name: string;
+  builtIn: boolean;
+  members: { userId: number; email: string }[];
+};
+
+const DEFAULT_ROLE = 'member';
+
+type MemberRow = {
+  role: string;
+  users: { id: number; email: string };
+};
+
+export async function listScimGroups(teamId: number): Promise<ScimGroupRecord[]> {
+  const [roles, { data: members, error }] = await Promise.all([
+    getTeamRoles(teamId),
+    supabaseAdmin
+      .from('team_members')
+      .select('role, users(id, email)')
+      .eq('team_id', teamId)
+      .overrideTypes<MemberRow[], { merge: false }>(),
+  ]);
+  if (error) throw error;
+
+  return roles.map((role) => ({
+    name: role.name,
+    builtIn: role.builtIn,
+    members: members
+      .filter((member) => member.role === role.name)
+      .map((member) => ({
+        userId: member.users.id,
+        email: member.users.email,
+      })),
+  }));
+}
+
+export async function getScimGroup(teamId: number, name: string) {
+  const groups = await listScimGroups(teamId);
+  return groups.find((group) => group.name === name) ?? null;
+}
+
+export function toScimGroup(record: ScimGroupRecord) {
+  return {
+    schemas: [SCHEMAS.group],
+    id: record.name,
+    displayName: record.name,
+    members: record.members.map((member) => ({
+      value: String(member.userId),
+      display: member.email,
+      $ref: `${scimBaseUrl()}/Users/${member.userId}`,
+    })),
+    meta: {
+      resourceType: 'Group',
+      location: `${scimBaseUrl()}/Groups/${encodeURIComponent(record.name)}`,
+    },
+  };
+}
+
+// Providers list groups without members when they only need the ids.
+export function withoutExcludedMembers(
+  request: NextRequest,
+  group: ReturnType<typeof toScimGroup>
+) {
+  const excluded = request.nextUrl.searchParams.get('excludedAttributes');
+  return excluded?.toLowerCase().split(',').includes('members')
+    ? { ...group, members: undefined }
+    : group;
+}
+
+// New groups become custom roles with no permissions; what a role may do is
+// still decided in the dashboard.
+export async function createScimGroup(
+  teamId: number,
+  displayName: string
+): Promise<{ group: ScimGroupRecord } | ScimFailure> {
+  const name = displayName.trim().toLowerCase();
+  if (!name || name.length > 50) {
+    return {
+      error: 'displayName must be 1-50 characters.',
+      status: 400,
+      scimType: 'invalidValue',
+    };
+  }
+  if (await getScimGroup(teamId, name)) {
+    return {
+      error: `Group ${name} already exists.`,
+      status: 409,
+      scimType: 'uniqueness',
+    };
+  }
+
+  await createTeamRole(teamId, name, []);
+  return { group: (await getScimGroup(teamId, name))! };
+}
+
+export async function deleteScimGroup(
+  teamId: number,
+  name: string
+): Promise<{ deleted: true } | ScimFailure> {
+  if (isBuiltInRole(name)) {
+    return {
+      error: `Group ${name} is built in.`,
+      status: 400,
+      scimType: 'mutability',
+    };
+  }
+  const roles = await getTeamRoles(teamId);
+  const role = roles.find((r) => r.name === name);
+  if (!role?.id) return { error: `Group ${name} not found.`, status: 404 };
+
+  if (!(await deleteTeamRole(teamId, role.id))) {
+    return { error: `Group ${name} still has members.`, status: 409 };
+  }
+  return { deleted: true };
+}
+
+// Moves users into or out of the group. Every user must already be a member
+// of the team, and nobody is moved into or out of `owner`: ownership is
+// handed over in the app, by an owner. Nothing changes unless all the moves
+// are allowed.
+export async function updateScimGroupMembers(
+  teamId: number,
+  name: string,
+  changes: { add: number[]; remove: number[] }
+): Promise<{ group: ScimGroupRecord } | ScimFailure> {
+  const groups = await listScimGroups(teamId);
+  const group = groups.find((g) => g.name === name);
+  if (!group) return { error: `Group ${name} not found.`, status: 404 };
+
+  const roleOf = new Map<number, string>(
+    groups.flatMap((g) =>
+      g.members.map((member): [number, string] => [member.userId, g.name])
+    )
+  );
+  const moves = new Map<number, string>();
+  for (const userId of changes.add) {
+    if (!roleOf.has(userId)) {
+      return {
+        error: `User ${userId} is not a member of this team.`,
+        status: 400,
+        scimType: 'invalidValue',
+      };
+    }
+    if (roleOf.get(userId) !== name) moves.set(userId, name);
+  }
+  if (name !== DEFAULT_ROLE) {
+    for (const userId of changes.remove) {
+      if (roleOf.get(userId) === name) moves.set(userId, DEFAULT_ROLE);
+    }
+  }
+
+  for (const [userId, role] of moves) {
+    if (role === 'owner' || roleOf.get(userId) === 'owner') {
+      return {
+        error: 'Owners are managed in the app, not over SCIM.',
+        status: 403,
+      };
+    }
+  }
+
+  for (const [userId, role] of moves) {
+    await updateTeamMemberRole(teamId, userId, role);
+    await logScimActivity(teamId, userId, ActivityType.SCIM_UPDATE_ROLE, {
+      metadata: { from: roleOf.get(userId), to: role },
+    });
+  }
+
+  const updated = await listScimGroups(teamId);
+  return { group: updated.find((g) => g.name === name)! };
+}
+
+// User ids from a `members` value: [{ "value": "42" }, ...].
+export function readMemberIds(value: unknown): number[] | null {
+  const members: unknown[] = Array.isArray(value) ? value : value ? [value] : [];
+  const ids = members.map((member) =>
+    Number(isRecord(member) ? member.value : undefined)
+  );
+  return ids.every(Number.isInteger) ? ids : null;
+}
+
+// The member a path like `members[value eq "42"]` points at, if it is one.
+export function readMemberPath(path: string) {
+  const match = /^members\[value eq "?(\d+)"?\]$/i.exec(path.trim());
+  return match ? Number(match[1]) : null;
+}
@@ -0,0 +1,388 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { findApiToken, type ApiToken } from '@/lib/auth/api-tokens';
+
+// The parts of SCIM 2.0 (RFC 7643/7644) that identity providers rely on:
+// resource envelopes, errors, list responses, filters and PATCH operations.
+// Resources themselves live in ./users and ./groups.
+export const SCHEMAS = {
+  user: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  group: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  listResponse: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  patchOp: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  error: 'urn:ietf:params:scim:api:messages:2.0:Error',
+  serviceProviderConfig:
+    'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+} as const;
+
+const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+export const MAX_PAGE_SIZE = 200;
+
+export function scimBaseUrl() {
+  return `${process.env.BASE_URL}/api/scim/v2`;
+}
+
+export function scimJson(body: unknown, status = 200) {
+  return NextResponse.json(body, {
+    status,
+    headers: { 'Content-Type': SCIM_CONTENT_TYPE },
+  });
+}
+
+export type ScimErrorType =
+  | 'invalidFilter'
+  | 'invalidSyntax'
+  | 'invalidPath'
+  | 'invalidValue'
+  | 'mutability'
+  | 'uniqueness'
+  | 'noTarget';
+
+export function scimError(
+  status: number,
+  detail: string,
+  scimType?: ScimErrorType
+) {
+  return scimJson(
+    { schemas: [SCHEMAS.error], status: String(status), scimType, detail },
+    status
+  );
+}
+
+// SCIM bodies are whatever JSON the provider sent; everything read from them
+// is narrowed from `unknown` with this first.
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Reads the JSON body, which identity providers send as application/scim+json.
+export async function readScimBody(request: NextRequest) {
+  try {
+    const body: unknown = await request.json();
+    return isRecord(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+export function listResponse(
+  resources: unknown[],
+  total: number,
+  startIndex: number
+) {
+  return scimJson({
+    schemas: [SCHEMAS.listResponse],
+    totalResults: total,
+    startIndex,
+    itemsPerPage: resources.length,
+    Resources: resources,
+  });
+}
+
+// startIndex is 1-based; count is capped so a client can't ask for everything.
+export function readPagination(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const startIndex = Math.max(1, Number(params.get('startIndex')) || 1);
+  const count = Math.min(
+    MAX_PAGE_SIZE,
+    Math.max(0, Number(params.get('count') ?? MAX_PAGE_SIZE) || 0)
+  );
+  return { startIndex, count };
+}
+
+export function paginate<T>(
+  resources: T[],
+  { startIndex, count }: { startIndex: number; count: number }
+) {
+  return resources.slice(startIndex - 1, startIndex - 1 + count);
+}
+
+//
+// Authentication
+//
+type ScimRouteHandler<C> = (
+  request: NextRequest,
+  teamId: number,
+  context: C,
+  token: ApiToken
+) => Promise<Response>;
+
+// SCIM requests come from the team's identity provider, so only a team token
+// with the scim:provision scope is accepted; sessions and personal tokens are
+// not. Handlers also get the token, for what is done in the name of whoever
+// created it, such as sending invitations.
+export function withScimAuth<C = unknown>(handler: ScimRouteHandler<C>) {
+  return async (request: NextRequest, context: C): Promise<Response> => {
+    const authorization = request.headers.get('authorization');
+    const token = authorization?.toLowerCase().startsWith('bearer ')
+      ? await findApiToken(authorization.slice(7).trim())
+      : null;
+    if (!token?.teamId) {
+      const response = scimError(401, 'A team SCIM token is required.');
+      response.headers.set('WWW-Authenticate', 'Bearer');
+      return response;
+    }
+    if (!token.scopes.includes('scim:provision')) {
+      return scimError(403, 'The token lacks the scim:provision scope.');
+    }
+
+    return handler(request, token.teamId, context, token);
+  };
+}
+
+//
+// Filters
+//
+// Supports the comparison operators, `pr`, `and`, `or`, `not` and
+// parentheses over simple and dotted attribute paths. Comparisons of string
+// values ignore case, except for the case-exact `id` and `externalId`.
+type CompareOp = 'eq' | 'ne' | 'co' | 'sw' | 'ew' | 'gt' | 'ge' | 'lt' | 'le';
+
+export type ScimFilter =
+  | { op: 'and' | 'or'; left: ScimFilter; right: ScimFilter }
+  | { op: 'not'; filter: ScimFilter }
+  | { op: 'pr'; path: string }
+  | { op: CompareOp; path: string; value: string | number | boolean | null };
+
+const COMPARE_OPS = new Set(['eq', 'ne', 'co', 'sw', 'ew', 'gt', 'ge', 'lt', 'le']);
+const CASE_EXACT = new Set(['id', 'externalid']);
+
+function tokenize(input: string) {
+  return input.match(/"(?:[^"\\]|\\.)*"|\(|\)|[^\s()]+/g) ?? [];
+}
+
+function parseValue(token: string | undefined) {
+  if (token === undefined) return undefined;
+  if (token.startsWith('"')) {
+    try {
+      return JSON.parse(token) as string;
+    } catch {
+      return undefined;
+    }
+  }
+  if (token === 'true') return true;
+  if (token === 'false') return false;
+  if (token === 'null') return null;
+  const number = Number(token);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+export function parseFilter(
+  input: string
+): { filter: ScimFilter } | { error: string } {
+  const tokens = tokenize(input);
+  let position = 0;
+  const peek = () => tokens[position]?.toLowerCase();
+
+  function parseOr(): ScimFilter | null {
+    let left = parseAnd();
+    while (left && peek() === 'or') {
+      position++;
+      const right = parseAnd();
+      left = right && { op: 'or', left, right };
+    }
+    return left;
+  }
+
+  function parseAnd(): ScimFilter | null {
+    let left = parseTerm();
+    while (left && peek() === 'and') {
+      position++;
+      const right = parseTerm();
+      left = right && { op: 'and', left, right };
+    }
+    return left;
+  }
+
+  function parseTerm(): ScimFilter | null {
+    if (peek() === 'not') {
+      position++;
+      const filter = parseTerm();
+      return filter && { op: 'not', filter };
+    }
+    if (peek() === '(') {
+      position++;
+      const filter = parseOr();
+      if (peek() !== ')') return null;
+      position++;
+      return filter;
+    }
+
+    const path = tokens[position++];
+    const op = tokens[position++]?.toLowerCase();
+    if (!path || !op || path === ')' || path === '(') return null;
+    if (op === 'pr') return { op: 'pr', path };
+    if (!COMPARE_OPS.has(op)) return null;
+
+    const value = parseValue(tokens[position++]);
+    if (value === undefined) return null;
+    return { op: op as CompareOp, path, value };
+  }
+
+  const filter = parseOr();
+  if (!filter || position !== tokens.length) {
+    return { error: `Invalid filter: ${input}` };
+  }
+  return { filter };
+}
+
+// Values at a dotted path, flattening multi-valued attributes on the way.
+function valuesAt(resource: unknown, path: string): unknown[] {
+  let values: unknown[] = [resource];
+  for (const segment of path.split('.')) {
+    const key = segment.toLowerCase();
+    values = values.flatMap((value) => {
+      if (!value || typeof value !== 'object') return [];
+      const entry = Object.entries(value).find(
+        ([name]) => name.toLowerCase() === key
+      );
+      if (!entry || entry[1] === undefined || entry[1] === null) return [];
+      return Array.isArray(entry[1]) ? entry[1] : [entry[1]];
+    });
+  }
+  return values;
+}
+
+function compare(
+  op: CompareOp,
+  actual: unknown,
+  expected: string | number | boolean | null,
+  caseExact: boolean
+) {
+  if (expected === null) {
+    return op === 'eq' ? actual === null : op === 'ne' ? actual !== null : false;
+  }
+  const fold = (value: unknown) =>
+    typeof value === 'string' && !caseExact ? value.toLowerCase() : value;
+  const a = fold(actual);
+  const b = fold(expected);
+  // Ordering only means something between two strings or two numbers.
+  const order =
+    (typeof a === 'string' && typeof b === 'string') ||
+    (typeof a === 'number' && typeof b === 'number')
+      ? a < b
+        ? -1
+        : a > b
+          ? 1
+          : 0
+      : null;
+
+  switch (op) {
+    case 'eq':
+      return a === b;
+    case 'ne':
+      return a !== b;
+    case 'co':
+      return typeof a === 'string' && typeof b === 'string' && a.includes(b);
+    case 'sw':
+      return typeof a === 'string' && typeof b === 'string' && a.startsWith(b);
+    case 'ew':
+      return typeof a === 'string' && typeof b === 'string' && a.endsWith(b);
+    case 'gt':
+      return order !== null && order > 0;
+    case 'ge':
+      return order !== null && order >= 0;
+    case 'lt':
+      return order !== null && order < 0;
+    case 'le':
+      return order !== null && order <= 0;
+  }
+}
+
+export function matchesFilter(resource: unknown, filter: ScimFilter): boolean {
+  switch (filter.op) {
+    case 'and':
+      return (
+        matchesFilter(resource, filter.left) &&
+        matchesFilter(resource, filter.right)
+      );
+    case 'or':
+      return (
+        matchesFilter(resource, filter.left) ||
+        matchesFilter(resource, filter.right)
+      );
+    case 'not':
+      return !matchesFilter(resource, filter.filter);
+    case 'pr':
+      return valuesAt(resource, filter.path).some((value) => value !== '');
+    default: {
+      const caseExact = CASE_EXACT.has(filter.path.toLowerCase());
+      const values = valuesAt(resource, filter.path);
+      if (filter.op === 'ne') {
+        return values.every((value) =>
+          compare('ne', value, filter.value, caseExact)
+        );
+      }
+      return values.some((value) =>
+        compare(filter.op as CompareOp, value, filter.value, caseExact)
+      );
+    }
+  }
+}
+
+// Applies the request's `filter` query parameter, if any.
+export function applyFilter<T>(
+  request: NextRequest,
+  resources: T[]
+): { resources: T[] } | { error: string } {
+  const input = request.nextUrl.searchParams.get('filter');
+  if (!input) return { resources };
+
+  const parsed = parseFilter(input);
+  if ('error' in parsed) return parsed;
+  return {
+    resources: resources.filter((resource) =>
+      matchesFilter(resource, parsed.filter)
+    ),
+  };
+}
+
+//
+// PATCH
+//
+export type PatchOperation = {
+  op: 'add' | 'remove' | 'replace';
+  path: string | null;
+  value: unknown;
+};
+
+// Normalizes a PatchOp body. Providers differ in the case of `op`, so it is
+// lowered here; anything else malformed is refused.
+export function readPatchOperations(
+  body: Record<string, unknown> | null
+): { operations: PatchOperation[] } | { error: string } {
+  if (
+    !body ||
+    !Array.isArray(body.schemas) ||
+    !body.schemas.includes(SCHEMAS.patchOp) ||
+    !Array.isArray(body.Operations)
+  ) {
+    return { error: 'Expected a PatchOp request with Operations.' };
+  }
+
+  const operations: PatchOperation[] = [];
+  for (const operation of body.Operations as unknown[]) {
+    const fields = isRecord(operation) ? operation : {};
+    const op = String(fields.op ?? '').toLowerCase();
+    if (op !== 'add' && op !== 'remove' && op !== 'replace') {
+      return { error: `Unsupported PATCH op "${fields.op}".` };
+    }
+    const path = typeof fields.path === 'string' ? fields.path : null;
+    if (op === 'remove' && !path) {
+      return { error: 'A remove operation needs a path.' };
+    }
+    operations.push({ op, path, value: fields.value });
+  }
+  return { operations };
+}
+
+// Booleans arrive as strings from some providers ("False").
+export function readBoolean(value: unknown) {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    const lowered = value.toLowerCase();
+    if (lowered === 'true') return true;
+    if (lowered === 'false') return false;
+  }
+  return null;
+}
@@ -0,0 +1,564 @@
+import { randomBytes } from 'crypto';
+import { z } from 'zod';
+import { supabaseAdmin } from '@/lib/supabaseClient';
+import { isTeamVerifiedAddress } from '@/lib/auth/domains';
+import {
+  requestEmailChange,
+  sendVerificationEmail
+} from '@/lib/auth/email-verification';
+import {
+  createInvitation,
+  hasPendingInvitation,
+  sendInvitationEmail
+} from '@/lib/auth/invitations';
+import { hashPassword, revokeUserSessions } from '@/lib/auth/session';
+import {
+  addTeamMember,
+  changeUserEmail,
+  getTeamsForUser,
+  getUserByEmail,
+  logActivity,
+  removeTeamMembership,
+  restoreUser,
+  softDeleteUser
+} from '@/lib/db/queries';
+import { ActivityType } from '@/lib/db/schema';
+import { syncSubscriptionSeats } from '@/lib/payments/stripe';
+import {
+  SCHEMAS,
+  isRecord,
+  readBoolean,
+  scimBaseUrl,
+  type PatchOperation,
+  type ScimErrorType
+} from './protocol';
+
+// SCIM Users are the team's members plus anyone the identity provider has
+// deactivated. `scim_identities` remembers what the provider calls each user
+// and whether it created the account (`managed`) or linked an existing one.
+//
+// Deactivating a managed account that belongs to no other team soft-deletes
+// it, as deleteAccount does; reactivating restores it. An account the user
+// created themselves is only taken out of this team, never deleted.
+export type ScimUserRecord = {
+  userId: number;
+  userName: string;
+  name: string | null;
+  externalId: string | null;
+  active: boolean;
+  managed: boolean;
+  role: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ScimFailure = {
+  error: string;
+  status: number;
+  scimType?: ScimErrorType;
+};
+
+function failure(
+  status: number,
+  error: string,
+  scimType?: ScimErrorType
+): ScimFailure {
+  return { error, status, scimType };
+}
+
+// Each row embeds one user, though supabase-js can't tell without generated
+// types.
+type MemberRow = {
+  role: string;
+  users: {
+    id: number;
+    name: string | null;
+    email: string;
+    created_at: string;
+    updated_at: string;
+  };
+};
+
+type IdentityRow = {
+  user_id: number;
+  external_id: string | null;
+  user_name: string;
+  managed: boolean;
+  active: boolean;
+  created_at: string;
+  updated_at: string;
+  users: { name: string | null } | null;
+};
+
+export async function listScimUsers(teamId: number): Promise<ScimUserRecord[]> {
+  const [members, identities] = await Promise.all([
+    supabaseAdmin
+      .from('team_members')
+      .select('role, users(id, name, email, created_at, updated_at)')
+      .eq('team_id', teamId)
+      .overrideTypes<MemberRow[], { merge: false }>(),
+    supabaseAdmin
+      .from('scim_identities')
+      .select(
+        'user_id, external_id, user_name, managed, active, created_at, updated_at, users(name)'
+      )
+      .eq('team_id', teamId)
+      .overrideTypes<IdentityRow[], { merge: false }>(),
+  ]);
+  if (members.error) throw members.error;
+  if (identities.error) throw identities.error;
+
+  const identityByUser = new Map(
+    identities.data.map((identity) => [identity.user_id, identity])
+  );
+  const records: ScimUserRecord[] = members.data.map((member) => {
+    const identity = identityByUser.get(member.users.id);
+    identityByUser.delete(member.users.id);
+    return {
+      userId: member.users.id,
+      userName: identity?.user_name ?? member.users.email,
+      name: member.users.name,
+      externalId: identity?.external_id ?? null,
+      active: true,
+      managed: identity?.managed ?? false,
+      role: member.role,
+      createdAt: identity?.created_at ?? member.users.created_at,
+      updatedAt: member.users.updated_at,
+    };
+  });
+
+  // Identities without a membership are the deactivated users.
+  for (const identity of identityByUser.values()) {
+    records.push({
+      userId: identity.user_id,
+      userName: identity.user_name,
+      name: identity.users?.name ?? null,
+      externalId: identity.external_id,
+      active: false,
+      managed: identity.managed,
+      role: null,
+      createdAt: identity.created_at,
+      updatedAt: identity.updated_at,
+    });
+  }
+
+  return records.sort((a, b) => a.userId - b.userId);
+}
+
+export async function getScimUser(teamId: number, userId: number) {
+  const users = await listScimUsers(teamId);
+  return users.find((user) => user.userId === userId) ?? null;
+}
+
+export function toScimUser(record: ScimUserRecord) {
+  const location = `${scimBaseUrl()}/Users/${record.userId}`;
+  return {
+    schemas: [SCHEMAS.user],
+    id: String(record.userId),
+    externalId: record.externalId ?? undefined,
+    userName: record.userName,
+    displayName: record.name ?? record.userName,
+    name: record.name ? { formatted: record.name } : undefined,
+    emails: [{ value: record.userName, type: 'work', primary: true }],
+    active: record.active,
+    groups: record.role
+      ? [
+          {
+            value: record.role,
+            display: record.role,
+            $ref: `${scimBaseUrl()}/Groups/${encodeURIComponent(record.role)}`,
+          },
+        ]
+      : [],
+    meta: {
+      resourceType: 'User',
+      created: record.createdAt,
+      lastModified: record.updatedAt,
+      location,
+    },
+  };
+}
+
+async function saveIdentity(
+  teamId: number,
+  userId: number,
+  identity: {
+    userName?: string;
+    externalId?: string | null;
+    managed?: boolean;
+    active?: boolean;
+  }
+) {
+  const { error } = await supabaseAdmin.from('scim_identities').upsert(
+    {
+      team_id: teamId,
+      user_id: userId,
+      ...(identity.userName !== undefined && {
+        user_name: identity.userName.toLowerCase(),
+      }),
+      ...(identity.externalId !== undefined && {
+        external_id: identity.externalId,
+      }),
+      ...(identity.managed !== undefined && { managed: identity.managed }),
+      ...(identity.active !== undefined && { active: identity.active }),
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: 'team_id,user_id' }
+  );
+  if (error) throw error;
+}
+
+export type ScimUserInput = {
+  userName: string;
+  name: string | null;
+  externalId: string | null;
+  active: boolean;
+};
+
+// The provider only vouches for addresses on a domain the team has verified.
+// There it links an existing account with that address, or creates a
+// verified one. Elsewhere it can't sign anyone up to the team without their
+// consent: an existing account is invited instead (in the name of whoever
+// created the SCIM token), and a new account must confirm its address first.
+// Provisioned accounts get a random password; their owner signs in through
+// SSO or resets it.
+export async function createScimUser(
+  teamId: number,
+  input: ScimUserInput,
+  invitedBy: number
+): Promise<{ user: ScimUserRecord } | ScimFailure> {
+  const userName = input.userName.toLowerCase();
+  const existing = await listScimUsers(teamId);
+  if (existing.some((user) => user.userName.toLowerCase() === userName)) {
+    return failure(409, `User ${userName} already exists.`, 'uniqueness');
+  }
+
+  const vouched = await isTeamVerifiedAddress(teamId, userName);
+  let userId: number;
+  let managed = false;
+  const account = await getUserByEmail(userName);
+  if (account && !vouched) {
+    if (!(await hasPendingInvitation(teamId, userName))) {
+      const { invitation, token } = await createInvitation({
+        teamId,
+        invitedBy,
+        email: userName,
+        role: 'member',
+        name: input.name,
+      });
+      await sendInvitationEmail(invitation, token, invitation.invitedBy);
+    }
+    return failure(
+      409,
+      `${userName} already has an account outside the team's verified domains, so they have been invited to join instead.`,
+      'uniqueness'
+    );
+  }
+
+  if (account) {
+    userId = account.id;
+  } else {
+    const { data, error } = await supabaseAdmin
+      .from('users')
+      .insert({
+        email: userName,
+        name: input.name,
+        password_hash: await hashPassword(randomBytes(32).toString('hex')),
+        role: 'member',
+        email_verified_at: vouched ? new Date().toISOString() : null,
+      })
+      .select('id')
+      .single();
+    if (error) throw error;
+    userId = data.id;
+    managed = true;
+    if (!vouched) await sendVerificationEmail(userId, userName);
+  }
+
+  await addTeamMember(teamId, userId, 'member');
+  await syncSubscriptionSeats(teamId);
+  await saveIdentity(teamId, userId, {
+    userName,
+    externalId: input.externalId,
+    managed,
+    active: true,
+  });
+  await logScimActivity(teamId, userId, ActivityType.SCIM_PROVISION_USER);
+
+  if (!input.active) {
+    const deactivated = await setScimUserActive(teamId, userId, false);
+    if ('error' in deactivated) return deactivated;
+  }
+  return { user: (await getScimUser(teamId, userId))! };
+}
+
+// Changes made by the identity provider are attributed to it, not to the
+// member they happened to.
+export async function logScimActivity(
+  teamId: number,
+  userId: number,
+  type: ActivityType,
+  details: { label?: string; metadata?: Record<string, unknown> } = {}
+) {
+  await logActivity(teamId, null, type, {
+    actorType: 'scim',
+    target: { type: 'user', id: userId, label: details.label },
+    metadata: details.metadata,
+  });
+}
+
+// The account's own address, which may lag behind the provider's userName
+// while a change to it waits to be confirmed.
+async function getAccount(userId: number) {
+  const { data, error } = await supabaseAdmin
+    .from('users')
+    .select('email, deleted_at')
+    .eq('id', userId)
+    .single();
+  if (error) throw error;
+
+  return { email: data.email as string, deleted: !!data.deleted_at };
+}
+
+export async function setScimUserActive(
+  teamId: number,
+  userId: number,
+  active: boolean
+): Promise<{ user: ScimUserRecord } | ScimFailure> {
+  const record = await getScimUser(teamId, userId);
+  if (!record) return failure(404, `User ${userId} not found.`);
+  if (record.active === active) return { user: record };
+
+  if (!active) {
+    if (record.role === 'owner') {
+      return failure(403, 'Owners are managed in the app, not over SCIM.');
+    }
+
+    const otherTeams = (await getTeamsForUser(userId)).filter(
+      (team) => team.id !== teamId
+    );
+    if (record.managed && otherTeams.length === 0) {
+      const account = await getAccount(userId);
+      await softDeleteUser({ id: userId, email: account.email });
+      await revokeUserSessions(userId);
+    } else {
+      await removeTeamMembership(teamId, userId);
+    }
+    await saveIdentity(teamId, userId, {
+      userName: record.userName,
+      active: false,
+    });
+    // By now a managed account may be deleted, so name it from the record.
+    await logScimActivity(teamId, userId, ActivityType.SCIM_DEACTIVATE_USER, {
+      label: record.name || record.userName,
+    });
+    await syncSubscriptionSeats(teamId);
+  } else {
+    const account = await getAccount(userId);
+    if (account.deleted) {
+      if (!record.managed) {
+        return failure(409, 'This account has been deleted by its owner.');
+      }
+      // softDeleteUser freed the address by suffixing it.
+      const email = account.email.slice(0, -`-${userId}-deleted`.length);
+      if (await getUserByEmail(email)) {
+        return failure(409, `Another account now uses ${email}.`, 'uniqueness');
+      }
+      await restoreUser(userId, email);
+    }
+    await addTeamMember(teamId, userId, 'member');
+    await syncSubscriptionSeats(teamId);
+    await saveIdentity(teamId, userId, { active: true });
+    await logScimActivity(teamId, userId, ActivityType.SCIM_PROVISION_USER);
+  }
+
+  return { user: (await getScimUser(teamId, userId))! };
+}
+
+export type ScimUserChanges = Partial<ScimUserInput>;
+
+// The provider may rename and re-address accounts it created. A new address
+// on one of the team's verified domains applies at once; any other must be
+// confirmed from its inbox first, as when people change it themselves. The
+// identity takes the new userName either way, so later syncs don't send the
+// confirmation again. For linked accounts the person keeps control of their
+// own profile, so those changes are ignored rather than refused; providers
+// resend them on every sync.
+export async function updateScimUser(
+  teamId: number,
+  userId: number,
+  changes: ScimUserChanges
+): Promise<{ user: ScimUserRecord } | ScimFailure> {
+  const record = await getScimUser(teamId, userId);
+  if (!record) return failure(404, `User ${userId} not found.`);
+
+  if (record.managed && record.active) {
+    const userName = changes.userName?.toLowerCase();
+    if (userName && userName !== record.userName.toLowerCase()) {
+      if (await getUserByEmail(userName)) {
+        return failure(409, `User ${userName} already exists.`, 'uniqueness');
+      }
+      if (await isTeamVerifiedAddress(teamId, userName)) {
+        await changeUserEmail(userId, userName);
+      } else {
+        await requestEmailChange(userId, userName);
+      }
+    }
+    if (changes.name !== undefined && changes.name !== record.name) {
+      const { error } = await supabaseAdmin
+        .from('users')
+        .update({ name: changes.name, updated_at: new Date().toISOString() })
+        .eq('id', userId);
+      if (error) throw error;
+    }
+  }
+
+  await saveIdentity(teamId, userId, {
+    userName:
+      record.managed && record.active && changes.userName
+        ? changes.userName
+        : record.userName,
+    ...(changes.externalId !== undefined && { externalId: changes.externalId }),
+  });
+
+  if (changes.active !== undefined) {
+    return setScimUserActive(teamId, userId, changes.active);
+  }
+  return { user: (await getScimUser(teamId, userId))! };
+}
+
+// Deprovisions the user and forgets the provider's record of them.
+export async function deleteScimUser(
+  teamId: number,
+  userId: number
+): Promise<{ deleted: true } | ScimFailure> {
+  const deactivated = await setScimUserActive(teamId, userId, false);
+  if ('error' in deactivated) return deactivated;
+
+  const { error } = await supabaseAdmin
+    .from('scim_identities')
+    .delete()
+    .eq('team_id', teamId)
+    .eq('user_id', userId);
+  if (error) throw error;
+
+  return { deleted: true };
+}
+
+//
+// Reading requests
+//
+function readName(value: unknown): string | null | undefined {
+  if (value === null) return null;
+  if (typeof value === 'string') return value.trim() || null;
+  if (!isRecord(value)) return undefined;
+  if (typeof value.formatted === 'string') return value.formatted.trim() || null;
+
+  const parts = [value.givenName, value.familyName].filter(
+    (part): part is string => typeof part === 'string' && !!part.trim()
+  );
+  return parts.length > 0 ? parts.join(' ').trim() : undefined;
+}
+
+// The attributes of a User body this app stores. Anything else the provider
+// sends (titles, enterprise extensions, phone numbers) is accepted and
+// ignored, since refusing it would stop the provider syncing at all.
+function readUserAttributes(body: Record<string, unknown>): ScimUserChanges {
+  const changes: ScimUserChanges = {};
+  if (typeof body.userName === 'string') {
+    changes.userName = body.userName.trim();
+  }
+  if (typeof body.externalId === 'string' || body.externalId === null) {
+    changes.externalId = body.externalId;
+  }
+  const name = readName(body.name) ?? readName(body.displayName);
+  if (name !== undefined) changes.name = name;
+  const active = readBoolean(body.active);
+  if (active !== null) changes.active = active;
+  return changes;
+}
+
+// A POST or PUT body: a full User with at least a userName.
+export function readScimUser(
+  body: Record<string, unknown> | null
+): { input: ScimUserInput } | ScimFailure {
+  const changes = body ? readUserAttributes(body) : {};
+  if (
+    !changes.userName ||
+    !z.string().email().safeParse(changes.userName).success
+  ) {
+    return failure(400, 'userName must be an email address.', 'invalidValue');
+  }
+  return {
+    input: {
+      userName: changes.userName,
+      name: changes.name ?? null,
+      externalId: changes.externalId ?? null,
+      active: changes.active ?? true,
+    },
+  };
+}
+
+// Turns PATCH operations into changes. Operations without a path carry an
+// object of attributes; with a path, the value is for that one attribute.
+export function readUserPatch(
+  operations: PatchOperation[]
+): { changes: ScimUserChanges } | ScimFailure {
+  const changes: ScimUserChanges = {};
+  for (const operation of operations) {
+    const path = operation.path?.toLowerCase() ?? null;
+    const value = operation.op === 'remove' ? null : operation.value;
+
+    if (path === null) {
+      if (!isRecord(value)) {
+        return failure(
+          400,
+          'A PATCH without a path needs an object value.',
+          'invalidSyntax'
+        );
+      }
+      // Some providers flatten sub-attributes into "name.givenName" keys.
+      const flattened: Record<string, unknown> = {};
+      for (const [key, entry] of Object.entries(value)) {
+        const [head, tail] = key.split('.');
+        if (tail) {
+          const parent = flattened[head];
+          flattened[head] = { ...(isRecord(parent) && parent), [tail]: entry };
+        } else {
+          flattened[key] = entry;
+        }
+      }
+      Object.assign(changes, readUserAttributes(flattened));
+    } else if (path === 'active') {
+      const active = readBoolean(value);
+      if (active === null) {
+        return failure(400, 'active must be a boolean.', 'invalidValue');
+      }
+      changes.active = active;
+    } else if (path === 'username') {
+      if (typeof value !== 'string') {
+        return failure(400, 'userName must be a string.', 'invalidValue');
+      }
+      changes.userName = value.trim();
+    } else if (path === 'externalid') {
+      changes.externalId = typeof value === 'string' ? value : null;
+    } else if (
+      path === 'displayname' ||
+      path === 'name' ||
+      path === 'name.formatted'
+    ) {
+      changes.name = readName(value) ?? null;
+    } else if (path === 'name.givenname' || path === 'name.familyname') {
+      const key = path === 'name.givenname' ? 'givenName' : 'familyName';
+      changes.name = readName({ [key]: value }) ?? changes.name ?? null;
+    }
+  }
+
+  if (
+    changes.userName !== undefined &&
+    !z.string().email().safeParse(changes.userName).success
+  ) {
+    return failure(400, 'userName must be an email address.', 'invalidValue');
+  }
+  return { changes };
+}
@@ -1,11 +1,41 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
-import { signToken, verifyToken } from '@/lib/auth/session';
+import {
+  REQUEST_ID_HEADER,
+  signToken,
+  touchSession,
+  verifyToken
+} from '@/lib/auth/session';
+import { isSignedWithOldKey } from '@/lib/auth/keys';
+import {
+  PARKED_SESSION_COOKIE,
+  recordExpiredImpersonation
+} from '@/lib/auth/impersonation';
+import { decodeJwt } from 'jose';
 
 const protectedRoutes = '/dashboard';
 
+// Ties together the activity log entries written while handling one request.
+function withRequestId(request: NextRequest) {
+  const incoming = request.headers.get(REQUEST_ID_HEADER);
+  const requestId =
+    incoming && /^[\w.:-]{1,64}$/.test(incoming) ? incoming : crypto.randomUUID();
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(REQUEST_ID_HEADER, requestId);
+
+  const res = NextResponse.next({ request: { headers: requestHeaders } });
+  res.headers.set(REQUEST_ID_HEADER, requestId);
+  return res;
+}
+
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
+
+  // API routes authenticate each request themselves; they only need an id.
+  if (pathname.startsWith('/api/')) {
+    return withRequestId(request);
+  }
+
   const sessionCookie = request.cookies.get('session');
   const isProtectedRoute = pathname.startsWith(protectedRoutes);
 
@@ -13,25 +43,56 @@ export async function middleware(request: NextRequest) {
     return NextResponse.redirect(new URL('/sign-in', request.url));
   }
 
-  let res = NextResponse.next();
+  let res = withRequestId(request);
 
-  if (sessionCookie && request.method === "GET") {
+  // Sessions are refreshed on GETs, and on any request still carrying a token
+  // signed with a key that has since been rotated out.
+  if (
+    sessionCookie &&
+    (request.method === "GET" || isSignedWithOldKey(sessionCookie.value))
+  ) {
     try {
+      // Throws for revoked sessions as well as bad signatures.
       const parsed = await verifyToken(sessionCookie.value);
-      const expiresInOneDay = new Date(Date.now() + 24 * 60 * 60 * 1000);
+      // Impersonation sessions keep their fixed expiry.
+      const expires = parsed.impersonator
+        ? new Date(parsed.expires)
+        : new Date(Date.now() + 24 * 60 * 60 * 1000);
+      await touchSession(parsed.sid, expires);
 
       res.cookies.set({
         name: 'session',
         value: await signToken({
           ...parsed,
-          expires: expiresInOneDay.toISOString(),
+          expires: expires.toISOString(),
         }),
         httpOnly: true,
         secure: true,
         sameSite: 'lax',
-        expires: expiresInOneDay,
+        expires,
       });
     } catch (error) {
+      // An impersonation that ran out hands back the superadmin's session.
+      const parked = request.cookies.get(PARKED_SESSION_COOKIE);
+      if (parked) {
+        try {
+          const { sid } = decodeJwt(sessionCookie.value);
+          await recordExpiredImpersonation(sid as string | undefined);
+        } catch {
+          // Not even a JWT; nothing to record.
+        }
+        res = NextResponse.redirect(new URL('/dashboard', request.url));
+        res.cookies.set({
+          name: 'session',
+          value: parked.value,
+          httpOnly: true,
+          secure: true,
+          sameSite: 'lax',
+        });
+        res.cookies.delete(PARKED_SESSION_COOKIE);
+        return res;
+      }
+
       console.error('Error updating session:', error);
       res.cookies.delete('session');
       if (isProtectedRoute) {
@@ -44,5 +105,5 @@ export async function middleware(request: NextRequest) {
 }
 
 export const config = {
-  matcher: ['/((?!api|_next/static|_next/image|favicon.ico).*)'],
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
 };
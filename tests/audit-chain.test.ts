@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import {
+  canonicalJson,
+  commitIp,
+  hashEntry,
+  verifyEntries,
+  type ChainedEntry
+} from '@/lib/audit/chain';
+
+// The activity log's hash chain from lib/audit/chain.ts, on entries built in
+// memory the way logActivity seals them.
+async function buildChain(count: number, ipAddress: string | null = null) {
+  const entries: ChainedEntry[] = [];
+  for (let seq = 1; seq <= count; seq++) {
+    const content = {
+      id: seq * 10,
+      teamId: 1,
+      seq,
+      prevHash: entries.at(-1)?.hash ?? null,
+      userId: 7,
+      actorType: 'user',
+      action: 'SIGN_IN',
+      timestamp: new Date(Date.UTC(2026, 0, seq)).toISOString(),
+      targetType: null,
+      targetId: null,
+      targetLabel: null,
+      metadata: { via: 'password', attempt: seq },
+      ipAddress,
+      ...(await commitIp(ipAddress)),
+      userAgent: 'vitest',
+      requestId: null,
+    };
+    entries.push({ ...content, hash: await hashEntry(content) });
+  }
+  return entries;
+}
+
+describe('canonicalJson', () => {
+  it('sorts keys at every level', () => {
+    expect(canonicalJson({ b: 1, a: { d: [{ f: 1, e: 2 }], c: null } })).toBe(
+      '{"a":{"c":null,"d":[{"e":2,"f":1}]},"b":1}'
+    );
+  });
+
+  it('drops undefined fields and nulls undefined array items', () => {
+    expect(canonicalJson({ a: undefined, b: [undefined, 1] })).toBe(
+      '{"b":[null,1]}'
+    );
+    expect(canonicalJson(undefined)).toBe('null');
+  });
+
+  it('encodes equal objects the same whatever their key order', () => {
+    expect(canonicalJson({ x: 1, y: 'two' })).toBe(
+      canonicalJson({ y: 'two', x: 1 })
+    );
+  });
+});
+
+describe('verifyEntries', () => {
+  it('accepts an intact chain and reports its head', async () => {
+    const entries = await buildChain(3);
+
+    expect(await verifyEntries(entries)).toEqual({
+      valid: true,
+      entries: 3,
+      head: entries[2].hash,
+    });
+  });
+
+  it('accepts an empty chain', async () => {
+    expect(await verifyEntries([])).toEqual({
+      valid: true,
+      entries: 0,
+      head: null,
+    });
+  });
+
+  it('finds an altered entry', async () => {
+    const entries = await buildChain(3);
+    entries[1] = { ...entries[1], metadata: { via: 'magic-link', attempt: 2 } };
+
+    expect(await verifyEntries(entries)).toEqual({
+      valid: false,
+      entries: 1,
+      firstBreak: { seq: 2, id: 20, reason: 'altered' },
+    });
+  });
+
+  it('finds the gap a deleted entry leaves', async () => {
+    const entries = await buildChain(3);
+    entries.splice(1, 1);
+
+    expect(await verifyEntries(entries)).toEqual({
+      valid: false,
+      entries: 1,
+      firstBreak: { seq: 2, id: null, reason: 'missing' },
+    });
+  });
+
+  it('finds an entry linked to the wrong predecessor', async () => {
+    const entries = await buildChain(3);
+    entries[2] = { ...entries[2], prevHash: entries[0].hash };
+
+    expect(await verifyEntries(entries)).toEqual({
+      valid: false,
+      entries: 2,
+      firstBreak: { seq: 3, id: 30, reason: 'relinked' },
+    });
+  });
+
+  it('starts after a retention checkpoint', async () => {
+    const entries = await buildChain(4);
+    const checkpoint = { seq: entries[1].seq, hash: entries[1].hash };
+
+    expect(await verifyEntries(entries.slice(2), checkpoint)).toMatchObject({
+      valid: true,
+      entries: 2,
+    });
+    expect(await verifyEntries(entries.slice(2))).toMatchObject({
+      valid: false,
+      firstBreak: { seq: 1, reason: 'missing' },
+    });
+  });
+
+  describe('IP addresses', () => {
+    it('checks an address against its digest while the salt is kept', async () => {
+      const entries = await buildChain(2, '203.0.113.42');
+      entries[0] = { ...entries[0], ipAddress: '198.51.100.7' };
+
+      expect(await verifyEntries(entries)).toMatchObject({
+        valid: false,
+        firstBreak: { seq: 1, reason: 'altered' },
+      });
+    });
+
+    it('stays valid once an address is truncated and its salt dropped', async () => {
+      const entries = await buildChain(2, '203.0.113.42');
+      entries[0] = { ...entries[0], ipAddress: '203.0.113.0', ipSalt: null };
+
+      expect(await verifyEntries(entries)).toMatchObject({ valid: true });
+    });
+  });
+});
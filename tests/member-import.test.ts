@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// CSV parsing and the per-row preview of lib/auth/member-import.ts. The
+// team's members and pending invitations are faked.
+vi.mock('@/lib/db/queries', () => ({
+  getTeamWithMembers: vi.fn(),
+}));
+
+vi.mock('@/lib/auth/invitations', () => ({
+  getPendingInvitations: vi.fn(),
+}));
+
+import { getPendingInvitations } from '@/lib/auth/invitations';
+import {
+  MAX_IMPORT_ROWS,
+  parseCsv,
+  previewMemberImport
+} from '@/lib/auth/member-import';
+import { getTeamWithMembers } from '@/lib/db/queries';
+
+const admin = {
+  roles: ['owner', 'member', 'admin', 'billing'],
+  canAssignRoles: true,
+  assignableRoles: ['member', 'admin'],
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getTeamWithMembers).mockResolvedValue({
+    members: [{ email: 'Grace@Example.com' }],
+  } as Awaited<ReturnType<typeof getTeamWithMembers>>);
+  vi.mocked(getPendingInvitations).mockResolvedValue([
+    { email: 'ada@example.com' },
+  ] as Awaited<ReturnType<typeof getPendingInvitations>>);
+});
+
+async function preview(csv: string, options = admin) {
+  const result = await previewMemberImport(1, csv, options);
+  if ('error' in result) throw new Error(result.error);
+  return result.rows;
+}
+
+describe('parseCsv', () => {
+  it('splits rows on any line ending', () => {
+    expect(parseCsv('a,b\r\nc,d\re,f\ng')).toEqual([
+      ['a', 'b'],
+      ['c', 'd'],
+      ['e', 'f'],
+      ['g'],
+    ]);
+  });
+
+  it('reads quoted fields with commas, doubled quotes and newlines', () => {
+    expect(parseCsv('"Lovelace, Ada","say ""hi""","two\nlines"\n')).toEqual([
+      ['Lovelace, Ada', 'say "hi"', 'two\nlines'],
+    ]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('a,,\n,b,')).toEqual([
+      ['a', '', ''],
+      ['', 'b', ''],
+    ]);
+  });
+});
+
+describe('previewMemberImport', () => {
+  it('takes columns in order without a header', async () => {
+    expect(await preview('new@example.com,admin,New Person\n')).toEqual([
+      {
+        line: 1,
+        email: 'new@example.com',
+        role: 'admin',
+        name: 'New Person',
+        status: 'ready',
+      },
+    ]);
+  });
+
+  it('follows a header in any order, after a byte order mark', async () => {
+    const rows = await preview(
+      '\uFEFFName,EMAIL\nNew Person, NEW@Example.com \n\n'
+    );
+
+    expect(rows).toEqual([
+      {
+        line: 2,
+        email: 'new@example.com',
+        role: 'member',
+        name: 'New Person',
+        status: 'ready',
+      },
+    ]);
+  });
+
+  it('explains why a row is invalid', async () => {
+    const rows = await preview(
+      [
+        'not-an-email,member',
+        ',member',
+        `long@example.com,member,${'x'.repeat(101)}`,
+        'someone@example.com,janitor',
+        'someone@example.com,billing',
+        'someone@example.com,owner',
+      ].join('\n')
+    );
+
+    expect(rows.map(({ status, problem }) => ({ status, problem }))).toEqual([
+      { status: 'invalid', problem: 'Not a valid email address.' },
+      { status: 'invalid', problem: 'Email is missing.' },
+      { status: 'invalid', problem: 'Name is longer than 100 characters.' },
+      { status: 'invalid', problem: 'Unknown role "janitor".' },
+      {
+        status: 'invalid',
+        problem: "You can't invite someone with permissions you don't have.",
+      },
+      { status: 'invalid', problem: 'Only owners can invite owners.' },
+    ]);
+  });
+
+  it('only allows the member role without roles.manage', async () => {
+    const rows = await preview('a@example.com,admin\nb@example.com,member', {
+      ...admin,
+      canAssignRoles: false,
+    });
+
+    expect(rows.map((row) => row.problem)).toEqual([
+      'You can only invite members with the member role.',
+      undefined,
+    ]);
+  });
+
+  it('marks members, pending invitations and repeats as duplicates', async () => {
+    const rows = await preview(
+      [
+        'grace@example.com',
+        'ada@example.com',
+        'new@example.com',
+        'New@example.com,admin',
+      ].join('\n')
+    );
+
+    expect(rows.map(({ status, problem }) => ({ status, problem }))).toEqual([
+      { status: 'duplicate', problem: 'Already a member.' },
+      { status: 'duplicate', problem: 'Already invited.' },
+      { status: 'ready', problem: undefined },
+      { status: 'duplicate', problem: 'Appears earlier in the file.' },
+    ]);
+  });
+
+  it('refuses a file with no rows or too many', async () => {
+    expect(await previewMemberImport(1, 'email,role,name\n\n', admin)).toEqual({
+      error: 'The file has no rows to import.',
+    });
+
+    const csv = Array.from(
+      { length: MAX_IMPORT_ROWS + 1 },
+      (_, i) => `user${i}@example.com`
+    ).join('\n');
+    expect(await previewMemberImport(1, csv, admin)).toEqual({
+      error: `The file has ${MAX_IMPORT_ROWS + 1} rows; import at most ${MAX_IMPORT_ROWS} at a time.`,
+    });
+    expect(getTeamWithMembers).not.toHaveBeenCalled();
+  });
+});
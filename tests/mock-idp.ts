@@ -0,0 +1,142 @@
+import { createHash, randomBytes } from 'crypto';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { SignJWT, exportJWK, generateKeyPair, type JWTPayload } from 'jose';
+
+// An OpenID provider on localhost for the OIDC tests: discovery, a JWKS and a
+// token endpoint that checks PKCE, signing ID tokens with its own RS256 key.
+// The authorization step (the user logging in at the IdP) is `authorize`,
+// which approves an authorization URL and hands back the code and state the
+// IdP would redirect with.
+type Grant = {
+  clientId: string;
+  redirectUri: string;
+  challenge: string;
+  claims: JWTPayload;
+};
+
+type TokenRequest = {
+  code: string | null;
+  verifier: string | null;
+  status: number;
+};
+
+export type MockIdp = {
+  issuer: string;
+  tokenRequests: TokenRequest[];
+  // `claims` are added to, or override, the ID token's claims.
+  authorize(
+    authorizationUrl: URL,
+    claims?: JWTPayload
+  ): { code: string; state: string };
+  close(): Promise<void>;
+};
+
+export async function startMockIdp(clientSecret: string): Promise<MockIdp> {
+  const { publicKey, privateKey } = await generateKeyPair('RS256');
+  const jwk = { ...(await exportJWK(publicKey)), kid: 'mock', alg: 'RS256' };
+  const grants = new Map<string, Grant>();
+  const tokenRequests: TokenRequest[] = [];
+
+  const server = createServer(async (req, res) => {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    };
+    const path = new URL(req.url!, issuer).pathname;
+
+    if (req.method === 'GET' && path === '/.well-known/openid-configuration') {
+      return send(200, {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+      });
+    }
+    if (req.method === 'GET' && path === '/jwks') {
+      return send(200, { keys: [jwk] });
+    }
+    if (req.method !== 'POST' || path !== '/token') {
+      return send(404, { error: 'not_found' });
+    }
+
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    const params = new URLSearchParams(body);
+    const code = params.get('code');
+    const verifier = params.get('code_verifier');
+    const grant = code ? grants.get(code) : undefined;
+    if (code) grants.delete(code);
+
+    const refuse = (error: string) => {
+      tokenRequests.push({ code, verifier, status: 400 });
+      send(400, { error });
+    };
+    if (params.get('grant_type') !== 'authorization_code' || !grant) {
+      return refuse('invalid_grant');
+    }
+    if (
+      params.get('client_id') !== grant.clientId ||
+      params.get('client_secret') !== clientSecret
+    ) {
+      return refuse('invalid_client');
+    }
+    if (
+      params.get('redirect_uri') !== grant.redirectUri ||
+      !verifier ||
+      createHash('sha256').update(verifier).digest('base64url') !==
+        grant.challenge
+    ) {
+      return refuse('invalid_grant');
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const idToken = await new SignJWT({
+      iss: issuer,
+      aud: grant.clientId,
+      iat: now,
+      exp: now + 300,
+      ...grant.claims,
+    })
+      .setProtectedHeader({ alg: 'RS256', kid: 'mock' })
+      .sign(privateKey);
+    tokenRequests.push({ code, verifier, status: 200 });
+    send(200, { access_token: 'mock', token_type: 'Bearer', id_token: idToken });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const issuer = `http://127.0.0.1:${port}`;
+
+  return {
+    issuer,
+    tokenRequests,
+    authorize(authorizationUrl, claims = {}) {
+      const params = authorizationUrl.searchParams;
+      if (params.get('code_challenge_method') !== 'S256') {
+        throw new Error('The client must use PKCE with S256');
+      }
+
+      const code = randomBytes(16).toString('hex');
+      grants.set(code, {
+        clientId: params.get('client_id')!,
+        redirectUri: params.get('redirect_uri')!,
+        challenge: params.get('code_challenge')!,
+        claims: {
+          sub: 'mock-user-1',
+          email: 'Ada@Example.com',
+          email_verified: true,
+          name: 'Ada Lovelace',
+          nonce: params.get('nonce'),
+          ...claims,
+        },
+      });
+      return { code, state: params.get('state')! };
+    },
+    close() {
+      return new Promise((resolve, reject) =>
+        server.close((error) => (error ? reject(error) : resolve()))
+      );
+    },
+  };
+}
@@ -0,0 +1,298 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi
+} from 'vitest';
+import { NextRequest } from 'next/server';
+import { startMockIdp, type MockIdp } from './mock-idp';
+
+// The sign-in flow of lib/auth/oidc.ts and its callback route against the
+// mock IdP. Cookies, the database and session handling are faked; the
+// authorization code exchange and ID token checks run for real.
+const env = vi.hoisted(() => {
+  Object.assign(process.env, {
+    AUTH_SECRET: 'test-secret-that-is-long-enough-for-hs256',
+    BASE_URL: 'http://localhost:3000',
+    OIDC_PROVIDERS: 'mock',
+    OIDC_MOCK_NAME: 'Mock IdP',
+    OIDC_MOCK_CLIENT_ID: 'saas-starter',
+    OIDC_MOCK_CLIENT_SECRET: 'mock-client-secret',
+  });
+  return {
+    cookies: new Map<string, string>(),
+    identities: [] as Record<string, unknown>[],
+  };
+});
+
+vi.mock('next/headers', () => ({
+  cookies: async () => ({
+    get: (name: string) =>
+      env.cookies.has(name)
+        ? { name, value: env.cookies.get(name) }
+        : undefined,
+    set: (name: string, value: string) => env.cookies.set(name, value),
+    delete: (name: string) => env.cookies.delete(name),
+  }),
+}));
+
+vi.mock('next/navigation', () => ({
+  redirect: (url: string) => {
+    throw new Error(`Unexpected redirect to ${url}`);
+  },
+}));
+
+// Just enough of `user_identities` for findIdentity, linkIdentity and
+// touchIdentity.
+vi.mock('@/lib/supabaseClient', () => {
+  function query(filters: [string, unknown][] = []) {
+    const rows = () =>
+      env.identities.filter((row) =>
+        filters.every(([column, value]) => row[column] === value)
+      );
+    return {
+      eq: (column: string, value: unknown) =>
+        query([...filters, [column, value]]),
+      maybeSingle: async () => ({ data: rows()[0] ?? null, error: null }),
+      then: (resolve: (result: { error: null }) => void) =>
+        resolve({ error: null }),
+    };
+  }
+
+  return {
+    supabaseAdmin: {
+      from: () => ({
+        select: () => query(),
+        update: () => query(),
+        insert: async (row: Record<string, unknown>) => {
+          env.identities.push({ id: env.identities.length + 1, ...row });
+          return { error: null };
+        },
+      }),
+    },
+  };
+});
+
+vi.mock('@/lib/db/queries', () => ({
+  createUserWithTeam: vi.fn(),
+  getUser: vi.fn(),
+  getUserByEmail: vi.fn(),
+  getUserWithTeam: vi.fn(),
+}));
+
+vi.mock('@/lib/auth/session', () => ({
+  hashPassword: async () => 'hashed',
+  setPendingMfa: vi.fn(),
+}));
+
+vi.mock('@/lib/auth/sign-in', () => ({
+  completeSignIn: vi.fn(async () => new Response('signed in')),
+  getSecondFactors: async () => [],
+}));
+
+import { GET } from '@/app/api/auth/oidc/[provider]/callback/route';
+import {
+  completePendingIdentityLink,
+  createAuthorizationUrl,
+  getOidcProvider
+} from '@/lib/auth/oidc';
+import { completeSignIn } from '@/lib/auth/sign-in';
+import {
+  createUserWithTeam,
+  getUserByEmail,
+  getUserWithTeam
+} from '@/lib/db/queries';
+
+let idp: MockIdp;
+
+beforeAll(async () => {
+  idp = await startMockIdp(process.env.OIDC_MOCK_CLIENT_SECRET!);
+  process.env.OIDC_MOCK_ISSUER = idp.issuer;
+});
+
+afterAll(() => idp.close());
+
+beforeEach(() => {
+  env.cookies.clear();
+  env.identities.length = 0;
+  idp.tokenRequests.length = 0;
+  vi.clearAllMocks();
+  vi.mocked(getUserByEmail).mockResolvedValue(null);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+function startSignIn() {
+  return createAuthorizationUrl(getOidcProvider('mock')!, {
+    mode: 'sign-in',
+  });
+}
+
+function callback(params: { code: string; state: string }) {
+  const url = new URL('/api/auth/oidc/mock/callback', process.env.BASE_URL);
+  url.search = new URLSearchParams(params).toString();
+  // Every way out of the route is a response once completeSignIn is faked.
+  return GET(new NextRequest(url), {
+    params: Promise.resolve({ provider: 'mock' }),
+  }) as Promise<Response>;
+}
+
+function expectRefused(response: Response) {
+  expect(response.status).toBe(307);
+  expect(response.headers.get('location')).toBe(
+    'http://localhost:3000/sign-in?error=oidc'
+  );
+  expect(completeSignIn).not.toHaveBeenCalled();
+  expect(createUserWithTeam).not.toHaveBeenCalled();
+}
+
+describe('authorization request', () => {
+  it('sends a PKCE challenge, state and nonce', async () => {
+    const url = await startSignIn();
+
+    expect(url.origin + url.pathname).toBe(`${idp.issuer}/authorize`);
+    expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+    expect(url.searchParams.get('code_challenge')).toMatch(/^[\w-]{43}$/);
+    expect(url.searchParams.get('state')).toBeTruthy();
+    expect(url.searchParams.get('nonce')).toBeTruthy();
+    expect(url.searchParams.get('redirect_uri')).toBe(
+      'http://localhost:3000/api/auth/oidc/mock/callback'
+    );
+    expect(env.cookies.has('oidc_flow')).toBe(true);
+  });
+});
+
+describe('authorization response', () => {
+  it('refuses a state that does not match the flow', async () => {
+    const { code } = idp.authorize(await startSignIn());
+
+    expectRefused(await callback({ code, state: 'forged' }));
+    expect(idp.tokenRequests).toHaveLength(0);
+    expect(env.cookies.has('oidc_flow')).toBe(false);
+  });
+
+  it('refuses a code issued to another flow (PKCE)', async () => {
+    const { code } = idp.authorize(await startSignIn());
+    // The victim's browser is in a flow of its own; only the state of that
+    // flow gets past the state check.
+    const { state } = idp.authorize(await startSignIn());
+
+    expectRefused(await callback({ code, state }));
+    expect(idp.tokenRequests).toEqual([
+      expect.objectContaining({ code, status: 400 }),
+    ]);
+  });
+
+  it('refuses a callback with no flow in progress', async () => {
+    const grant = idp.authorize(await startSignIn());
+    env.cookies.clear();
+
+    expectRefused(await callback(grant));
+  });
+
+  it.each([
+    ['nonce', { nonce: 'replayed-nonce' }],
+    ['audience', { aud: 'another-client' }],
+    ['issuer', { iss: 'https://idp.example' }],
+  ])('refuses an ID token with the wrong %s', async (_, claims) => {
+    const grant = idp.authorize(await startSignIn(), claims);
+
+    expectRefused(await callback(grant));
+    expect(idp.tokenRequests).toEqual([
+      expect.objectContaining({ status: 200 }),
+    ]);
+  });
+
+  it('refuses an expired ID token', async () => {
+    const now = Math.floor(Date.now() / 1000);
+    const grant = idp.authorize(await startSignIn(), {
+      iat: now - 600,
+      exp: now - 60,
+    });
+
+    expectRefused(await callback(grant));
+  });
+});
+
+describe('callback', () => {
+  it('signs up a new identity', async () => {
+    vi.mocked(createUserWithTeam).mockResolvedValue({
+      user: { id: 7 },
+    } as Awaited<ReturnType<typeof createUserWithTeam>>);
+
+    const response = await callback(idp.authorize(await startSignIn()));
+
+    expect(await response.text()).toBe('signed in');
+    expect(createUserWithTeam).toHaveBeenCalledWith(
+      expect.objectContaining({
+        email: 'ada@example.com',
+        name: 'Ada Lovelace',
+        emailVerified: true,
+      })
+    );
+    expect(env.identities).toEqual([
+      expect.objectContaining({
+        user_id: 7,
+        provider: 'mock',
+        subject: 'mock-user-1',
+        email: 'ada@example.com',
+      }),
+    ]);
+    expect(completeSignIn).toHaveBeenCalledWith(7, expect.anything());
+  });
+
+  it('signs in an identity that is already linked', async () => {
+    env.identities.push({
+      id: 1,
+      user_id: 9,
+      provider: 'mock',
+      subject: 'mock-user-1',
+    });
+    vi.mocked(getUserWithTeam).mockResolvedValue({
+      user: { id: 9, deleted_at: null },
+    } as Awaited<ReturnType<typeof getUserWithTeam>>);
+
+    await callback(idp.authorize(await startSignIn()));
+
+    expect(completeSignIn).toHaveBeenCalledWith(9, expect.anything());
+    expect(createUserWithTeam).not.toHaveBeenCalled();
+  });
+
+  describe('with the email of an existing account', () => {
+    beforeEach(() => {
+      vi.mocked(getUserByEmail).mockResolvedValue({
+        id: 3,
+      } as Awaited<ReturnType<typeof getUserByEmail>>);
+    });
+
+    it('waits for the account owner to sign in before linking', async () => {
+      const response = await callback(idp.authorize(await startSignIn()));
+
+      expect(response.headers.get('location')).toBe(
+        'http://localhost:3000/sign-in?link=Mock+IdP'
+      );
+      expect(completeSignIn).not.toHaveBeenCalled();
+      expect(createUserWithTeam).not.toHaveBeenCalled();
+      expect(env.identities).toHaveLength(0);
+
+      await completePendingIdentityLink(3);
+      expect(env.identities).toEqual([
+        expect.objectContaining({
+          user_id: 3,
+          provider: 'mock',
+          subject: 'mock-user-1',
+        }),
+      ]);
+    });
+
+    it('discards the link when someone else signs in', async () => {
+      await callback(idp.authorize(await startSignIn()));
+
+      await completePendingIdentityLink(4);
+      await completePendingIdentityLink(3);
+      expect(env.identities).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Who may hand out which role, from lib/auth/permissions.ts. Membership and
+// the team's custom roles are faked.
+const env = vi.hoisted(() => ({
+  customRoles: new Map<string, string[]>(),
+}));
+
+// Just enough of `team_roles` for getRolePermissions.
+vi.mock('@/lib/supabaseClient', () => {
+  function query(name?: string) {
+    return {
+      eq: (column: string, value: unknown) =>
+        query(column === 'name' ? String(value) : name),
+      maybeSingle: async () => ({
+        data:
+          name !== undefined && env.customRoles.has(name)
+            ? { permissions: env.customRoles.get(name) }
+            : null,
+        error: null,
+      }),
+    };
+  }
+
+  return {
+    supabaseAdmin: {
+      from: () => ({ select: () => query() }),
+    },
+  };
+});
+
+vi.mock('@/lib/db/queries', () => ({
+  getTeamRole: vi.fn(),
+}));
+
+import {
+  BUILT_IN_ROLES,
+  canAssignRole,
+  canGrant,
+  canManageMember,
+  getGrantor,
+  type Grantor
+} from '@/lib/auth/permissions';
+import { getTeamRole } from '@/lib/db/queries';
+
+const owner: Grantor = { role: 'owner', permissions: BUILT_IN_ROLES.owner };
+const admin: Grantor = {
+  role: 'admin',
+  permissions: ['members.invite', 'members.remove', 'roles.manage'],
+};
+const member: Grantor = { role: 'member', permissions: [] };
+
+beforeEach(() => {
+  env.customRoles.clear();
+  env.customRoles.set('admin', admin.permissions);
+  env.customRoles.set('billing', ['billing.manage']);
+  vi.clearAllMocks();
+});
+
+describe('canGrant', () => {
+  it('allows permissions the grantor holds', () => {
+    expect(canGrant(admin, ['members.invite', 'roles.manage'])).toBe(true);
+    expect(canGrant(member, [])).toBe(true);
+  });
+
+  it('refuses any permission the grantor lacks', () => {
+    expect(canGrant(admin, ['members.invite', 'billing.manage'])).toBe(false);
+    expect(canGrant(member, ['audit.read'])).toBe(false);
+  });
+});
+
+describe('canAssignRole', () => {
+  it('lets only owners hand out ownership', () => {
+    const ownerRole = { name: 'owner', permissions: BUILT_IN_ROLES.owner };
+
+    expect(canAssignRole(owner, ownerRole)).toBe(true);
+    // Holding every permission isn't enough without being an owner.
+    expect(
+      canAssignRole({ role: 'admin', permissions: owner.permissions }, ownerRole)
+    ).toBe(false);
+  });
+
+  it('allows a role no stronger than the grantor', () => {
+    expect(
+      canAssignRole(admin, { name: 'inviter', permissions: ['members.invite'] })
+    ).toBe(true);
+    expect(canAssignRole(admin, { name: 'member', permissions: [] })).toBe(true);
+  });
+
+  it('refuses a role with a permission the grantor lacks', () => {
+    expect(
+      canAssignRole(admin, { name: 'billing', permissions: ['billing.manage'] })
+    ).toBe(false);
+  });
+});
+
+describe('getGrantor', () => {
+  it('reads the role and its permissions', async () => {
+    vi.mocked(getTeamRole).mockResolvedValue('admin');
+
+    expect(await getGrantor(1, 2)).toEqual(admin);
+    expect(getTeamRole).toHaveBeenCalledWith(1, 2);
+  });
+
+  it('grants nothing outside the team', async () => {
+    vi.mocked(getTeamRole).mockResolvedValue(null);
+
+    const grantor = await getGrantor(1, 2);
+    expect(grantor).toEqual({ role: null, permissions: [] });
+    expect(canAssignRole(grantor, { name: 'member', permissions: [] })).toBe(
+      true
+    );
+    expect(canGrant(grantor, ['members.invite'])).toBe(false);
+  });
+});
+
+describe('canManageMember', () => {
+  it('checks the member’s current role', async () => {
+    expect(await canManageMember(admin, 2, 'member')).toBe(true);
+    expect(await canManageMember(admin, 2, 'admin')).toBe(true);
+    expect(await canManageMember(admin, 2, 'billing')).toBe(false);
+    expect(await canManageMember(admin, 2, 'owner')).toBe(false);
+  });
+
+  it('lets owners manage anyone, other owners included', async () => {
+    expect(await canManageMember(owner, 2, 'owner')).toBe(true);
+    expect(await canManageMember(owner, 2, 'billing')).toBe(true);
+  });
+
+  it('treats a role the team no longer has as holding nothing', async () => {
+    expect(await canManageMember(member, 2, 'deleted-role')).toBe(true);
+  });
+});
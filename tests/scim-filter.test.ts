@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from 'vitest';
+
+// Only the filter parser and matcher of lib/scim/protocol.ts; token lookup
+// isn't reached.
+vi.mock('@/lib/auth/api-tokens', () => ({ findApiToken: vi.fn() }));
+
+import {
+  matchesFilter,
+  parseFilter,
+  type ScimFilter
+} from '@/lib/scim/protocol';
+
+function parse(input: string) {
+  const parsed = parseFilter(input);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return parsed.filter;
+}
+
+const ada = {
+  id: 'Ada-1',
+  userName: 'Ada@Example.com',
+  active: true,
+  name: { givenName: 'Ada', familyName: 'Lovelace' },
+  emails: [
+    { value: 'ada@example.com', primary: true },
+    { value: 'ada@work.example', primary: false },
+  ],
+  meta: { lastModified: '2026-03-01T00:00:00Z' },
+};
+
+describe('parseFilter', () => {
+  it('parses a comparison with a quoted value', () => {
+    expect(parse('userName eq "ada@example.com"')).toEqual({
+      op: 'eq',
+      path: 'userName',
+      value: 'ada@example.com',
+    });
+  });
+
+  it('parses booleans, numbers, null and pr', () => {
+    expect(parse('active eq true')).toMatchObject({ value: true });
+    expect(parse('meta.version gt 3')).toMatchObject({ op: 'gt', value: 3 });
+    expect(parse('externalId eq null')).toMatchObject({ value: null });
+    expect(parse('title pr')).toEqual({ op: 'pr', path: 'title' });
+  });
+
+  it('binds and tighter than or, and honours parentheses', () => {
+    const a: ScimFilter = { op: 'pr', path: 'a' };
+    const b: ScimFilter = { op: 'pr', path: 'b' };
+    const c: ScimFilter = { op: 'pr', path: 'c' };
+
+    expect(parse('a pr or b pr and c pr')).toEqual({
+      op: 'or',
+      left: a,
+      right: { op: 'and', left: b, right: c },
+    });
+    expect(parse('(a pr or b pr) and c pr')).toEqual({
+      op: 'and',
+      left: { op: 'or', left: a, right: b },
+      right: c,
+    });
+  });
+
+  it('reads operators and logical keywords in any case', () => {
+    expect(parse('not (userName EQ "x") AND active Eq true')).toEqual({
+      op: 'and',
+      left: {
+        op: 'not',
+        filter: { op: 'eq', path: 'userName', value: 'x' },
+      },
+      right: { op: 'eq', path: 'active', value: true },
+    });
+  });
+
+  it.each([
+    '',
+    'userName',
+    'userName eq',
+    'userName like "a"',
+    'userName eq unquoted',
+    '(userName pr',
+    'userName pr)',
+    'userName pr and',
+    'userName eq "unterminated',
+  ])('rejects %j', (input) => {
+    expect(parseFilter(input)).toEqual({ error: `Invalid filter: ${input}` });
+  });
+});
+
+describe('matchesFilter', () => {
+  const matches = (input: string) => matchesFilter(ada, parse(input));
+
+  it('compares strings without regard to case, except ids', () => {
+    expect(matches('username eq "ada@example.com"')).toBe(true);
+    expect(matches('id eq "Ada-1"')).toBe(true);
+    expect(matches('id eq "ada-1"')).toBe(false);
+  });
+
+  it('follows dotted paths into multi-valued attributes', () => {
+    expect(matches('name.familyName sw "love"')).toBe(true);
+    expect(matches('emails.value ew "@work.example"')).toBe(true);
+    expect(matches('emails.value co "nobody"')).toBe(false);
+  });
+
+  it('orders strings and numbers but nothing else', () => {
+    expect(matches('meta.lastModified gt "2026-01-01"')).toBe(true);
+    expect(matches('meta.lastModified lt "2026-01-01"')).toBe(false);
+    expect(matches('active gt 0')).toBe(false);
+  });
+
+  it('needs every value to differ for ne', () => {
+    expect(matches('emails.value ne "ada@example.com"')).toBe(false);
+    expect(matches('emails.value ne "grace@example.com"')).toBe(true);
+  });
+
+  it('combines with and, or and not', () => {
+    expect(matches('active eq true and not (title pr)')).toBe(true);
+    expect(matches('title pr or name.givenName eq "ada"')).toBe(true);
+    expect(matches('title pr and active eq true')).toBe(false);
+  });
+});
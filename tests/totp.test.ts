@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// Code checks and replay protection from lib/auth/totp.ts. Codes come from
+// the RFC 6238 SHA-1 test vectors, cut to six digits.
+const env = vi.hoisted(() => ({
+  lastUsedStep: null as number | null,
+}));
+
+// Just enough of `users` for markTotpStepUsed's conditional update, reading
+// the `or` filter it sends the way PostgREST would.
+vi.mock('@/lib/supabaseClient', () => ({
+  supabaseAdmin: {
+    from: () => ({
+      update: ({ totp_last_used_step }: { totp_last_used_step: number }) => {
+        let matches = true;
+        const query = {
+          eq: () => query,
+          or: (filter: string) => {
+            const below = Number(
+              /totp_last_used_step\.lt\.(\d+)/.exec(filter)![1]
+            );
+            matches =
+              (filter.includes('totp_last_used_step.is.null') &&
+                env.lastUsedStep === null) ||
+              (env.lastUsedStep !== null && env.lastUsedStep < below);
+            return query;
+          },
+          select: async () => {
+            if (matches) env.lastUsedStep = totp_last_used_step;
+            return { data: matches ? [{ id: 1 }] : [], error: null };
+          },
+        };
+        return query;
+      },
+    }),
+  },
+}));
+
+import { markTotpStepUsed, verifyTotpCode } from '@/lib/auth/totp';
+
+// base32 of the ASCII secret "12345678901234567890".
+const SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+// 1111111109 is in step 37037036, whose code is 081804; the next step's is
+// 050471.
+const AT = 1111111109 * 1000;
+const STEP = 37037036;
+
+beforeEach(() => {
+  env.lastUsedStep = null;
+  vi.useFakeTimers();
+  vi.setSystemTime(AT);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('verifyTotpCode', () => {
+  it('accepts the current code and returns its step', () => {
+    expect(verifyTotpCode(SECRET, '081804')).toBe(STEP);
+  });
+
+  it('allows one step of clock drift either way', () => {
+    expect(verifyTotpCode(SECRET, '050471')).toBe(STEP + 1);
+
+    vi.setSystemTime(AT + 30_000);
+    expect(verifyTotpCode(SECRET, '081804')).toBe(STEP);
+  });
+
+  it('refuses codes from further out', () => {
+    vi.setSystemTime(AT + 60_000);
+    expect(verifyTotpCode(SECRET, '081804')).toBeNull();
+
+    vi.setSystemTime(AT - 60_000);
+    expect(verifyTotpCode(SECRET, '050471')).toBeNull();
+  });
+
+  it('refuses steps at or before the last one used', () => {
+    expect(verifyTotpCode(SECRET, '081804', STEP)).toBeNull();
+    expect(verifyTotpCode(SECRET, '050471', STEP)).toBe(STEP + 1);
+    expect(verifyTotpCode(SECRET, '050471', STEP + 1)).toBeNull();
+  });
+
+  it.each(['', '81804', '0818040', 'abcdef', '081 804'])(
+    'refuses the malformed code %j',
+    (code) => {
+      expect(verifyTotpCode(SECRET, code)).toBeNull();
+    }
+  );
+});
+
+describe('markTotpStepUsed', () => {
+  it('claims a step once', async () => {
+    expect(await markTotpStepUsed(1, STEP)).toBe(true);
+    expect(env.lastUsedStep).toBe(STEP);
+
+    expect(await markTotpStepUsed(1, STEP)).toBe(false);
+  });
+
+  it('refuses a step older than the one claimed', async () => {
+    env.lastUsedStep = STEP + 1;
+
+    expect(await markTotpStepUsed(1, STEP)).toBe(false);
+    expect(env.lastUsedStep).toBe(STEP + 1);
+  });
+
+  it('moves on to later steps', async () => {
+    env.lastUsedStep = STEP;
+
+    expect(await markTotpStepUsed(1, STEP + 1)).toBe(true);
+    expect(env.lastUsedStep).toBe(STEP + 1);
+  });
+});